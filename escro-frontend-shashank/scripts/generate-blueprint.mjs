@@ -0,0 +1,124 @@
+// Generates src/utils/blueprint.generated.ts from the Aiken blueprint.
+//
+//   node scripts/generate-blueprint.mjs          write the generated module
+//   node scripts/generate-blueprint.mjs --check  fail if it is out of date
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const blueprintPath = resolve(root, '../escrow-dapp/plutus.json');
+const outputPath = resolve(root, 'src/utils/blueprint.generated.ts');
+
+const PRIMITIVES = { Int: 'bigint', ByteArray: 'string', Bool: 'boolean', Data: 'PlutusData' };
+
+const blueprint = JSON.parse(readFileSync(blueprintPath, 'utf8'));
+const definitions = blueprint.definitions;
+
+const keyOf = ref => ref.replace('#/definitions/', '').replace(/~1/g, '/');
+const typeName = key => key.split('/').pop();
+const camel = name => name.charAt(0).toLowerCase() + name.slice(1);
+const isGenericInstance = key => key.includes('$');
+
+const isBool = s => s.title === 'Bool' && s.anyOf?.length === 2 && s.anyOf[0].title === 'False';
+const isOption = s => s.title === 'Option' && s.anyOf?.length === 2 && s.anyOf[0].title === 'Some';
+const isEnum = s => s.anyOf?.length > 1 && s.anyOf.every(c => (c.fields ?? []).length === 0);
+
+const fieldsType = fields =>
+  fields.map((f, i) => `${f.title ?? `_${i}`}: ${typeOf(f)}`).join('; ');
+
+function typeOf(schema) {
+  if (schema.$ref) {
+    const key = keyOf(schema.$ref);
+    if (PRIMITIVES[key]) return PRIMITIVES[key];
+    return isGenericInstance(key) ? typeOf(definitions[key]) : typeName(key);
+  }
+  if (isBool(schema)) return 'boolean';
+  if (isOption(schema)) return `${typeOf(schema.anyOf[0].fields[0])} | null`;
+  switch (schema.dataType) {
+    case 'integer':
+      return 'bigint';
+    case 'bytes':
+      return 'string';
+    case 'list':
+      if (Array.isArray(schema.items)) return `[${schema.items.map(typeOf).join(', ')}]`;
+      return schema.items ? `Array<${typeOf(schema.items)}>` : 'PlutusData[]';
+    case 'map':
+      return `Map<${schema.keys ? typeOf(schema.keys) : 'PlutusData'}, ${schema.values ? typeOf(schema.values) : 'PlutusData'}>`;
+    case 'constructor':
+      return `{ ${fieldsType(schema.fields ?? [])} }`;
+  }
+  if (schema.anyOf) {
+    if (schema.anyOf.length === 1) return `{ ${fieldsType(schema.anyOf[0].fields ?? [])} }`;
+    if (isEnum(schema)) return schema.anyOf.map(c => `'${c.title}'`).join(' | ');
+    return schema.anyOf
+      .map(c => `{ type: '${c.title}'${(c.fields ?? []).length ? `; ${fieldsType(c.fields)}` : ''} }`)
+      .join(' | ');
+  }
+  return 'PlutusData';
+}
+
+function declaration(key) {
+  const schema = definitions[key];
+  const name = typeName(key);
+  const doc = `/** ${schema.description ?? `Blueprint type \`${key}\``} */`;
+  if (schema.anyOf?.length === 1) {
+    const fields = (schema.anyOf[0].fields ?? [])
+      .map((f, i) => `  ${f.title ?? `_${i}`}: ${typeOf(f)};`)
+      .join('\n');
+    return `${doc}\nexport interface ${name} {\n${fields}\n}`;
+  }
+  if (schema.anyOf && !isEnum(schema)) {
+    const variants = schema.anyOf
+      .map(c => `  | { type: '${c.title}'${(c.fields ?? []).length ? `; ${fieldsType(c.fields)}` : ''} }`)
+      .join('\n');
+    return `${doc}\nexport type ${name} =\n${variants};`;
+  }
+  return `${doc}\nexport type ${name} = ${typeOf(schema)};`;
+}
+
+function codec(key) {
+  const name = typeName(key);
+  const ref = `#/definitions/${key.replace(/\//g, '~1')}`;
+  return [
+    `export const ${camel(name)}ToData = (value: ${name}): PlutusData =>`,
+    `  encodeWithSchema({ $ref: '${ref}' }, value, definitions);`,
+    `export const ${camel(name)}FromData = (data: PlutusData): ${name} =>`,
+    `  decodeWithSchema({ $ref: '${ref}' }, data, definitions) as ${name};`,
+    `export const encode${name} = (value: ${name}): string => plutusDataToCbor(${camel(name)}ToData(value));`,
+    `export const decode${name} = (cbor: string): ${name} => ${camel(name)}FromData(plutusDataFromCbor(cbor));`
+  ].join('\n');
+}
+
+const userKeys = Object.keys(definitions).filter(key => !PRIMITIVES[key] && !isGenericInstance(key));
+
+const source = `// Generated by scripts/generate-blueprint.mjs from escrow-dapp/plutus.json. Do not edit.
+// Run \`npm run blueprint\` after \`aiken build\` to regenerate.
+import type { BlueprintDefinitions, PlutusData } from './plutusData';
+import {
+  decodeWithSchema,
+  encodeWithSchema,
+  plutusDataFromCbor,
+  plutusDataToCbor
+} from './plutusData';
+
+export const BLUEPRINT_COMPILER = '${blueprint.preamble.compiler.name} ${blueprint.preamble.compiler.version}';
+
+export const definitions: BlueprintDefinitions = ${JSON.stringify(definitions, null, 2)};
+
+${userKeys.map(declaration).join('\n\n')}
+
+${userKeys.map(codec).join('\n\n')}
+`;
+
+if (process.argv.includes('--check')) {
+  const current = existsSync(outputPath) ? readFileSync(outputPath, 'utf8') : '';
+  if (current !== source) {
+    console.error('blueprint.generated.ts is out of date with plutus.json. Run `npm run blueprint`.');
+    process.exit(1);
+  }
+  console.log('blueprint.generated.ts is up to date.');
+} else {
+  writeFileSync(outputPath, source);
+  console.log(`Wrote ${outputPath}`);
+}
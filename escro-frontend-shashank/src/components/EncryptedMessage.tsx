@@ -0,0 +1,48 @@
+// An encrypted transaction message, with a prompt for the passphrase that decrypts it
+import { useState } from 'react';
+import { MessageError, decryptMessage } from '../utils/messageMetadata';
+
+export default function EncryptedMessage({ ciphertext }: { ciphertext: string }) {
+  const [passphrase, setPassphrase] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [decrypting, setDecrypting] = useState(false);
+
+  const decrypt = async () => {
+    setDecrypting(true);
+    setError('');
+    try {
+      setMessage(await decryptMessage(ciphertext, passphrase));
+    } catch (error) {
+      setError(error instanceof MessageError ? error.message : 'Could not decrypt this message');
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  if (message !== null) {
+    return <span>🔓 &quot;{message}&quot;</span>;
+  }
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-2">
+      <span>🔒 Encrypted message</span>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && passphrase && decrypt()}
+        placeholder="Passphrase"
+        className="px-2 py-1 text-xs border border-gray-300 rounded"
+      />
+      <button
+        onClick={decrypt}
+        disabled={!passphrase || decrypting}
+        className="text-xs bg-gray-700 hover:bg-gray-800 disabled:bg-gray-300 text-white px-2 py-1 rounded"
+      >
+        {decrypting ? 'Decrypting...' : 'Decrypt'}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,127 @@
+// What a built transaction will do, shown before the wallet is asked to sign it
+import type { Asset } from '@meshsdk/core';
+import type { PreviewInput, TxPreview } from '../utils/txPreview';
+
+const formatAda = (lovelace: bigint | string): string => (Number(lovelace) / 1_000_000).toFixed(6);
+
+const shorten = (text: string, keep: number = 10): string =>
+  text.length > keep * 2 + 3 ? `${text.slice(0, keep)}...${text.slice(-keep)}` : text;
+
+function Amount({ amount }: { amount: Asset[] }) {
+  const lovelace = amount.find(asset => asset.unit === 'lovelace')?.quantity ?? '0';
+  const tokens = amount.filter(asset => asset.unit !== 'lovelace');
+  return (
+    <span>
+      {formatAda(lovelace)} ADA
+      {tokens.map(token => (
+        <span key={token.unit} className="block text-gray-500" title={token.unit}>
+          + {token.quantity} {shorten(token.unit, 6)}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function InputRow({ input }: { input: PreviewInput }) {
+  return (
+    <li className="flex justify-between gap-3">
+      <span className="font-mono text-gray-500" title={`${input.txHash}#${input.outputIndex}`}>
+        {shorten(input.txHash, 6)}#{input.outputIndex}
+        {input.own ? ' (yours)' : input.address ? ` (${shorten(input.address)})` : ''}
+      </span>
+      {input.amount ? <Amount amount={input.amount} /> : <span className="text-gray-400">unknown</span>}
+    </li>
+  );
+}
+
+export default function TxPreviewPanel({
+  preview,
+  onConfirm,
+  onCancel,
+  busy = false,
+  confirmLabel = 'Sign & send'
+}: {
+  preview: TxPreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+  busy?: boolean;
+  confirmLabel?: string;
+}) {
+  const before = preview.balanceBefore.find(asset => asset.unit === 'lovelace')?.quantity ?? '0';
+  const after = preview.balanceAfter.find(asset => asset.unit === 'lovelace')?.quantity ?? '0';
+
+  return (
+    <div className="p-4 rounded-xl border border-gray-200 bg-gray-50 text-xs text-gray-700 space-y-3 text-left">
+      <p className="text-sm font-medium text-gray-800">Review transaction</p>
+
+      <div>
+        <p className="font-medium mb-1">Inputs</p>
+        <ul className="space-y-1">
+          {preview.inputs.map(input => <InputRow key={`${input.txHash}#${input.outputIndex}`} input={input} />)}
+        </ul>
+      </div>
+
+      <div>
+        <p className="font-medium mb-1">Outputs</p>
+        <ul className="space-y-1">
+          {preview.outputs.map((output, index) => (
+            <li key={index} className="flex justify-between gap-3">
+              <span className="font-mono text-gray-500" title={output.address}>
+                {shorten(output.address)}
+                {output.own && <span className="ml-1 text-green-600">(change)</span>}
+                {output.hasDatum && <span className="ml-1 text-blue-600">(datum)</span>}
+                <span className="block font-sans text-gray-400">min UTxO {formatAda(output.minLovelace)} ADA</span>
+              </span>
+              <Amount amount={output.amount} />
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {preview.collateral.length > 0 && (
+        <div>
+          <p className="font-medium mb-1">Collateral (only taken if a script fails)</p>
+          <ul className="space-y-1">
+            {preview.collateral.map(input => <InputRow key={`${input.txHash}#${input.outputIndex}`} input={input} />)}
+          </ul>
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 pt-2 space-y-1">
+        <div className="flex justify-between">
+          <span>Fee ({preview.size} bytes)</span>
+          <span>{formatAda(preview.fee)} ADA</span>
+        </div>
+        {preview.budget && (
+          <div className="flex justify-between">
+            <span>
+              Script budget: {preview.budget.mem.toString()} mem, {preview.budget.steps.toString()} steps
+            </span>
+            <span>{formatAda(preview.budget.fee)} ADA of the fee</span>
+          </div>
+        )}
+        <div className="flex justify-between font-medium">
+          <span>Balance</span>
+          <span>{formatAda(before)} → {formatAda(after)} ADA</span>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onConfirm}
+          disabled={busy}
+          className="flex-1 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white py-2 rounded-lg"
+        >
+          {busy ? 'Waiting for wallet...' : confirmLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={busy}
+          className="flex-1 border border-gray-300 hover:bg-gray-100 text-gray-600 py-2 rounded-lg"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
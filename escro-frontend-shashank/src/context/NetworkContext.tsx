@@ -0,0 +1,87 @@
+// The Cardano network the user has chosen, shared by every page and checked against the connected wallet
+import { ReactNode, createContext, useContext, useEffect, useState } from 'react';
+import { useWallet } from '@meshsdk/react';
+import { getEscrowScriptAddress } from '../utils/escrow';
+import { DEFAULT_NETWORK, NETWORKS, NetworkConfig, isCardanoNetwork } from '../utils/networks';
+import type { CardanoNetwork } from '../utils/providers';
+
+const STORAGE_KEY = 'cardano_network';
+
+export interface NetworkContextValue {
+  network: CardanoNetwork;
+  config: NetworkConfig;
+  escrowAddress: string;
+  setNetwork: (network: CardanoNetwork) => void;
+  walletNetworkId: number | null; // null while no wallet is connected
+  mismatch: boolean; // the wallet is on another network than the one chosen
+}
+
+const NetworkContext = createContext<NetworkContextValue | null>(null);
+
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const { connected, wallet } = useWallet();
+  const [network, setNetworkState] = useState<CardanoNetwork>(DEFAULT_NETWORK);
+  const [walletNetworkId, setWalletNetworkId] = useState<number | null>(null);
+
+  // Restore the last choice after mounting; localStorage does not exist during prerendering
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isCardanoNetwork(stored)) setNetworkState(stored);
+  }, []);
+
+  useEffect(() => {
+    if (!connected) {
+      setWalletNetworkId(null);
+      return;
+    }
+    let cancelled = false;
+    wallet
+      .getNetworkId()
+      .then(networkId => !cancelled && setWalletNetworkId(networkId))
+      .catch(error => console.error('Error reading wallet network:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [connected, wallet]);
+
+  const setNetwork = (next: CardanoNetwork) => {
+    setNetworkState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+  };
+
+  const config = NETWORKS[network];
+  // Wallets only report 0 or 1, so preview and preprod cannot be told apart
+  const mismatch = walletNetworkId !== null && walletNetworkId !== config.networkId;
+
+  return (
+    <NetworkContext.Provider
+      value={{
+        network,
+        config,
+        escrowAddress: getEscrowScriptAddress(config.networkId),
+        setNetwork,
+        walletNetworkId,
+        mismatch
+      }}
+    >
+      {mismatch && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-3 text-center text-sm text-red-700">
+          ⚠️ Your wallet is on {walletNetworkId === 1 ? 'mainnet' : 'a testnet'}, but {config.label} is selected.
+          Switch your wallet&apos;s network, or disconnect and choose the matching network.
+        </div>
+      )}
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+/**
+ * The chosen network and its configuration; only usable below NetworkProvider
+ */
+export function useNetwork(): NetworkContextValue {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error('useNetwork must be used inside a NetworkProvider');
+  }
+  return context;
+}
@@ -2,11 +2,14 @@ import "@/styles/globals.css";
 import "@meshsdk/react/styles.css";
 import type { AppProps } from "next/app";
 import { MeshProvider } from "@meshsdk/react";
+import { NetworkProvider } from "@/context/NetworkContext";
 
 export default function App({ Component, pageProps }: AppProps) {
   return (
     <MeshProvider>
-      <Component {...pageProps} />
+      <NetworkProvider>
+        <Component {...pageProps} />
+      </NetworkProvider>
     </MeshProvider>
   );
 }
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { useWallet } from '@meshsdk/react';
+import Link from 'next/link';
+import {
+  BatchPayment,
+  BatchResult,
+  BatchRowError,
+  packBatchPayments,
+  parseBatchCsv,
+  sendBatchPayments,
+  validateBatchRows
+} from '../utils/batchPayments';
+import { formatADA } from '../utils/escrow';
+import { toTransactionError } from '../utils/txErrors';
+import { getTransactionStore } from '../utils/txStore';
+import { getTransactionTracker } from '../utils/txTracker';
+import { accountKey, getWalletAccount } from '../utils/walletHistory';
+import { useNetwork } from '../context/NetworkContext';
+
+const exampleCsv = (addressPrefix: string) => `address,amount,message,category
+${addressPrefix}1...,12.5,March contribution,Services
+${addressPrefix}1...,4,Design review,Services`;
+
+// Batch send: pay many recipients from a CSV in as few transactions as possible
+export default function Batch() {
+  const { connected, wallet } = useWallet();
+  const { network, config: networkConfig } = useNetwork();
+  const [csv, setCsv] = useState<string>('');
+  const [payments, setPayments] = useState<BatchPayment[]>([]);
+  const [errors, setErrors] = useState<BatchRowError[]>([]);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [sending, setSending] = useState(false);
+
+  const validate = (text: string) => {
+    const { payments, errors } = validateBatchRows(parseBatchCsv(text), network);
+    setPayments(payments);
+    setErrors(errors);
+    setResults([]);
+  };
+
+  const loadFile = async (file: File) => {
+    const text = await file.text();
+    setCsv(text);
+    validate(text);
+  };
+
+  const send = async () => {
+    if (!wallet || payments.length === 0) return;
+
+    const store = getTransactionStore();
+    const account = accountKey(await getWalletAccount(wallet));
+    setSending(true);
+    setResults([]);
+
+    // Rows that failed validation are recorded as failed straight away
+    await store.add(
+      network,
+      account,
+      errors.map(error => {
+        const row = parseBatchCsv(csv).find(r => r.line === error.line);
+        return {
+          amount: row?.amount ?? '0',
+          recipient: row?.address ?? '',
+          message: row?.message || undefined,
+          status: 'failed',
+          errorMessage: error.reason,
+          errorCode: 'invalid-input',
+          category: row?.category || undefined,
+          type: 'batch'
+        };
+      })
+    );
+
+    const settled = new Set<BatchPayment>();
+    const record = (result: BatchResult) => {
+      result.payments.forEach(payment => settled.add(payment));
+      setResults(current => [...current, result]);
+      // Submitted batches stay pending until the tracker settles them
+      if (result.txHash) getTransactionTracker(network).track(result.txHash);
+      store.add(
+        network,
+        account,
+        result.payments.map(payment => ({
+          amount: formatADA(Number(payment.lovelace)),
+          recipient: payment.address,
+          message: payment.message,
+          status: result.txHash ? 'pending' : 'failed',
+          errorMessage: result.error?.message,
+          errorCode: result.error?.code,
+          txHash: result.txHash,
+          category: payment.category,
+          type: 'batch'
+        }))
+      );
+    };
+
+    try {
+      await sendBatchPayments(wallet, payments, record);
+    } catch (error) {
+      console.error('Error sending batch:', error);
+      record({
+        payments: payments.filter(payment => !settled.has(payment)),
+        error: toTransactionError(error, 'build')
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const total = payments.reduce((sum, payment) => sum + payment.lovelace, BigInt(0));
+  const batchCount = payments.length > 0 ? packBatchPayments(payments).length : 0;
+  const resultFor = (payment: BatchPayment) => results.find(result => result.payments.includes(payment));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 rule-book-pattern">
+      <div className="relative z-10 container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                Batch Payments
+              </h1>
+              <p className="text-gray-600">
+                Pay many recipients at once on {networkConfig.label}; each gets its own message on chain
+              </p>
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              ← Back to Send
+            </Link>
+          </div>
+        </div>
+
+        {!connected && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 text-yellow-800">
+            Connect your wallet from the main page to send a batch.
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md border p-6 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm text-gray-600">
+              CSV with address, amount (ADA), message and category
+            </label>
+            <input
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+              className="text-xs"
+            />
+          </div>
+          <textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={exampleCsv(networkConfig.addressPrefix)}
+            rows={8}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm font-mono"
+          />
+          <div className="flex items-center justify-between mt-3">
+            <button
+              onClick={() => validate(csv)}
+              disabled={!csv.trim() || sending}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors text-sm"
+            >
+              Check rows
+            </button>
+            <button
+              onClick={send}
+              disabled={!connected || payments.length === 0 || sending}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+            >
+              {sending
+                ? '⏳ Sending...'
+                : `Send ${payments.length} payment${payments.length === 1 ? '' : 's'} in ${batchCount} transaction${batchCount === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <div className="text-sm font-medium text-red-800 mb-2">
+              {errors.length} row{errors.length === 1 ? '' : 's'} will be skipped
+            </div>
+            {errors.map(error => (
+              <div key={error.line} className="text-xs text-red-700">
+                Line {error.line}: {error.reason}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {payments.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md border overflow-hidden">
+            <div className="px-4 py-3 border-b text-sm text-gray-700">
+              {payments.length} payments · {formatADA(Number(total))} ADA plus fees
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-4 py-2 text-left">Line</th>
+                  <th className="px-4 py-2 text-left">Recipient</th>
+                  <th className="px-4 py-2 text-right">ADA</th>
+                  <th className="px-4 py-2 text-left">Message</th>
+                  <th className="px-4 py-2 text-left">Category</th>
+                  <th className="px-4 py-2 text-left">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {payments.map(payment => {
+                  const result = resultFor(payment);
+                  return (
+                    <tr key={payment.line}>
+                      <td className="px-4 py-2 text-gray-500">{payment.line}</td>
+                      <td className="px-4 py-2 font-mono text-xs">
+                        {payment.address.slice(0, 20)}...{payment.address.slice(-8)}
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatADA(Number(payment.lovelace))}</td>
+                      <td className="px-4 py-2">{payment.message}</td>
+                      <td className="px-4 py-2">{payment.category}</td>
+                      <td className="px-4 py-2 text-xs">
+                        {!result ? (
+                          <span className="text-gray-400">{sending ? 'Waiting' : '—'}</span>
+                        ) : result.txHash ? (
+                          <span className="text-green-700 font-mono">✅ {result.txHash.slice(0, 12)}...</span>
+                        ) : (
+                          <span className="text-red-700">❌ {result.error?.message}</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
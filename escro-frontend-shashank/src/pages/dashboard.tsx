@@ -1,25 +1,186 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useWallet } from '@meshsdk/react';
 import Link from 'next/link';
-import { fetchAddressTransactions, getMockTransactions, isBlockfrostAvailable } from '../utils/blockchain';
+import { TransactionDirection } from '../utils/blockchain';
+import {
+  ESCROW_ACTION_BUILDERS,
+  buildOpenDisputeTx,
+  buildReleaseMilestoneTx,
+  formatADA,
+  formatCountdown,
+  formatTokenQuantity,
+  fromEscrowTokens,
+  hexToString,
+  submitEscrowTransaction
+} from '../utils/escrow';
+import { OpenEscrow, fetchOpenEscrows } from '../utils/escrowIndexer';
+import {
+  ESCROW_ACTION_LABELS,
+  ESCROW_STATE_LABELS,
+  EscrowAction,
+  nextActions,
+  releasableMilestones
+} from '../utils/escrowStateMachine';
+import {
+  AssetInfo,
+  CardanoNetwork,
+  ChainProviderKind,
+  MemoryChainProvider,
+  getChainProvider,
+  getChainProviderKind,
+  seedDemoTransactions
+} from '../utils/providers';
+import { accountKey, fetchWalletTransactions, getWalletAccount } from '../utils/walletHistory';
+import { NETWORKS, explorerTxUrl } from '../utils/networks';
+import { isEncryptedMessage } from '../utils/messageMetadata';
+import EncryptedMessage from '../components/EncryptedMessage';
+import TxPreviewPanel from '../components/TxPreviewPanel';
+import { TxPreview, fetchProtocolParameters, previewTransaction } from '../utils/txPreview';
+import {
+  TRACKED_STATUS_LABELS,
+  TrackedStatus,
+  TrackedTransaction,
+  TRACKING_FAILURE_CODES,
+  getTransactionTracker,
+  isSettled,
+  trackingFailureMessage
+} from '../utils/txTracker';
+import { LocalTransaction, getTransactionStore } from '../utils/txStore';
+import { SendDraft, retryDraft, sendDraftQuery } from '../utils/sendDraft';
+import { BuildError, TX_ERROR_LABELS, TxErrorCode, isCancellation, toTransactionError } from '../utils/txErrors';
+import type { EscrowLink } from '../utils/txMetadata';
+import { getCategoryEmoji } from '../utils/ai';
+import { useNetwork } from '../context/NetworkContext';
 
 interface Transaction {
   id: string;
   timestamp: number;
   amount: string;
+  direction?: TransactionDirection;
+  assets?: Array<{ unit: string; quantity: string }>;
+  counterparties?: string[];
   recipient?: string;
   sender?: string;
   message?: string;
+  encryptedMessage?: string;
+  category?: string;
+  escrow?: EscrowLink;
   status: 'success' | 'failed' | 'pending';
   errorMessage?: string;
+  errorCode?: TxErrorCode;
   txHash?: string;
   hash?: string;
-  network: string;
+  network: CardanoNetwork;
   fees?: string;
   blockHeight?: number;
   confirmations?: number;
+  tracking?: TrackedStatus; // submitted from this browser and still followed by the tracker
+  retry?: SendDraft; // a failed send from the send form, to send again
 }
 
+const trackedTransactionStatus = (entry: TrackedTransaction): Transaction['status'] =>
+  entry.status === 'final' ? 'success' : entry.status === 'failed' ? 'failed' : 'pending';
+
+/**
+ * Chain history plus what this browser knows of the wallet's own sends: the tracker's state
+ * wins for the ones on chain, and local records fill in the ones not on chain yet, or never
+ * to be: failed and cancelled attempts, and transactions still on their way
+ */
+function withLocalTransactions(
+  chain: Transaction[],
+  records: LocalTransaction[],
+  tracked: TrackedTransaction[],
+  network: CardanoNetwork
+): Transaction[] {
+  const trackedByHash = new Map(tracked.map(entry => [entry.txHash, entry]));
+  const recordsByHash = new Map(records.filter(record => record.txHash).map(record => [record.txHash!, record]));
+  const merged = chain.map(tx => {
+    // The chain has the final word on what landed; the record keeps what the metadata may not show
+    const record = recordsByHash.get(tx.id);
+    const withRecord = record
+      ? { ...tx, message: tx.message ?? (tx.encryptedMessage ? undefined : record.message), category: tx.category ?? record.category }
+      : tx;
+    const entry = trackedByHash.get(tx.id);
+    if (!entry || entry.status === 'failed') return withRecord;
+    return {
+      ...withRecord,
+      status: trackedTransactionStatus(entry),
+      tracking: entry.status,
+      confirmations: entry.confirmations ?? tx.confirmations
+    };
+  });
+
+  const onChain = new Set(chain.map(tx => tx.id));
+  const recorded = new Set(records.map(record => record.txHash));
+  const offChain = (txHash?: string) => txHash === undefined || !onChain.has(txHash);
+  records
+    // Landed sends come from the chain; older ones are beyond the fetched page
+    .filter(record => offChain(record.txHash) && record.status !== 'success')
+    .forEach(record => {
+      const entry = record.txHash ? trackedByHash.get(record.txHash) : undefined;
+      if (entry?.status === 'final') return;
+      // The tracker may have seen it fail before the record was updated
+      const settled = entry?.status === 'failed' ? { ...record, status: 'failed' as const } : record;
+      merged.push({
+        id: record.id,
+        timestamp: record.timestamp,
+        amount: record.amount,
+        direction: 'outgoing',
+        recipient: record.recipient,
+        message: record.message,
+        category: record.category,
+        status: entry ? trackedTransactionStatus(entry) : record.status === 'pending' ? 'pending' : 'failed',
+        tracking: entry?.status,
+        errorMessage: entry?.status === 'failed' ? trackingFailureMessage(entry) : record.errorMessage,
+        errorCode: entry?.failure ? TRACKING_FAILURE_CODES[entry.failure] : record.errorCode,
+        txHash: record.txHash,
+        hash: record.txHash,
+        network,
+        blockHeight: entry?.blockHeight,
+        confirmations: entry?.confirmations,
+        retry: retryDraft(settled)
+      });
+    });
+
+  // Submitted from this browser without a record of the send
+  tracked
+    .filter(entry => offChain(entry.txHash) && !recorded.has(entry.txHash) && entry.status !== 'final')
+    .forEach(entry => {
+      merged.push({
+        id: entry.txHash,
+        timestamp: entry.submittedAt,
+        amount: '0',
+        direction: 'outgoing',
+        status: trackedTransactionStatus(entry),
+        tracking: entry.status,
+        errorMessage: entry.status === 'failed' ? trackingFailureMessage(entry) : undefined,
+        errorCode: entry.failure ? TRACKING_FAILURE_CODES[entry.failure] : undefined,
+        txHash: entry.txHash,
+        hash: entry.txHash,
+        network,
+        blockHeight: entry.blockHeight,
+        confirmations: entry.confirmations
+      });
+    });
+  return merged.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Records from before error codes have only their message
+const errorLabel = (tx: Transaction): string => (tx.errorCode ? TX_ERROR_LABELS[tx.errorCode] : 'Other Errors');
+
+const CHAIN_PROVIDER_NAMES: Record<ChainProviderKind, string> = {
+  blockfrost: 'Blockfrost API',
+  koios: 'Koios API',
+  ogmios: 'Ogmios/Kupo',
+  memory: 'In-memory chain'
+};
+
+const DIRECTION_LABELS: Record<TransactionDirection, { label: string; sign: string; color: string }> = {
+  incoming: { label: 'Received', sign: '+', color: 'bg-green-100 text-green-800' },
+  outgoing: { label: 'Sent', sign: '-', color: 'bg-red-100 text-red-800' },
+  self: { label: 'Self', sign: '', color: 'bg-gray-100 text-gray-700' }
+};
+
 interface TransactionCategory {
   title: string;
   transactions: Transaction[];
@@ -37,26 +198,82 @@ interface MessageCategory {
 
 export default function Dashboard() {
   const { connected, wallet } = useWallet();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [chainTransactions, setChainTransactions] = useState<Transaction[]>([]);
+  const [trackedTransactions, setTrackedTransactions] = useState<TrackedTransaction[]>([]);
+  const [localRecords, setLocalRecords] = useState<LocalTransaction[]>([]);
+  const [account, setAccount] = useState<string>(''); // key of the wallet's local records
+  const [recordsVersion, setRecordsVersion] = useState<number>(0); // bumped to reload localRecords
   const [loading, setLoading] = useState(false);
   const [walletAddress, setWalletAddress] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [showMessageModal, setShowMessageModal] = useState(false);
+  const [openEscrows, setOpenEscrows] = useState<OpenEscrow[]>([]);
+  const [escrowActionPending, setEscrowActionPending] = useState<string>('');
+  const [escrowActionStatus, setEscrowActionStatus] = useState<string>('');
+  const [escrowPreview, setEscrowPreview] = useState<{
+    key: string;
+    escrow: OpenEscrow;
+    action: EscrowAction;
+    unsignedTx: string;
+    preview: TxPreview;
+  } | null>(null);
+  const [disputeDraft, setDisputeDraft] = useState<{ key: string; reason: string } | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  const [assetInfo, setAssetInfo] = useState<Record<string, AssetInfo>>({});
+  const { network, config: networkConfig } = useNetwork();
+  const chainProviderKind = getChainProviderKind(network);
+  const transactions = useMemo(
+    () => (connected ? withLocalTransactions(chainTransactions, localRecords, trackedTransactions, network) : []),
+    [connected, chainTransactions, localRecords, trackedTransactions, network]
+  );
+
+  // Keep up with the transactions submitted from this browser as the tracker polls them
+  useEffect(() => {
+    const tracker = getTransactionTracker(network);
+    setTrackedTransactions(tracker.list());
+    return tracker.subscribe(changed => {
+      setTrackedTransactions(tracker.list());
+      if (changed.some(isSettled)) setRecordsVersion(version => version + 1);
+    });
+  }, [network]);
+
+  // Everything this browser recorded for the wallet, including attempts that never reached the chain
+  useEffect(() => {
+    if (!account) {
+      setLocalRecords([]);
+      return;
+    }
+    let current = true;
+    getTransactionStore()
+      .list({ network, account })
+      .then(records => current && setLocalRecords(records));
+    return () => {
+      current = false;
+    };
+  }, [account, network, recordsVersion]);
 
   // Load blockchain transactions when component mounts
   useEffect(() => {
     if (connected && wallet && walletAddress) {
       fetchBlockchainTransactions();
     }
-  }, [connected, wallet, walletAddress]);
+  }, [connected, wallet, walletAddress, network]);
+
+  // Tick the escrow deadline countdowns; actions unlock as deadlines pass
+  useEffect(() => {
+    if (openEscrows.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [openEscrows.length]);
 
   // Get wallet address when connected
   useEffect(() => {
     if (connected && wallet) {
       getWalletAddress();
     } else {
-      setTransactions([]);
+      setChainTransactions([]);
       setWalletAddress('');
+      setAccount('');
       setError('');
     }
   }, [connected, wallet]);
@@ -65,9 +282,8 @@ export default function Dashboard() {
     try {
       if (wallet) {
         const addresses = await wallet.getUsedAddresses();
-        if (addresses.length > 0) {
-          setWalletAddress(addresses[0]);
-        }
+        // A fresh wallet has no used addresses yet; fall back to its change address
+        setWalletAddress(addresses.length > 0 ? addresses[0] : await wallet.getChangeAddress());
       }
     } catch (error) {
       console.error('Error getting wallet address:', error);
@@ -84,47 +300,56 @@ export default function Dashboard() {
     setError('');
 
     try {
-      let blockchainTxs: Transaction[] = [];
-      
-      if (isBlockfrostAvailable()) {
-        // Use real Blockfrost API for Preprod network
-        const fetchedTxs = await fetchAddressTransactions(walletAddress, 'preprod', 1, 50);
-        blockchainTxs = fetchedTxs.map(tx => ({
-          id: tx.hash,
-          timestamp: tx.timestamp,
-          amount: tx.amount,
-          recipient: tx.recipient || 'Unknown',
-          sender: tx.sender,
-          message: tx.message,
-          status: tx.status,
-          txHash: tx.hash,
-          hash: tx.hash,
-          network: 'preprod',
-          fees: tx.fees,
-          blockHeight: tx.blockHeight,
-          confirmations: tx.confirmations
-        }));
-      } else {
-        // Use mock data for development
-        const mockTxs = getMockTransactions(walletAddress);
-        blockchainTxs = mockTxs.map(tx => ({
-          id: tx.hash,
-          timestamp: tx.timestamp,
-          amount: tx.amount,
-          recipient: tx.recipient || 'Unknown',
-          sender: tx.sender,
-          message: tx.message,
-          status: tx.status,
-          txHash: tx.hash,
-          hash: tx.hash,
-          network: 'preprod',
-          fees: tx.fees,
-          blockHeight: tx.blockHeight,
-          confirmations: tx.confirmations
-        }));
+      const provider = getChainProvider(network);
+      if (provider instanceof MemoryChainProvider) {
+        // Offline demo: give the in-memory chain some history for this wallet
+        seedDemoTransactions(provider, walletAddress);
+      }
+
+      // History covers every address behind the wallet's stake key, not just the first one
+      const walletAccount = wallet ? await getWalletAccount(wallet) : { addresses: [walletAddress] };
+      const walletKey = accountKey(walletAccount);
+      setAccount(walletKey);
+      const fetchedTxs = await fetchWalletTransactions(walletAccount, network, 1, 50, provider);
+      // History imported from before records were kept per wallet belongs to whichever wallet spent in it
+      const spent = fetchedTxs.filter(tx => tx.direction === 'outgoing' || tx.direction === 'self').map(tx => tx.hash);
+      if (await getTransactionStore().claim(network, walletKey, spent) > 0) {
+        setRecordsVersion(version => version + 1);
       }
+      const blockchainTxs: Transaction[] = fetchedTxs.map(tx => ({
+        id: tx.hash,
+        timestamp: tx.timestamp,
+        amount: tx.amount,
+        direction: tx.direction,
+        assets: tx.assets,
+        counterparties: tx.counterparties,
+        recipient: tx.recipient || 'Unknown',
+        sender: tx.sender,
+        message: tx.message,
+        encryptedMessage: tx.encryptedMessage,
+        category: tx.category,
+        escrow: tx.escrow,
+        status: tx.status,
+        txHash: tx.hash,
+        hash: tx.hash,
+        network,
+        fees: tx.fees,
+        blockHeight: tx.blockHeight,
+        confirmations: tx.confirmations
+      }));
+
+      setChainTransactions(blockchainTxs);
 
-      setTransactions(blockchainTxs);
+      // Escrows still locked at the script address
+      if (wallet) {
+        const escrows = await fetchOpenEscrows(wallet, network, provider);
+        setOpenEscrows(escrows);
+
+        // Names and decimals of the tokens locked in them
+        const units = Array.from(new Set(escrows.flatMap(escrow => fromEscrowTokens(escrow.datum.tokens).map(token => token.unit))));
+        const infos = await Promise.all(units.map(unit => provider.getAssetInfo(unit).catch(() => undefined)));
+        setAssetInfo(Object.fromEntries(infos.filter((info): info is AssetInfo => !!info).map(info => [info.unit, info])));
+      }
     } catch (error) {
       console.error('Error fetching blockchain transactions:', error);
       setError(`Failed to fetch blockchain data: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -133,15 +358,92 @@ export default function Dashboard() {
     }
   };
 
+  // Build an escrow action offered by the state machine and preview it for signing
+  const handleEscrowAction = async (escrow: OpenEscrow, action: EscrowAction, milestone?: number) => {
+    if (!wallet) return;
+
+    const key = `${escrow.outRef.txHash}#${escrow.outRef.outputIndex}`;
+    if (action === 'OpenDispute' && disputeDraft?.key !== key) {
+      // Ask for the reason first; the arbiter reads it when resolving
+      setDisputeDraft({ key, reason: '' });
+      return;
+    }
+
+    setEscrowActionPending(key);
+    setEscrowActionStatus('');
+    setEscrowPreview(null);
+
+    try {
+      let unsignedTx: string;
+      if (action === 'OpenDispute') {
+        unsignedTx = await buildOpenDisputeTx(wallet, escrow, disputeDraft?.reason ?? '');
+      } else if (action === 'ReleaseMilestone') {
+        unsignedTx = await buildReleaseMilestoneTx(wallet, escrow, milestone ?? -1);
+      } else if (action === 'Resolve') {
+        throw new BuildError('invalid-input', 'Disputes are resolved from the arbiter view');
+      } else {
+        unsignedTx = await ESCROW_ACTION_BUILDERS[action](wallet, escrow);
+      }
+      const preview = await previewTransaction(wallet, unsignedTx, [escrow.utxo], await fetchProtocolParameters(network));
+      setEscrowPreview({ key, escrow, action, unsignedTx, preview });
+    } catch (error) {
+      console.error(`Error performing ${action}:`, error);
+      setEscrowActionStatus(`${ESCROW_ACTION_LABELS[action]} failed: ${toTransactionError(error, 'build').message}`);
+    } finally {
+      setEscrowActionPending('');
+    }
+  };
+
+  // Sign and submit the previewed escrow action
+  const confirmEscrowAction = async () => {
+    if (!wallet || !escrowPreview) return;
+    const { key, escrow, action, unsignedTx } = escrowPreview;
+
+    setEscrowActionPending(key);
+    try {
+      const txHash = await submitEscrowTransaction(wallet, unsignedTx);
+      await getTransactionStore().add(network, account, [{
+        amount: formatADA(Number(escrow.datum.amount)),
+        recipient: escrow.utxo.output.address,
+        message: `Escrow: ${ESCROW_ACTION_LABELS[action]}`,
+        status: 'pending',
+        txHash,
+        type: 'escrow-action'
+      }]);
+      getTransactionTracker(network).track(txHash, unsignedTx);
+      setRecordsVersion(version => version + 1);
+      setEscrowActionStatus(`${ESCROW_ACTION_LABELS[action]} submitted: ${txHash}`);
+      setOpenEscrows(current => current.filter(e => e !== escrow));
+      setDisputeDraft(null);
+    } catch (error) {
+      console.error(`Error performing ${action}:`, error);
+      const txError = toTransactionError(error, 'submit');
+      await getTransactionStore().add(network, account, [{
+        amount: formatADA(Number(escrow.datum.amount)),
+        recipient: escrow.utxo.output.address,
+        message: `Escrow: ${ESCROW_ACTION_LABELS[action]}`,
+        status: isCancellation(txError) ? 'cancelled' : 'failed',
+        errorMessage: txError.message,
+        errorCode: txError.code,
+        type: 'escrow-action'
+      }]);
+      setRecordsVersion(version => version + 1);
+      setEscrowActionStatus(`${ESCROW_ACTION_LABELS[action]} failed: ${txError.message}`);
+    } finally {
+      setEscrowPreview(null);
+      setEscrowActionPending('');
+    }
+  };
+
   // Categorize transactions by status and error types
   const categorizeTransactions = (): TransactionCategory[] => {
     const successful = transactions.filter(tx => tx.status === 'success');
     const pending = transactions.filter(tx => tx.status === 'pending');
     const failed = transactions.filter(tx => tx.status === 'failed');
 
-    // Group failed transactions by error type
+    // Group failed transactions by error code
     const failedByError = failed.reduce((acc, tx) => {
-      const errorType = getErrorCategory(tx.errorMessage || '');
+      const errorType = errorLabel(tx);
       if (!acc[errorType]) {
         acc[errorType] = [];
       }
@@ -264,28 +566,6 @@ export default function Dashboard() {
     return messageCategories.filter(category => category.transactions.length > 0);
   };
 
-  // Categorize error messages
-  const getErrorCategory = (errorMessage: string): string => {
-    const message = errorMessage.toLowerCase();
-    
-    if (message.includes('insufficient') || message.includes('depleted')) {
-      return 'Insufficient Funds';
-    }
-    if (message.includes('declined') || message.includes('cancelled')) {
-      return 'User Cancelled';
-    }
-    if (message.includes('network') || message.includes('connection')) {
-      return 'Network Issues';
-    }
-    if (message.includes('address') || message.includes('invalid')) {
-      return 'Invalid Address';
-    }
-    if (message.includes('timeout')) {
-      return 'Timeout';
-    }
-    return 'Other Errors';
-  };
-
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString() + ' ' + 
            new Date(timestamp).toLocaleTimeString();
@@ -304,7 +584,7 @@ export default function Dashboard() {
         <div className="bg-white rounded-lg shadow-md p-8 border text-center">
           <div className="text-4xl mb-4">⏳</div>
           <div className="text-lg font-medium text-gray-900 mb-2">Loading Blockchain Data</div>
-          <div className="text-gray-600">Fetching transactions from Cardano Preprod network...</div>
+          <div className="text-gray-600">Fetching transactions from {networkConfig.label}...</div>
         </div>
       </div>
     );
@@ -324,15 +604,23 @@ export default function Dashboard() {
                 Transaction Dashboard
               </h1>
               <p className="text-gray-600">
-                View and analyze your Cardano transaction history on Preprod network
+                View and analyze your Cardano transaction history on {networkConfig.label}
               </p>
             </div>
-            <Link 
-              href="/"
-              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              ← Back to Wallet
-            </Link>
+            <div className="flex items-center space-x-3">
+              <Link
+                href="/disputes"
+                className="inline-flex items-center px-4 py-2 bg-white text-gray-700 border rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                ⚖️ Disputes
+              </Link>
+              <Link 
+                href="/"
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                ← Back to Wallet
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -357,7 +645,7 @@ export default function Dashboard() {
             <div>
               <h3 className="font-semibold text-gray-900 mb-1">Blockchain Transaction Data</h3>
               <p className="text-sm text-gray-600">
-                Real-time data from Cardano Preprod (Testnet) network
+                Real-time data from {networkConfig.label}
               </p>
             </div>
             <div className="flex items-center space-x-2">
@@ -389,15 +677,15 @@ export default function Dashboard() {
             </div>
           )}
           
-          {!isBlockfrostAvailable() && (
+          {chainProviderKind === 'memory' && (
             <div className="mt-3 text-xs text-amber-600 bg-amber-50 p-2 rounded border">
-              ⚠️ Using mock data. Add NEXT_PUBLIC_BLOCKFROST_API_KEY to .env.local for real blockchain data.
+              ⚠️ Using the in-memory demo chain. Add NEXT_PUBLIC_BLOCKFROST_API_KEY or set NEXT_PUBLIC_CHAIN_PROVIDER in .env.local for real blockchain data.
             </div>
           )}
           
-          {isBlockfrostAvailable() && (
+          {chainProviderKind !== 'memory' && (
             <div className="mt-3 text-xs text-green-600 bg-green-50 p-2 rounded border">
-              ✅ Blockfrost API configured for Preprod network - Real blockchain data available
+              ✅ {CHAIN_PROVIDER_NAMES[chainProviderKind]} configured for {networkConfig.label} - Real blockchain data available
             </div>
           )}
         </div>
@@ -461,6 +749,178 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Open Escrows */}
+        {openEscrows.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md border overflow-hidden mb-8">
+            <div className="p-4 border-b bg-blue-100 border-blue-300 text-blue-800">
+              <h3 className="font-semibold flex items-center">
+                <span className="mr-2">🔒</span>
+                Open Escrows
+                <span className="ml-2 text-sm font-normal">
+                  ({openEscrows.length})
+                </span>
+              </h3>
+            </div>
+            {escrowActionStatus && (
+              <div className="p-3 text-xs text-gray-700 bg-gray-50 border-b break-all">
+                {escrowActionStatus}
+              </div>
+            )}
+            <div className="divide-y">
+              {openEscrows.map((escrow) => {
+                const key = `${escrow.outRef.txHash}#${escrow.outRef.outputIndex}`;
+                return (
+                  <div key={key} id={`escrow-${hexToString(escrow.datum.transaction_id)}`} className="p-4 hover:bg-gray-50">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-4 mb-2">
+                          <span className="font-medium">
+                            {formatADA(Number(escrow.datum.amount))} ADA
+                            {fromEscrowTokens(escrow.datum.tokens).map(token => {
+                              const info = assetInfo[token.unit];
+                              return (
+                                <span key={token.unit} className="ml-2 text-sm text-gray-600">
+                                  + {formatTokenQuantity(token.quantity, info?.decimals ?? 0)} {info?.ticker ?? info?.name ?? token.unit.slice(0, 16)}
+                                </span>
+                              );
+                            })}
+                          </span>
+                          <span className="text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                            {ESCROW_STATE_LABELS[escrow.state]}
+                          </span>
+                          <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                            You are the {escrow.role}
+                          </span>
+                        </div>
+                        {escrow.datum.message && (
+                          <div className="text-sm text-gray-700 mb-1">
+                            {isEncryptedMessage(hexToString(escrow.datum.message))
+                              ? <EncryptedMessage ciphertext={hexToString(escrow.datum.message)} />
+                              : hexToString(escrow.datum.message)}
+                          </div>
+                        )}
+                        <div className="text-xs text-gray-600 mb-1 space-x-4">
+                          <span>
+                            {now < Number(escrow.datum.refund_deadline)
+                              ? `⏳ Refund deadline in ${formatCountdown(Number(escrow.datum.refund_deadline) - now)}`
+                              : '⌛ Refund deadline passed'}
+                          </span>
+                          {escrow.datum.auto_release_deadline !== null && (
+                            <span>
+                              {now < Number(escrow.datum.auto_release_deadline)
+                                ? `⏳ Auto-release in ${formatCountdown(Number(escrow.datum.auto_release_deadline) - now)}`
+                                : '⌛ Auto-release open'}
+                            </span>
+                          )}
+                        </div>
+                        {escrow.datum.dispute && (
+                          <div className="text-sm text-red-700 mb-1">
+                            ⚖️ Disputed by the {escrow.datum.dispute.opened_by === escrow.datum.sender ? 'sender' : 'receiver'}:{' '}
+                            {hexToString(escrow.datum.dispute.reason)}
+                          </div>
+                        )}
+                        {escrow.datum.milestones.length > 0 && (
+                          <div className="my-2">
+                            <div className="flex items-center space-x-2 mb-1">
+                              <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-green-500"
+                                  style={{
+                                    width: `${(escrow.datum.milestones.filter(m => m.released).length / escrow.datum.milestones.length) * 100}%`
+                                  }}
+                                />
+                              </div>
+                              <span className="text-xs text-gray-600">
+                                {escrow.datum.milestones.filter(m => m.released).length}/{escrow.datum.milestones.length} paid
+                              </span>
+                            </div>
+                            <ul className="space-y-1">
+                              {escrow.datum.milestones.map((milestone, index) => (
+                                <li key={index} className="flex items-center justify-between text-xs">
+                                  <span className={milestone.released ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                                    {milestone.released ? '✅' : '⬜'} {hexToString(milestone.description)} · {formatADA(Number(milestone.amount))} ADA
+                                    {milestone.deadline !== null && !milestone.released && (
+                                      <span className="ml-2 text-gray-500">
+                                        {now < Number(milestone.deadline)
+                                          ? `due in ${formatCountdown(Number(milestone.deadline) - now)}`
+                                          : 'overdue'}
+                                      </span>
+                                    )}
+                                  </span>
+                                  {releasableMilestones(escrow.datum, escrow.role, now).includes(index) && (
+                                    <button
+                                      onClick={() => handleEscrowAction(escrow, 'ReleaseMilestone', index)}
+                                      disabled={escrowActionPending !== ''}
+                                      className="ml-2 px-2 py-0.5 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
+                                    >
+                                      {escrowActionPending === key ? '⏳' : 'Release'}
+                                    </button>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        <div className="text-xs text-gray-500 font-mono">{key}</div>
+                        {disputeDraft?.key === key && (
+                          <div className="mt-2 flex items-start space-x-2">
+                            <textarea
+                              value={disputeDraft.reason}
+                              onChange={(e) => setDisputeDraft({ key, reason: e.target.value })}
+                              placeholder="Explain the problem to the arbiter"
+                              rows={2}
+                              className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                            />
+                            <button
+                              onClick={() => setDisputeDraft(null)}
+                              className="px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-xs"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        )}
+                        {escrowPreview?.key === key && (
+                          <div className="mt-2">
+                            <TxPreviewPanel
+                              preview={escrowPreview.preview}
+                              onConfirm={confirmEscrowAction}
+                              onCancel={() => setEscrowPreview(null)}
+                              busy={escrowActionPending === key}
+                              confirmLabel={`Sign: ${ESCROW_ACTION_LABELS[escrowPreview.action]}`}
+                            />
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-col space-y-2 ml-4">
+                        {nextActions(escrow.datum, escrow.role, now)
+                          .filter(action => action !== 'ReleaseMilestone') // offered per stage above
+                          .map((action) => action === 'Resolve' ? (
+                          <Link
+                            key={action}
+                            href="/disputes"
+                            className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-xs text-center"
+                          >
+                            {ESCROW_ACTION_LABELS[action]}
+                          </Link>
+                        ) : (
+                          <button
+                            key={action}
+                            onClick={() => handleEscrowAction(escrow, action)}
+                            disabled={escrowActionPending !== ''}
+                            className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-xs"
+                          >
+                            {escrowActionPending === key ? '⏳ Working...' : ESCROW_ACTION_LABELS[action]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Transaction Categories */}
         {transactions.length === 0 && !loading ? (
           <div className="bg-white rounded-lg shadow-md p-8 text-center border">
@@ -513,23 +973,46 @@ export default function Dashboard() {
                           <div className="flex-1">
                             <div className="flex items-center space-x-4 mb-2">
                               <span className="font-medium">
-                                {formatAmount(tx.amount)}
+                                {tx.direction && DIRECTION_LABELS[tx.direction].sign}{formatAmount(tx.amount)}
                               </span>
                               <span className="text-sm text-gray-500">
                                 {formatDate(tx.timestamp)}
                               </span>
+                              {tx.direction && (
+                                <span className={`text-xs px-2 py-1 rounded-full ${DIRECTION_LABELS[tx.direction].color}`}>
+                                  {DIRECTION_LABELS[tx.direction].label}
+                                </span>
+                              )}
                               <span className={`text-xs px-2 py-1 rounded-full ${
-                                tx.network === 'preprod' 
+                                NETWORKS[tx.network].isTestnet
                                   ? 'bg-purple-100 text-purple-800' 
                                   : 'bg-blue-100 text-blue-800'
                               }`}>
                                 {tx.network}
                               </span>
-                              {tx.confirmations && (
+                              {tx.tracking && tx.tracking !== 'final' && (
+                                <span className="text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                                  {TRACKED_STATUS_LABELS[tx.tracking]}
+                                </span>
+                              )}
+                              {tx.confirmations !== undefined && (
                                 <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
                                   {tx.confirmations} confirmations
                                 </span>
                               )}
+                              {tx.category && (
+                                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                                  {getCategoryEmoji(tx.category)} {tx.category}
+                                </span>
+                              )}
+                              {tx.escrow && (
+                                <a
+                                  href={`#escrow-${tx.escrow.id}`}
+                                  className="text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 hover:underline"
+                                >
+                                  🔐 Escrow: {tx.escrow.action === 'Create' ? 'Locked' : ESCROW_ACTION_LABELS[tx.escrow.action]}
+                                </a>
+                              )}
                             </div>
                             {tx.recipient && (
                               <div className="text-sm text-gray-600 mb-1">
@@ -541,6 +1024,21 @@ export default function Dashboard() {
                                 From: <span className="font-mono text-xs">{tx.sender}</span>
                               </div>
                             )}
+                            {tx.counterparties && tx.counterparties.length > 1 && (
+                              <div className="text-sm text-gray-600 mb-1">
+                                +{tx.counterparties.length - 1} more {tx.direction === 'incoming' ? 'senders' : 'recipients'}
+                              </div>
+                            )}
+                            {tx.assets && tx.assets.length > 0 && (
+                              <div className="text-sm text-gray-600 mb-1">
+                                Assets:{' '}
+                                {tx.assets.map(asset => (
+                                  <span key={asset.unit} className="font-mono text-xs mr-2">
+                                    {asset.quantity.startsWith('-') ? '' : '+'}{asset.quantity} {asset.unit.slice(0, 12)}…
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                             {tx.fees && (
                               <div className="text-sm text-gray-600 mb-1">
                                 Fees: <span className="font-medium">{parseFloat(tx.fees).toFixed(6)} ADA</span>
@@ -556,18 +1054,28 @@ export default function Dashboard() {
                                 <span className="font-medium">Message:</span> "{tx.message}"
                               </div>
                             )}
+                            {tx.encryptedMessage && (
+                              <div className="text-sm text-gray-700 bg-gray-50 p-2 rounded border-l-4 border-gray-300 mb-2">
+                                <EncryptedMessage ciphertext={tx.encryptedMessage} />
+                              </div>
+                            )}
                             {tx.errorMessage && (
                               <div className="text-sm text-red-600 bg-red-50 p-2 rounded border-l-4 border-red-200">
-                                <span className="font-medium">Error:</span> {tx.errorMessage}
+                                <span className="font-medium">{errorLabel(tx)}:</span> {tx.errorMessage}
                               </div>
                             )}
+                            {tx.retry && (
+                              <Link
+                                href={{ pathname: '/', query: sendDraftQuery(tx.retry) }}
+                                className="inline-block text-sm text-blue-600 hover:underline mt-2"
+                              >
+                                Retry with the same details →
+                              </Link>
+                            )}
                             {(tx.txHash || tx.hash) && (
                               <div className="text-xs text-blue-600 mt-2">
                                 <a 
-                                  href={tx.network === 'preprod' 
-                                    ? `https://preprod.cardanoscan.io/transaction/${tx.txHash || tx.hash}`
-                                    : `https://cardanoscan.io/transaction/${tx.txHash || tx.hash}`
-                                  }
+                                  href={explorerTxUrl(tx.network, (tx.txHash || tx.hash)!)}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="hover:underline inline-flex items-center"
@@ -660,7 +1168,7 @@ export default function Dashboard() {
                                 {(tx.txHash || tx.hash) && (
                                   <div className="text-xs text-blue-600 mt-2">
                                     <a 
-                                      href={`https://preprod.cardanoscan.io/transaction/${tx.txHash || tx.hash}`}
+                                      href={explorerTxUrl(tx.network, (tx.txHash || tx.hash)!)}
                                       target="_blank"
                                       rel="noopener noreferrer"
                                       className="hover:underline inline-flex items-center"
@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet } from '@meshsdk/react';
+import Link from 'next/link';
+import {
+  buildResolveTx,
+  formatADA,
+  formatTokenQuantity,
+  fromEscrowTokens,
+  hexToString,
+  submitEscrowTransaction
+} from '../utils/escrow';
+import { OpenEscrow, fetchOpenEscrows } from '../utils/escrowIndexer';
+import { isEncryptedMessage } from '../utils/messageMetadata';
+import { TxPreview, fetchProtocolParameters, previewTransaction } from '../utils/txPreview';
+import TxPreviewPanel from '../components/TxPreviewPanel';
+import { getTransactionTracker } from '../utils/txTracker';
+import { ESCROW_ACTION_LABELS } from '../utils/escrowStateMachine';
+import { toTransactionError } from '../utils/txErrors';
+import { getTransactionStore } from '../utils/txStore';
+import { accountKey, getWalletAccount } from '../utils/walletHistory';
+import { useNetwork } from '../context/NetworkContext';
+
+// Arbiter view: disputed escrows naming the connected wallet as arbiter
+export default function Disputes() {
+  const { connected, wallet } = useWallet();
+  const { network } = useNetwork();
+  const [disputes, setDisputes] = useState<OpenEscrow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [receiverShares, setReceiverShares] = useState<Record<string, string>>({});
+  const [tokensToReceiver, setTokensToReceiver] = useState<Record<string, boolean>>({});
+  const [pending, setPending] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [resolution, setResolution] = useState<{
+    key: string;
+    escrow: OpenEscrow;
+    unsignedTx: string;
+    preview: TxPreview;
+  } | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    if (!wallet) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const escrows = await fetchOpenEscrows(wallet, network);
+      setDisputes(escrows.filter(escrow => escrow.role === 'arbiter' && escrow.state === 'Disputed'));
+    } catch (error) {
+      console.error('Error loading disputes:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load disputes');
+    } finally {
+      setLoading(false);
+    }
+  }, [wallet, network]);
+
+  useEffect(() => {
+    if (connected && wallet) {
+      loadDisputes();
+    } else {
+      setDisputes([]);
+    }
+  }, [connected, wallet, loadDisputes]);
+
+  // Build the split entered for a dispute and preview it for signing
+  const resolveDispute = async (escrow: OpenEscrow, key: string) => {
+    if (!wallet) return;
+
+    const shareAda = parseFloat(receiverShares[key] ?? '');
+    if (!Number.isFinite(shareAda)) {
+      setStatus('Enter how much ADA the receiver gets');
+      return;
+    }
+
+    setPending(key);
+    setStatus('');
+    setResolution(null);
+    try {
+      const receiverShare = BigInt(Math.round(shareAda * 1_000_000));
+      const unsignedTx = await buildResolveTx(wallet, escrow, receiverShare, tokensToReceiver[key] ?? false);
+      const preview = await previewTransaction(wallet, unsignedTx, [escrow.utxo], await fetchProtocolParameters(network));
+      setResolution({ key, escrow, unsignedTx, preview });
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      setStatus(`Resolution failed: ${toTransactionError(error, 'build').message}`);
+    } finally {
+      setPending('');
+    }
+  };
+
+  // Sign and submit the previewed resolution
+  const confirmResolution = async () => {
+    if (!wallet || !resolution) return;
+    const { key, escrow, unsignedTx } = resolution;
+
+    setPending(key);
+    try {
+      const txHash = await submitEscrowTransaction(wallet, unsignedTx);
+      await getTransactionStore().add(network, accountKey(await getWalletAccount(wallet)), [{
+        amount: formatADA(Number(escrow.datum.amount)),
+        recipient: escrow.utxo.output.address,
+        message: `Escrow: ${ESCROW_ACTION_LABELS.Resolve}`,
+        status: 'pending',
+        txHash,
+        type: 'escrow-action'
+      }]);
+      getTransactionTracker(network).track(txHash, unsignedTx);
+      setStatus(`Resolution submitted: ${txHash}`);
+      setDisputes(current => current.filter(e => e !== escrow));
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      setStatus(`Resolution failed: ${toTransactionError(error, 'submit').message}`);
+    } finally {
+      setResolution(null);
+      setPending('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 rule-book-pattern">
+      <div className="relative z-10 container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                Disputes
+              </h1>
+              <p className="text-gray-600">
+                Escrows where you are the arbiter and a party has asked you to decide
+              </p>
+            </div>
+            <Link
+              href="/dashboard"
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {!connected && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 text-yellow-800">
+            Connect the arbiter wallet from the main page to see its disputes.
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {status && (
+          <div className="bg-gray-50 border rounded-lg p-3 mb-6 text-xs text-gray-700 break-all">
+            {status}
+          </div>
+        )}
+
+        {connected && !loading && disputes.length === 0 && (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center border text-gray-600">
+            No open disputes need your decision.
+          </div>
+        )}
+
+        {loading && (
+          <div className="text-center text-gray-600">⏳ Loading disputes...</div>
+        )}
+
+        <div className="space-y-4">
+          {disputes.map((escrow) => {
+            const key = `${escrow.outRef.txHash}#${escrow.outRef.outputIndex}`;
+            const { datum } = escrow;
+            const dispute = datum.dispute!;
+            const openedBySender = dispute.opened_by === datum.sender;
+            const amountAda = Number(datum.amount) / 1_000_000;
+            const tokens = fromEscrowTokens(datum.tokens);
+            return (
+              <div key={key} className="bg-white rounded-lg shadow-md border p-6">
+                <div className="flex items-center space-x-4 mb-4">
+                  <span className="text-lg font-semibold">{formatADA(Number(datum.amount))} ADA</span>
+                  <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-800">
+                    Opened by the {openedBySender ? 'sender' : 'receiver'}
+                  </span>
+                  <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                    {hexToString(datum.category)}
+                  </span>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4 mb-4">
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <div className="text-xs text-gray-500 mb-1">Sender&apos;s message when locking</div>
+                    <div className="text-sm text-gray-800">
+                      {/* Encrypted for the two parties; the arbiter has to ask them for it */}
+                      {isEncryptedMessage(hexToString(datum.message)) ? '🔒 Encrypted' : hexToString(datum.message) || '—'}
+                    </div>
+                    <div className="text-xs text-gray-400 font-mono mt-2 break-all">{datum.sender}</div>
+                  </div>
+                  <div className="p-3 bg-red-50 rounded-lg">
+                    <div className="text-xs text-gray-500 mb-1">
+                      {openedBySender ? 'Sender' : 'Receiver'}&apos;s reason for the dispute
+                    </div>
+                    <div className="text-sm text-gray-800">{hexToString(dispute.reason)}</div>
+                    <div className="text-xs text-gray-400 font-mono mt-2 break-all">{dispute.opened_by}</div>
+                  </div>
+                </div>
+
+                <div className="text-xs text-gray-600 mb-4 space-x-4">
+                  <span>Sender confirmed: {datum.sender_confirmed ? 'yes' : 'no'}</span>
+                  <span>Receiver confirmed: {datum.receiver_confirmed ? 'yes' : 'no'}</span>
+                </div>
+
+                {tokens.length > 0 && (
+                  <div className="p-3 bg-gray-50 rounded-lg mb-4">
+                    <div className="text-xs text-gray-500 mb-1">Tokens locked with the ADA</div>
+                    {tokens.map(token => (
+                      <div key={token.unit} className="text-xs font-mono text-gray-700 break-all">
+                        {formatTokenQuantity(token.quantity, 0)} × {token.unit}
+                      </div>
+                    ))}
+                    <label className="flex items-center space-x-2 mt-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={tokensToReceiver[key] ?? false}
+                        onChange={(e) => setTokensToReceiver({ ...tokensToReceiver, [key]: e.target.checked })}
+                      />
+                      <span>Tokens go to the receiver (otherwise back to the sender)</span>
+                    </label>
+                  </div>
+                )}
+
+                <div className="flex items-end space-x-3">
+                  <div className="flex-1">
+                    <label className="block text-xs text-gray-600 mb-1">
+                      ADA to the receiver (the sender gets the rest)
+                    </label>
+                    <input
+                      type="number"
+                      value={receiverShares[key] ?? ''}
+                      onChange={(e) => setReceiverShares({ ...receiverShares, [key]: e.target.value })}
+                      min="0"
+                      max={amountAda}
+                      step="0.000001"
+                      placeholder={`0 – ${amountAda}`}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                    />
+                  </div>
+                  <button
+                    onClick={() => resolveDispute(escrow, key)}
+                    disabled={pending !== ''}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+                  >
+                    {pending === key ? '⏳ Working...' : 'Review resolution'}
+                  </button>
+                </div>
+
+                {resolution?.key === key && (
+                  <div className="mt-3">
+                    <TxPreviewPanel
+                      preview={resolution.preview}
+                      onConfirm={confirmResolution}
+                      onCancel={() => setResolution(null)}
+                      busy={pending === key}
+                      confirmLabel="Sign resolution"
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,34 +3,89 @@ import type { NextPage } from "next";
 import { useWallet } from '@meshsdk/react';
 import { CardanoWallet, MeshProvider } from '@meshsdk/react';
 import { Transaction, resolveScriptHash } from '@meshsdk/core';
+import type { Asset, AssetExtended } from '@meshsdk/core';
 import Link from 'next/link';
+import { useRouter } from 'next/router';
 import { 
   EscrowDatum, 
   TRANSACTION_CATEGORIES, 
   formatADA, 
-  adaToLovelace 
+  adaToLovelace,
+  buildEscrowTransaction,
+  escrowOutRef,
+  DEFAULT_REFUND_WINDOW_MS,
+  MilestoneInput,
+  formatTokenQuantity,
+  parseTokenQuantity
 } from '../utils/escrow';
+import { AssetInfo, getChainProvider, mapWithConcurrency } from '../utils/providers';
+import { CARDANO_NETWORKS, NETWORKS, explorerAddressUrl, explorerTxUrl } from '../utils/networks';
+import { addressError, assertValidAddress } from '../utils/address';
+import { buildMessageMetadata, chunkUtf8 } from '../utils/messageMetadata';
+import { TX_METADATA_LABEL, encodeTxMetadata } from '../utils/txMetadata';
+import { useNetwork } from '../context/NetworkContext';
+import { LocalTransaction, NewLocalTransaction, getTransactionStore } from '../utils/txStore';
+import { accountKey, getWalletAccount } from '../utils/walletHistory';
+import { parseSendDraft } from '../utils/sendDraft';
+import { BuildError, isCancellation, toTransactionError, withStage } from '../utils/txErrors';
+import {
+  TxPreview,
+  buildSendAllTx,
+  fetchProtocolParameters,
+  maxSendableLovelace,
+  previewTransaction
+} from '../utils/txPreview';
+import TxPreviewPanel from '../components/TxPreviewPanel';
+import {
+  TRACKED_STATUS_LABELS,
+  TrackedTransaction,
+  getTransactionTracker,
+  isSettled,
+  trackingFailureMessage
+} from '../utils/txTracker';
 import { 
   categorizeTransaction, 
   getCategoryEmoji, 
   getCategoryColor 
 } from '../utils/ai';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A milestone row in the escrow form; amount in ADA, deadline as a datetime-local value
+interface MilestoneDraft {
+  description: string;
+  amount: string;
+  deadline: string;
+}
+
+const toLovelace = (ada: string) => Math.round(parseFloat(ada) * 1_000_000);
+
+// Token images are often IPFS links, which browsers cannot load directly
+const assetImageUrl = (image: string) => image.replace(/^ipfs:\/\/(ipfs\/)?/, 'https://ipfs.io/ipfs/');
+
 const Home: NextPage = () => {
   const { connected, wallet } = useWallet();
-  const [assets, setAssets] = useState<null | any>(null);
+  const router = useRouter();
+  const [assets, setAssets] = useState<null | AssetExtended[]>(null);
+  const [assetInfo, setAssetInfo] = useState<Record<string, AssetInfo>>({});
+  const [tokenAmounts, setTokenAmounts] = useState<Record<string, string>>({}); // unit -> amount in display units
   const [loading, setLoading] = useState<boolean>(false);
   
-  // Network is fixed to preprod
-  const [network, setNetwork] = useState('preprod');
+  const { network, config: networkConfig, escrowAddress, setNetwork } = useNetwork();
   
   // Send money states
   const [recipientAddress, setRecipientAddress] = useState<string>("");
   const [sendAmount, setSendAmount] = useState<string>("");
+  const [sendAll, setSendAll] = useState<boolean>(false); // the amount came from Max: send everything
+  const [maxLoading, setMaxLoading] = useState<boolean>(false);
+  const [pendingTx, setPendingTx] = useState<null | { unsignedTx: string; amount: string; preview: TxPreview }>(null);
   const [sendMessage, setSendMessage] = useState<string>("");
+  const [encryptNote, setEncryptNote] = useState<boolean>(false);
+  const [notePassphrase, setNotePassphrase] = useState<string>("");
   const [sendLoading, setSendLoading] = useState<boolean>(false);
   const [sendStatus, setSendStatus] = useState<string>("");
   const [txHash, setTxHash] = useState<string>("");
+  const [trackedTx, setTrackedTx] = useState<TrackedTransaction | undefined>(undefined); // chain status of txHash
   const [sentMessage, setSentMessage] = useState<string>(""); // Store sent message for success display
   const [balance, setBalance] = useState<string>("0");
   const [balanceError, setBalanceError] = useState<string>("");
@@ -39,8 +94,14 @@ const Home: NextPage = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>("Other");
   const [isAiCategorizing, setIsAiCategorizing] = useState<boolean>(false);
   const [aiSuggestion, setAiSuggestion] = useState<string>("");
-  const [transactionHistory, setTransactionHistory] = useState<any[]>([]);
+  const [transactionHistory, setTransactionHistory] = useState<LocalTransaction[]>([]);
+  const [account, setAccount] = useState<string>(""); // key of the connected wallet's local records
+  const [historyVersion, setHistoryVersion] = useState<number>(0); // bumped to reload the history
   const [showEscrowMode, setShowEscrowMode] = useState<boolean>(false);
+  const [refundAfterDays, setRefundAfterDays] = useState<string>(String(DEFAULT_REFUND_WINDOW_MS / DAY_MS));
+  const [autoReleaseAfterDays, setAutoReleaseAfterDays] = useState<string>("");
+  const [arbiterAddress, setArbiterAddress] = useState<string>("");
+  const [milestones, setMilestones] = useState<MilestoneDraft[]>([]);
 
   async function getAssets() {
     if (wallet) {
@@ -54,6 +115,7 @@ const Home: NextPage = () => {
         const _assets = await wallet.getAssets();
         setAssets(_assets);
         console.log('Assets fetched:', _assets);
+        loadAssetInfo(_assets);
         
         // Get ADA balance with improved error handling
         const _balance = await wallet.getBalance();
@@ -87,39 +149,45 @@ const Home: NextPage = () => {
     }
   }
 
-  // Function to save transaction to localStorage
-  const saveTransaction = (transaction: {
-    amount: string;
-    recipient: string;
-    message?: string;
-    status: 'success' | 'failed' | 'pending';
-    errorMessage?: string;
-    txHash?: string;
-    category?: string;
-    type?: string;
-  }) => {
-    try {
-      const storedTransactions = localStorage.getItem('cardano_transactions');
-      const transactions = storedTransactions ? JSON.parse(storedTransactions) : [];
-      
-      const newTransaction = {
-        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-        timestamp: Date.now(),
-        network,
-        ...transaction
-      };
-      
-      transactions.unshift(newTransaction); // Add to beginning
-      
-      // Keep only last 100 transactions
-      if (transactions.length > 100) {
-        transactions.splice(100);
+  // Look up names, tickers, decimals and images for the wallet's tokens
+  const loadAssetInfo = async (walletAssets: AssetExtended[]) => {
+    const provider = getChainProvider(network);
+    const missing = walletAssets.filter(asset => !assetInfo[asset.unit]);
+    const infos = await mapWithConcurrency(missing, 4, async asset => {
+      try {
+        return await provider.getAssetInfo(asset.unit);
+      } catch (error) {
+        console.warn(`No metadata for ${asset.unit}:`, error);
+        return undefined;
       }
-      
-      localStorage.setItem('cardano_transactions', JSON.stringify(transactions));
-    } catch (error) {
-      console.error('Error saving transaction:', error);
-    }
+    });
+    setAssetInfo(current => {
+      const next = { ...current };
+      infos.forEach(info => {
+        if (info) next[info.unit] = info;
+      });
+      return next;
+    });
+  };
+
+  // The tokens picked to send along with the ADA, as raw quantities
+  const selectedTokens = (): Asset[] =>
+    Object.entries(tokenAmounts)
+      .filter(([, amount]) => amount.trim())
+      .map(([unit, amount]) => {
+        const info = assetInfo[unit];
+        const quantity = parseTokenQuantity(amount, info?.decimals ?? 0);
+        const held = BigInt(assets?.find(asset => asset.unit === unit)?.quantity ?? '0');
+        if (quantity <= BigInt(0) || quantity > held) {
+          throw new BuildError('invalid-input', `You hold ${formatTokenQuantity(held, info?.decimals ?? 0)} ${info?.ticker ?? info?.name ?? unit}`);
+        }
+        return { unit, quantity: quantity.toString() };
+      });
+
+  // Record a send attempt for the connected wallet, then refresh the recent list
+  const saveTransaction = async (transaction: NewLocalTransaction) => {
+    await getTransactionStore().add(network, account, [transaction]);
+    setHistoryVersion(version => version + 1);
   };
 
   // Automatically fetch balance when wallet connects
@@ -127,10 +195,13 @@ const Home: NextPage = () => {
     if (connected && wallet) {
       console.log('Wallet connected, automatically fetching balance...');
       getAssets();
-      loadTransactionHistory();
+      getWalletAccount(wallet)
+        .then(walletAccount => setAccount(accountKey(walletAccount)))
+        .catch(error => console.error('Error reading wallet account:', error));
     } else if (!connected) {
       // Reset states when wallet disconnects
       setAssets(null);
+      setTokenAmounts({});
       setBalance("0");
       setBalanceError("");
       setSendStatus("");
@@ -138,33 +209,77 @@ const Home: NextPage = () => {
       setSentMessage("");
       setRecipientAddress("");
       setSendAmount("");
+      setSendAll(false);
+      setPendingTx(null);
       setSendMessage("");
       setSelectedCategory("Other");
       setAiSuggestion("");
-      setTransactionHistory([]);
+      setAccount("");
     }
   }, [connected, wallet]);
 
-  // Load transaction history from localStorage
-  const loadTransactionHistory = () => {
-    try {
-      const storedTransactions = localStorage.getItem('cardano_transactions');
-      if (storedTransactions) {
-        const transactions = JSON.parse(storedTransactions);
-        setTransactionHistory(transactions.slice(0, 10)); // Show last 10 transactions
-      }
-    } catch (error) {
-      console.error('Error loading transaction history:', error);
+  // The wallet's last 10 transactions on this network
+  useEffect(() => {
+    if (!account) {
+      setTransactionHistory([]);
+      return;
     }
-  };
+    let current = true;
+    getTransactionStore()
+      .list({ network, account, limit: 10 })
+      .then(history => current && setTransactionHistory(history));
+    return () => {
+      current = false;
+    };
+  }, [account, network, historyVersion]);
+
+  // Follow the last submitted transaction; the recent list picks up its status once it settles
+  useEffect(() => {
+    if (!txHash) {
+      setTrackedTx(undefined);
+      return;
+    }
+    const tracker = getTransactionTracker(network);
+    setTrackedTx(tracker.get(txHash));
+    return tracker.subscribe(changed => {
+      setTrackedTx(tracker.get(txHash));
+      if (changed.some(isSettled)) setHistoryVersion(version => version + 1);
+    });
+  }, [txHash, network]);
+
+  // A retry from the dashboard brings the failed send's details; fill them in once, then drop them from the URL
+  useEffect(() => {
+    if (!router.isReady) return;
+    const draft = parseSendDraft(router.query);
+    if (!draft) return;
+    setRecipientAddress(draft.recipient);
+    setSendAmount(draft.amount);
+    setSendAll(false);
+    setSendMessage(draft.message ?? "");
+    if (draft.category && (TRANSACTION_CATEGORIES as readonly string[]).includes(draft.category)) {
+      setSelectedCategory(draft.category);
+    }
+    setShowEscrowMode(draft.escrow ?? false);
+    setSendStatus("");
+    setTxHash("");
+    router.replace('/', undefined, { shallow: true });
+  }, [router]);
+
+  // A reviewed transaction no longer matches the form once any of it changes
+  useEffect(() => {
+    setPendingTx(null);
+  }, [
+    recipientAddress, sendAmount, sendMessage, encryptNote, notePassphrase, tokenAmounts, selectedCategory,
+    showEscrowMode, refundAfterDays, autoReleaseAfterDays, arbiterAddress, milestones, network
+  ]);
 
   // Handle message change with AI categorization
   const handleMessageChange = async (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const message = e.target.value;
     setSendMessage(message);
     
-    // Auto-categorize with AI if message is substantial
-    if (message.trim().length > 3 && !isAiCategorizing) {
+    // Auto-categorize with AI if message is substantial; private notes are not sent to the AI
+    if (message.trim().length > 3 && !isAiCategorizing && !encryptNote) {
       setIsAiCategorizing(true);
       setAiSuggestion("");
       
@@ -177,83 +292,171 @@ const Home: NextPage = () => {
         setIsAiCategorizing(false);
       }
     }
-  };  async function sendAda() {
+  };
+
+  // Label 674 metadata of a direct payment
+  const directTransferMetadata = async (passphrase?: string) => encodeTxMetadata({
+    type: 'direct_transfer',
+    message: await buildMessageMetadata(sendMessage.trim() || 'Payment', passphrase),
+    category: selectedCategory,
+    timestamp: Math.floor(Date.now() / 1000)
+  });
+
+  // Fill in everything the wallet can send after the fee and the min UTxO of tokens it keeps
+  async function fillMaxAmount() {
+    if (!wallet) return;
+    try {
+      setMaxLoading(true);
+      const passphrase = encryptNote && notePassphrase ? notePassphrase : undefined;
+      const recipient = recipientAddress.trim();
+      const lovelace = await maxSendableLovelace(
+        wallet,
+        recipient && !addressError(recipient, network) ? recipient : undefined,
+        selectedTokens(),
+        { label: TX_METADATA_LABEL, value: await directTransferMetadata(passphrase) },
+        await fetchProtocolParameters(network)
+      );
+      setSendAmount(formatADA(Number(lovelace)));
+      setSendAll(true);
+    } catch (error) {
+      console.error('Max amount error:', error);
+      setSendStatus(`Error: ${toTransactionError(error, 'build').message}`);
+    } finally {
+      setMaxLoading(false);
+    }
+  }
+
+  // Build the transaction unsigned and show what it will do before the wallet signs it
+  async function reviewSend() {
     if (!wallet || !recipientAddress || !sendAmount) return;
     
     try {
       setSendLoading(true);
       setSendStatus("Validating transaction...");
       setTxHash("");
+      setPendingTx(null);
 
       // Validate address format (network-specific check)
-      const addressPrefix = network === 'preprod' ? 'addr_test1' : 'addr1';
-      if (!recipientAddress.startsWith(addressPrefix)) {
-        throw new Error(`Invalid ${network} address format. Address must start with "${addressPrefix}"`);
-      }
+      assertValidAddress(recipientAddress, network);
 
       // Validate amount
       const sendAmountNum = parseFloat(sendAmount);
       if (sendAmountNum <= 0) {
-        throw new Error('Amount must be greater than 0');
-      }
-
-      // Check balance before proceeding
-      setSendStatus("Checking balance...");
-      const walletBalance = await wallet.getBalance();
-      const adaBalance = walletBalance.find(asset => asset.unit === 'lovelace');
-      
-      if (!adaBalance) {
-        throw new Error('Unable to retrieve wallet balance');
+        throw new BuildError('invalid-input', 'Amount must be greater than 0');
       }
 
-      const balanceInAda = parseInt(adaBalance.quantity) / 1_000_000;
-      const minRequired = sendAmountNum + 2; // Add 2 ADA buffer for fees
-      
-      if (balanceInAda < minRequired) {
-        throw new Error(`Insufficient balance. You have ${balanceInAda.toFixed(6)} ADA, but need at least ${minRequired.toFixed(6)} ADA (including ~2 ADA for fees)`);
+      if (encryptNote && !notePassphrase) {
+        throw new BuildError('invalid-input', 'Enter the passphrase to encrypt the message with');
       }
+      const passphrase = encryptNote ? notePassphrase : undefined;
 
-      setSendStatus("Creating categorized transaction...");
+      setSendStatus("Building transaction...");
       
       // Convert ADA to Lovelace (1 ADA = 1,000,000 Lovelace)
-      const amountInLovelace = (sendAmountNum * 1_000_000).toString();
+      const amountInLovelace = toLovelace(sendAmount).toString();
+      const tokens = selectedTokens();
+      const params = await fetchProtocolParameters(network);
 
-      setSendStatus("Building transaction...");
-      
-      // Build transaction with enhanced metadata
-      const tx = new Transaction({ initiator: wallet });
-      tx.sendLovelace(recipientAddress, amountInLovelace);
-      
-      // Add enhanced metadata with categorization
-      const metadata = {
-        "674": {
-          "msg": [sendMessage.trim() || 'Payment'],
-          "category": selectedCategory,
-          "timestamp": Math.floor(Date.now() / 1000),
-          "type": showEscrowMode ? "escrow" : "direct_transfer"
+      let unsignedTx: string;
+      let amount = sendAmount;
+
+      if (showEscrowMode) {
+        // Lock the funds at the escrow validator instead of paying the recipient
+        const refundDays = parseFloat(refundAfterDays);
+        if (!(refundDays > 0)) {
+          throw new BuildError('invalid-input', 'Refund window must be greater than 0 days');
+        }
+        const autoReleaseDays = autoReleaseAfterDays.trim() ? parseFloat(autoReleaseAfterDays) : undefined;
+        if (autoReleaseDays !== undefined && !(autoReleaseDays > 0)) {
+          throw new BuildError('invalid-input', 'Auto-release window must be greater than 0 days');
         }
-      };
-      tx.setMetadata(674, metadata[674]);
-      console.log('Adding categorized metadata to transaction:', metadata);
 
-      const unsignedTx = await tx.build();
-      
+        const stages: MilestoneInput[] = milestones.map(milestone => ({
+          description: milestone.description,
+          amount: toLovelace(milestone.amount),
+          deadline: milestone.deadline ? new Date(milestone.deadline).getTime() : undefined
+        }));
+        const stagesTotal = stages.reduce((sum, stage) => sum + stage.amount, 0);
+        if (stages.length > 0 && stagesTotal !== toLovelace(sendAmount)) {
+          throw new BuildError('invalid-input', `Milestones add up to ${formatADA(stagesTotal)} ADA but the amount is ${sendAmountNum} ADA`);
+        }
+
+        const lockedAt = Date.now();
+        ({ unsignedTx } = await buildEscrowTransaction(
+          wallet,
+          recipientAddress,
+          stages.length > 0 ? stagesTotal : parseInt(amountInLovelace),
+          sendMessage.trim() || 'Payment',
+          selectedCategory,
+          {
+            refundDeadline: lockedAt + refundDays * DAY_MS,
+            autoReleaseDeadline: autoReleaseDays === undefined ? undefined : lockedAt + autoReleaseDays * DAY_MS
+          },
+          arbiterAddress.trim() || undefined,
+          stages,
+          tokens,
+          passphrase
+        ));
+      } else {
+        // Build transaction with enhanced metadata
+        const metadata = await directTransferMetadata(passphrase);
+        console.log('Adding categorized metadata to transaction:', metadata);
+
+        if (sendAll) {
+          // Rebuilt with the final metadata, so the amount may differ from Max by a few lovelace
+          const sendAllTx = await buildSendAllTx(wallet, recipientAddress, tokens, { label: TX_METADATA_LABEL, value: metadata }, params);
+          unsignedTx = sendAllTx.unsignedTx;
+          amount = formatADA(Number(sendAllTx.lovelace));
+        } else {
+          const tx = new Transaction({ initiator: wallet });
+          tx.sendAssets(recipientAddress, [{ unit: 'lovelace', quantity: amountInLovelace }, ...tokens]);
+          tx.setMetadata(TX_METADATA_LABEL, metadata);
+          unsignedTx = await tx.build();
+        }
+      }
+
+      setPendingTx({
+        unsignedTx,
+        amount,
+        preview: await previewTransaction(wallet, unsignedTx, [], params)
+      });
+      setSendStatus("");
+    } catch (error) {
+      console.error('Build transaction error:', error);
+      setSendStatus(`Error: ${toTransactionError(error, 'build').message}`);
+    } finally {
+      setSendLoading(false);
+    }
+  }
+
+  // Sign and submit the reviewed transaction
+  async function confirmSend() {
+    if (!wallet || !pendingTx) return;
+    const { unsignedTx, amount } = pendingTx;
+
+    try {
+      setSendLoading(true);
       setSendStatus("Waiting for signature...");
-      const signedTx = await wallet.signTx(unsignedTx);
+      const signedTx = await withStage('sign', () => wallet.signTx(unsignedTx));
       
       setSendStatus("Submitting transaction...");
-      const txHash = await wallet.submitTx(signedTx);
+      const txHash = await withStage('submit', () => wallet.submitTx(signedTx));
+      getTransactionTracker(network).track(txHash, signedTx);
+      if (showEscrowMode) {
+        console.log('Escrow locked at output:', escrowOutRef(txHash));
+      }
       
+      setPendingTx(null);
       setTxHash(txHash);
       setSentMessage(sendMessage);
       setSendStatus("success");
       
-      // Save successful transaction with category
+      // Recorded as pending; the tracker settles it once it is final or has failed
       saveTransaction({
-        amount: sendAmount,
+        amount,
         recipient: recipientAddress,
         message: sendMessage || undefined,
-        status: 'success',
+        status: 'pending',
         txHash: txHash,
         category: selectedCategory,
         type: showEscrowMode ? 'escrow' : 'direct'
@@ -262,46 +465,39 @@ const Home: NextPage = () => {
       // Refresh balance after successful transaction
       setTimeout(() => {
         getAssets();
-        loadTransactionHistory();
       }, 3000);
       
       // Reset form after success
       setTimeout(() => {
         setRecipientAddress("");
         setSendAmount("");
+        setSendAll(false);
         setSendMessage("");
+        setEncryptNote(false);
+        setNotePassphrase("");
+        setTokenAmounts({});
         setSelectedCategory("Other");
         setAiSuggestion("");
       }, 5000);
       
     } catch (error) {
       console.error('Send ADA error:', error);
-      setSendStatus("error");
-      
-      // Provide more specific error messages
-      let errorMessage = 'Transaction failed';
+      setPendingTx(null);
+      const txError = toTransactionError(error, 'submit');
+      const cancelled = isCancellation(txError);
       
-      if (error instanceof Error) {
-        if (error.message.includes('UTxO Fully Depleted')) {
-          errorMessage = 'Insufficient funds. Please ensure you have enough ADA to cover the transaction amount plus network fees (~2 ADA).';
-        } else if (error.message.includes('insufficient funds')) {
-          errorMessage = 'Insufficient funds in your wallet.';
-        } else if (error.message.includes('User declined')) {
-          errorMessage = 'Transaction was cancelled by user.';
-        } else {
-          errorMessage = error.message;
-        }
-      }
-      
-      // Save failed transaction to localStorage
+      // Keep the attempt; it never reaches the chain, so this record is all the history has of it
       saveTransaction({
-        amount: sendAmount,
+        amount,
         recipient: recipientAddress,
         message: sendMessage || undefined,
-        status: 'failed',
-        errorMessage: errorMessage,
-        category: selectedCategory
+        status: cancelled ? 'cancelled' : 'failed',
+        errorMessage: txError.message,
+        errorCode: txError.code,
+        category: selectedCategory,
+        type: showEscrowMode ? 'escrow' : 'direct'
       });
+      setSendStatus(`Error: ${txError.message}`);
       
     } finally {
       setSendLoading(false);
@@ -329,7 +525,13 @@ const Home: NextPage = () => {
                 A minimal interface for your Cardano wallet connection
               </p>
             </div>
-            <div className="flex items-center">
+            <div className="flex items-center space-x-3">
+              <Link
+                href="/batch"
+                className="inline-flex items-center px-4 py-2 bg-white/80 backdrop-blur-sm text-gray-700 rounded-lg hover:bg-white/90 transition-all duration-300 border border-gray-200/50 shadow-sm"
+              >
+                📋 Batch Send
+              </Link>
               <Link 
                 href="/dashboard"
                 className="inline-flex items-center px-4 py-2 bg-white/80 backdrop-blur-sm text-gray-700 rounded-lg hover:bg-white/90 transition-all duration-300 border border-gray-200/50 shadow-sm"
@@ -349,22 +551,29 @@ const Home: NextPage = () => {
             <div className="flex items-center space-x-6">
               <span className="text-sm font-light text-gray-600">Network:</span>
               <div className="flex space-x-2">
-                <button
-                  onClick={() => setNetwork('preprod')}
-                  disabled={connected}
-                  className={`px-4 py-2 rounded-xl text-sm font-light transition-all duration-300 ${
-                    network === 'preprod'
-                      ? 'bg-blue-100 text-blue-700 border border-blue-200'
-                      : connected
-                      ? 'bg-gray-50 text-gray-400 border border-gray-200 cursor-not-allowed opacity-50'
-                      : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
-                  }`}
-                >
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-2 h-2 rounded-full ${network === 'preprod' ? 'bg-blue-500' : 'bg-gray-400'}`}></div>
-                    <span>Preprod (Testnet)</span>
-                  </div>
-                </button>
+                {CARDANO_NETWORKS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setNetwork(option)}
+                    disabled={connected}
+                    className={`px-4 py-2 rounded-xl text-sm font-light transition-all duration-300 ${
+                      network === option
+                        ? NETWORKS[option].isTestnet
+                          ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                          : 'bg-red-100 text-red-700 border border-red-200'
+                        : connected
+                        ? 'bg-gray-50 text-gray-400 border border-gray-200 cursor-not-allowed opacity-50'
+                        : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <div className={`w-2 h-2 rounded-full ${
+                        network !== option ? 'bg-gray-400' : NETWORKS[option].isTestnet ? 'bg-blue-500' : 'bg-red-500'
+                      }`}></div>
+                      <span>{NETWORKS[option].label}</span>
+                    </div>
+                  </button>
+                ))}
               </div>
             </div>
             
@@ -377,12 +586,12 @@ const Home: NextPage = () => {
               </div>
             )}
             
-            {!connected && network === 'preprod' && (
+            {!connected && networkConfig.faucetUrl && (
               <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-xl">
                 <p className="text-xs text-blue-700 font-light text-center">
-                  🧪 You're on Preprod testnet. Get free test ADA from the{' '}
+                  🧪 You're on {networkConfig.label}. Get free test ADA from the{' '}
                   <a 
-                    href="https://docs.cardano.org/cardano-testnet/tools/faucet" 
+                    href={networkConfig.faucetUrl} 
                     target="_blank" 
                     rel="noopener noreferrer"
                     className="underline hover:no-underline"
@@ -393,7 +602,7 @@ const Home: NextPage = () => {
               </div>
             )}
             
-            {!connected && network === 'mainnet' && (
+            {!connected && !networkConfig.isTestnet && (
               <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-xl">
                 <p className="text-xs text-red-700 font-light text-center">
                   ⚠️ You're on Mainnet. Real ADA will be used for transactions!
@@ -427,8 +636,8 @@ const Home: NextPage = () => {
                       <span>Wallet Connected</span>
                     </div>
                     <div>
-                      Network: <span className={`font-medium ${network === 'preprod' ? 'text-blue-600' : 'text-red-600'}`}>
-                        {network === 'preprod' ? 'Preprod Testnet' : 'Cardano Mainnet'}
+                      Network: <span className={`font-medium ${networkConfig.isTestnet ? 'text-blue-600' : 'text-red-600'}`}>
+                        {networkConfig.label}
                       </span>
                     </div>
                     {loading && (
@@ -439,8 +648,8 @@ const Home: NextPage = () => {
                   </div>
                 ) : (
                   <div>
-                    Ready to connect to: <span className={`font-medium ${network === 'preprod' ? 'text-blue-600' : 'text-red-600'}`}>
-                      {network === 'preprod' ? 'Preprod Testnet' : 'Cardano Mainnet'}
+                    Ready to connect to: <span className={`font-medium ${networkConfig.isTestnet ? 'text-blue-600' : 'text-red-600'}`}>
+                      {networkConfig.label}
                     </span>
                   </div>
                 )}
@@ -467,7 +676,7 @@ const Home: NextPage = () => {
                       <div>
                         <p className="text-sm font-medium text-orange-800">Check Network</p>
                         <p className="text-xs text-orange-700 mt-1">
-                          You're currently on <strong>{network === 'preprod' ? 'Preprod Testnet' : 'Mainnet'}</strong>. 
+                          You're currently on <strong>{networkConfig.label}</strong>. 
                           Make sure this matches where you have ADA.
                         </p>
                       </div>
@@ -492,8 +701,8 @@ const Home: NextPage = () => {
                       <div>
                         <p className="text-sm font-medium text-orange-800">Get ADA</p>
                         <p className="text-xs text-orange-700 mt-1">
-                          {network === 'preprod' ? (
-                            <>Get free test ADA from the <a href="https://docs.cardano.org/cardano-testnet/tools/faucet" target="_blank" rel="noopener noreferrer" className="underline">Cardano Faucet</a></>
+                          {networkConfig.faucetUrl ? (
+                            <>Get free test ADA from the <a href={networkConfig.faucetUrl} target="_blank" rel="noopener noreferrer" className="underline">Cardano Faucet</a></>
                           ) : (
                             'Purchase ADA from an exchange and send it to your wallet address'
                           )}
@@ -562,11 +771,11 @@ const Home: NextPage = () => {
                           <div className="mt-2 p-2 bg-orange-50 border border-orange-200 rounded-lg">
                             <p className="text-xs text-orange-700 font-light">
                               ⚠️ Zero balance detected. Make sure you're on the correct network where you have ADA.
-                              {network === 'preprod' && (
+                              {networkConfig.faucetUrl && (
                                 <span className="block mt-1">
                                   For testnet ADA, visit the{' '}
                                   <a 
-                                    href="https://docs.cardano.org/cardano-testnet/tools/faucet" 
+                                    href={networkConfig.faucetUrl} 
                                     target="_blank" 
                                     rel="noopener noreferrer"
                                     className="underline hover:no-underline"
@@ -580,7 +789,7 @@ const Home: NextPage = () => {
                         )}
                         {parseFloat(balance) > 0 && (
                           <p className="text-xs text-gray-500 mt-1">
-                            ~2 ADA will be reserved for network fees
+                            The exact network fee is shown when you review a transaction
                           </p>
                         )}
                       </div>
@@ -592,20 +801,17 @@ const Home: NextPage = () => {
                   {/* Recipient Address Input */}
                   <div>
                     <label className="block text-sm font-light text-gray-600 mb-2">
-                      Recipient Address ({network === 'preprod' ? 'Testnet' : 'Mainnet'})
+                      Recipient Address ({networkConfig.label})
                     </label>
                     <input
                       type="text"
                       value={recipientAddress}
                       onChange={(e) => setRecipientAddress(e.target.value)}
-                      placeholder={network === 'preprod' ? 'addr_test1...' : 'addr1...'}
+                      placeholder={`${networkConfig.addressPrefix}1...`}
                       className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-gray-300 focus:border-transparent transition-all duration-300 bg-white/80 text-gray-700 font-light"
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      {network === 'preprod' 
-                        ? 'Use testnet addresses starting with "addr_test1"' 
-                        : 'Use mainnet addresses starting with "addr1"'
-                      }
+                      Use {networkConfig.isTestnet ? 'testnet' : 'mainnet'} addresses starting with &quot;{networkConfig.addressPrefix}1&quot;
                     </p>
                   </div>
 
@@ -618,18 +824,38 @@ const Home: NextPage = () => {
                       value={sendMessage}
                       onChange={handleMessageChange}
                       placeholder="Add a note or message to this transaction..."
-                      maxLength={64}
                       className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-gray-300 focus:border-transparent transition-all duration-300 bg-white/80 text-gray-700 font-light resize-none"
                       rows={3}
                     />
                     <div className="flex justify-between items-center mt-1">
                       <p className="text-xs text-gray-500">
-                        Message will be stored permanently on the blockchain
+                        {encryptNote
+                          ? 'Message will be stored encrypted; only those with the passphrase can read it'
+                          : 'Message will be stored permanently and publicly on the blockchain'}
                       </p>
                       <p className="text-xs text-gray-400">
-                        {sendMessage.length}/64
+                        {/* Stored in 64-byte metadata strings */}
+                        {sendMessage.trim() ? chunkUtf8(sendMessage.trim()).length : 0} line(s)
                       </p>
                     </div>
+                    <label className="flex items-center space-x-2 mt-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={encryptNote}
+                        onChange={(e) => setEncryptNote(e.target.checked)}
+                      />
+                      <span>🔒 Encrypt with a passphrase shared with the recipient</span>
+                    </label>
+                    {encryptNote && (
+                      <input
+                        type="password"
+                        value={notePassphrase}
+                        onChange={(e) => setNotePassphrase(e.target.value)}
+                        placeholder="Shared passphrase"
+                        autoComplete="new-password"
+                        className="w-full mt-2 px-4 py-2 border border-gray-200 rounded-xl focus:ring-2 focus:ring-gray-300 focus:border-transparent transition-all duration-300 bg-white/80 text-gray-700 font-light"
+                      />
+                    )}
                   </div>
 
                   {/* Category Selection with AI Suggestions */}
@@ -682,7 +908,17 @@ const Home: NextPage = () => {
                       <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-200 rounded-lg">
                         <div>
                           <span className="text-sm font-medium text-gray-700">Escrow Mode</span>
-                          <p className="text-xs text-gray-500">Enhanced transaction with metadata</p>
+                          <p className="text-xs text-gray-500">Lock funds in the escrow contract until both parties confirm</p>
+                          {showEscrowMode && (
+                            <a
+                              href={explorerAddressUrl(network, escrowAddress)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-600 hover:text-blue-800 underline font-mono"
+                            >
+                              {escrowAddress.slice(0, 20)}...{escrowAddress.slice(-8)}
+                            </a>
+                          )}
                         </div>
                         <button
                           onClick={() => setShowEscrowMode(!showEscrowMode)}
@@ -697,6 +933,109 @@ const Home: NextPage = () => {
                           />
                         </button>
                       </div>
+
+                      {/* Escrow Deadlines */}
+                      {showEscrowMode && (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-xs text-gray-600 mb-1">Refundable after (days)</label>
+                            <input
+                              type="number"
+                              value={refundAfterDays}
+                              onChange={(e) => setRefundAfterDays(e.target.value)}
+                              min="0"
+                              step="0.5"
+                              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">You can reclaim the funds if the recipient has not confirmed</p>
+                          </div>
+                          <div>
+                            <label className="block text-xs text-gray-600 mb-1">Auto-release after (days)</label>
+                            <input
+                              type="number"
+                              value={autoReleaseAfterDays}
+                              onChange={(e) => setAutoReleaseAfterDays(e.target.value)}
+                              min="0"
+                              step="0.5"
+                              placeholder="Never"
+                              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">The recipient can claim once confirmed, without your approval</p>
+                          </div>
+                          <div className="col-span-2">
+                            <label className="block text-xs text-gray-600 mb-1">Arbiter address (optional)</label>
+                            <input
+                              type="text"
+                              value={arbiterAddress}
+                              onChange={(e) => setArbiterAddress(e.target.value)}
+                              placeholder="addr_test1..."
+                              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 font-mono"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">A third party who can split the funds if you and the recipient disagree</p>
+                          </div>
+
+                          {/* Milestone Editor */}
+                          <div className="col-span-2">
+                            <div className="flex items-center justify-between mb-1">
+                              <label className="block text-xs text-gray-600">Milestones (optional)</label>
+                              <button
+                                type="button"
+                                onClick={() => setMilestones([...milestones, { description: '', amount: '', deadline: '' }])}
+                                className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-2 py-1 rounded-lg"
+                              >
+                                + Add milestone
+                              </button>
+                            </div>
+                            {milestones.map((milestone, index) => {
+                              const update = (change: Partial<MilestoneDraft>) =>
+                                setMilestones(milestones.map((m, i) => (i === index ? { ...m, ...change } : m)));
+                              return (
+                                <div key={index} className="flex items-center space-x-2 mb-2">
+                                  <span className="text-xs text-gray-500 w-4">{index + 1}.</span>
+                                  <input
+                                    type="text"
+                                    value={milestone.description}
+                                    onChange={(e) => update({ description: e.target.value })}
+                                    placeholder="Deliverable"
+                                    className="flex-1 px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700"
+                                  />
+                                  <input
+                                    type="number"
+                                    value={milestone.amount}
+                                    onChange={(e) => update({ amount: e.target.value })}
+                                    placeholder="ADA"
+                                    min="1"
+                                    step="0.000001"
+                                    className="w-24 px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700"
+                                  />
+                                  <input
+                                    type="datetime-local"
+                                    value={milestone.deadline}
+                                    onChange={(e) => update({ deadline: e.target.value })}
+                                    title="Optional: the recipient can release this stage once it passes"
+                                    className="px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700"
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={() => setMilestones(milestones.filter((_, i) => i !== index))}
+                                    className="text-xs text-gray-400 hover:text-red-600"
+                                  >
+                                    ✕
+                                  </button>
+                                </div>
+                              );
+                            })}
+                            {milestones.length > 0 ? (
+                              <p className="text-xs text-gray-500 mt-1">
+                                Stages total {formatADA(milestones.reduce((sum, m) => sum + (toLovelace(m.amount) || 0), 0))} ADA
+                                and must match the amount below. You release each stage as it is delivered.
+                              </p>
+                            ) : (
+                              <p className="text-xs text-gray-500 mt-1">Split the payment into stages released one at a time</p>
+                            )}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -709,48 +1048,114 @@ const Home: NextPage = () => {
                       <input
                         type="number"
                         value={sendAmount}
-                        onChange={(e) => setSendAmount(e.target.value)}
+                        onChange={(e) => {
+                          setSendAmount(e.target.value);
+                          setSendAll(false);
+                        }}
                         placeholder="0.00"
                         step="0.000001"
                         min="1"
-                        max={Math.max(0, parseFloat(balance) - 2).toString()}
                         className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-gray-300 focus:border-transparent transition-all duration-300 bg-white/80 text-gray-700 font-light"
                       />
                       <button
                         type="button"
-                        onClick={() => setSendAmount(Math.max(0, parseFloat(balance) - 2).toFixed(6))}
-                        disabled={parseFloat(balance) <= 2}
+                        onClick={fillMaxAmount}
+                        disabled={showEscrowMode || maxLoading || parseFloat(balance) <= 0}
                         className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-2 py-1 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         Max
                       </button>
                     </div>
                     <p className="text-xs text-gray-500 mt-1">
-                      Maximum sendable: {Math.max(0, parseFloat(balance) - 2).toFixed(6)} ADA
+                      {sendAll
+                        ? 'Sending everything: the exact amount is what is left after the fee and the min UTxO of tokens you keep'
+                        : showEscrowMode
+                        ? 'The fee comes on top of the locked amount'
+                        : 'Max computes everything the wallet can send after the fee'}
                     </p>
                   </div>
 
-                  {/* Send Button */}
-                  <button
-                    onClick={sendAda}
-                    disabled={sendLoading || !recipientAddress || !sendAmount}
-                    className={`
-                      w-full font-light py-4 px-8 rounded-xl transition-all duration-300 border
-                      ${sendLoading || !recipientAddress || !sendAmount
-                        ? 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed' 
-                        : 'bg-gradient-to-r from-gray-800 to-gray-900 hover:from-gray-700 hover:to-gray-800 text-white border-gray-800 hover:border-gray-700'
-                      }
-                    `}
-                  >
-                    {sendLoading ? (
-                      <div className="flex items-center justify-center">
-                        <div className="w-4 h-4 border-2 border-gray-300 border-t-transparent rounded-full animate-spin mr-3"></div>
-                        Sending...
+                  {/* Native Token Picker */}
+                  {assets && assets.some(asset => asset.unit !== 'lovelace') && (
+                    <div>
+                      <label className="block text-sm font-light text-gray-600 mb-2">
+                        Tokens (optional)
+                      </label>
+                      <div className="space-y-2 max-h-64 overflow-y-auto">
+                        {assets.filter(asset => asset.unit !== 'lovelace').map((asset) => {
+                          const info = assetInfo[asset.unit];
+                          const decimals = info?.decimals ?? 0;
+                          return (
+                            <div key={asset.unit} className="flex items-center space-x-3 p-2 border border-gray-200 rounded-lg bg-white/80">
+                              {info?.image ? (
+                                // Token images come from arbitrary hosts, which next/image would need configured
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={assetImageUrl(info.image)} alt="" className="w-8 h-8 rounded object-cover" />
+                              ) : (
+                                <div className="w-8 h-8 rounded bg-gray-100 flex items-center justify-center text-xs text-gray-400">🪙</div>
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <div className="text-sm text-gray-700 truncate">
+                                  {info?.name ?? asset.fingerprint}
+                                  {info?.ticker && <span className="text-gray-400"> ({info.ticker})</span>}
+                                </div>
+                                <div className="text-xs text-gray-400">
+                                  Balance {formatTokenQuantity(asset.quantity, decimals)}
+                                </div>
+                              </div>
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={tokenAmounts[asset.unit] ?? ''}
+                                onChange={(e) => setTokenAmounts({ ...tokenAmounts, [asset.unit]: e.target.value })}
+                                placeholder="0"
+                                className="w-28 px-2 py-1 border border-gray-200 rounded text-sm text-right"
+                              />
+                            </div>
+                          );
+                        })}
                       </div>
-                    ) : (
-                      'Send ADA'
-                    )}
-                  </button>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {showEscrowMode
+                          ? 'Picked tokens are locked in the escrow with the ADA; the ADA must cover their min UTxO'
+                          : 'Picked tokens are sent along with the ADA'}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Review Button */}
+                  {!pendingTx && (
+                    <button
+                      onClick={reviewSend}
+                      disabled={sendLoading || !recipientAddress || !sendAmount}
+                      className={`
+                        w-full font-light py-4 px-8 rounded-xl transition-all duration-300 border
+                        ${sendLoading || !recipientAddress || !sendAmount
+                          ? 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed' 
+                          : 'bg-gradient-to-r from-gray-800 to-gray-900 hover:from-gray-700 hover:to-gray-800 text-white border-gray-800 hover:border-gray-700'
+                        }
+                      `}
+                    >
+                      {sendLoading ? (
+                        <div className="flex items-center justify-center">
+                          <div className="w-4 h-4 border-2 border-gray-300 border-t-transparent rounded-full animate-spin mr-3"></div>
+                          Building...
+                        </div>
+                      ) : (
+                        'Review transaction'
+                      )}
+                    </button>
+                  )}
+
+                  {/* Transaction Preview */}
+                  {pendingTx && (
+                    <TxPreviewPanel
+                      preview={pendingTx.preview}
+                      onConfirm={confirmSend}
+                      onCancel={() => setPendingTx(null)}
+                      busy={sendLoading}
+                    />
+                  )}
 
                   {/* Transaction Status */}
                   {sendStatus && (
@@ -763,7 +1168,15 @@ const Home: NextPage = () => {
                     }`}>
                       {sendStatus === 'success' ? (
                         <div>
-                          <p className="font-medium">Transaction Successful!</p>
+                          <p className="font-medium">Transaction Submitted!</p>
+                          {trackedTx && (
+                            <p className="text-sm mt-1">
+                              {trackedTx.status === 'failed'
+                                ? `❌ ${trackingFailureMessage(trackedTx)}`
+                                : `${trackedTx.status === 'final' ? '✅' : '⏳'} ${TRACKED_STATUS_LABELS[trackedTx.status]}`}
+                              {trackedTx.confirmations !== undefined && trackedTx.status !== 'failed' && ` · ${trackedTx.confirmations} confirmations`}
+                            </p>
+                          )}
                           {sentMessage && (
                             <div className="text-sm mt-2 p-2 bg-gray-50 rounded-lg border">
                               <span className="font-medium">Message:</span>
@@ -777,15 +1190,12 @@ const Home: NextPage = () => {
                               <span className="font-mono break-all text-blue-600">{txHash}</span>
                               <br />
                               <a 
-                                href={network === 'preprod' 
-                                  ? `https://preprod.cardanoscan.io/transaction/${txHash}`
-                                  : `https://cardanoscan.io/transaction/${txHash}`
-                                }
+                                href={explorerTxUrl(network, txHash)}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="inline-flex items-center text-blue-600 hover:text-blue-800 underline text-xs mt-1"
                               >
-                                View on {network === 'preprod' ? 'Preprod' : 'Mainnet'} Explorer
+                                View on {networkConfig.label} Explorer
                                 <svg className="w-3 h-3 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                                 </svg>
@@ -815,7 +1225,8 @@ const Home: NextPage = () => {
                         <div className="flex items-center space-x-3">
                           <div className={`w-3 h-3 rounded-full ${
                             tx.status === 'success' ? 'bg-green-500' : 
-                            tx.status === 'failed' ? 'bg-red-500' : 'bg-yellow-500'
+                            tx.status === 'failed' ? 'bg-red-500' :
+                            tx.status === 'cancelled' ? 'bg-gray-400' : 'bg-yellow-500'
                           }`}></div>
                           <div>
                             <div className="flex items-center space-x-2">
@@ -825,7 +1236,7 @@ const Home: NextPage = () => {
                                   {getCategoryEmoji(tx.category)} {tx.category}
                                 </span>
                               )}
-                              {tx.type === 'escrow' && (
+                              {(tx.type === 'escrow' || tx.type === 'escrow-action') && (
                                 <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
                                   Escrow
                                 </span>
@@ -845,10 +1256,7 @@ const Home: NextPage = () => {
                           </p>
                           {tx.txHash && (
                             <a 
-                              href={network === 'preprod' 
-                                ? `https://preprod.cardanoscan.io/transaction/${tx.txHash}`
-                                : `https://cardanoscan.io/transaction/${tx.txHash}`
-                              }
+                              href={explorerTxUrl(network, tx.txHash)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-xs text-blue-600 hover:text-blue-800 underline"
@@ -0,0 +1,84 @@
+import { Transaction } from '@meshsdk/core';
+import type { MeshWallet } from '@meshsdk/core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { LedgerEmulator, LedgerRejectionError } from '../emulator';
+
+const lovelaceAt = async (emulator: LedgerEmulator, address: string): Promise<bigint> =>
+  (await emulator.getAddressUtxos(address))
+    .flatMap(utxo => utxo.output.amount)
+    .filter(asset => asset.unit === 'lovelace')
+    .reduce((total, asset) => total + BigInt(asset.quantity), BigInt(0));
+
+describe('LedgerEmulator', () => {
+  let emulator: LedgerEmulator;
+  let sender: MeshWallet;
+  let receiver: MeshWallet;
+  let receiverAddress: string;
+
+  beforeEach(async () => {
+    emulator = new LedgerEmulator('preprod');
+    [sender, receiver] = await Promise.all([emulator.createWallet(), emulator.createWallet()]);
+    receiverAddress = await receiver.getChangeAddress();
+  });
+
+  const payment = (lovelace: number) => new Transaction({ initiator: sender }).sendLovelace(receiverAddress, lovelace.toString());
+
+  // Submitting through the emulator directly, so the ledger's own error reaches the test
+  const signAndSubmit = async (unsignedTx: string, wallet: MeshWallet = sender) =>
+    emulator.submitTx(await wallet.signTx(unsignedTx));
+
+  const rejection = async (submission: Promise<unknown>): Promise<LedgerRejectionError> => {
+    const error = await submission.then(() => undefined, (reason: unknown) => reason);
+    expect(error).toBeInstanceOf(LedgerRejectionError);
+    return error as LedgerRejectionError;
+  };
+
+  it('applies a payment in a new block', async () => {
+    const before = await lovelaceAt(emulator, receiverAddress);
+    const { height } = await emulator.getTip();
+
+    const txHash = await signAndSubmit(await payment(2_000_000).build());
+
+    expect(await lovelaceAt(emulator, receiverAddress)).toBe(before + BigInt(2_000_000));
+    expect((await emulator.getTip()).height).toBe(height + 1);
+    expect((await emulator.getTransaction(txHash)).hash).toBe(txHash);
+  });
+
+  it('rejects spending the same inputs twice', async () => {
+    const signedTx = await sender.signTx(await payment(2_000_000).build());
+    await emulator.submitTx(signedTx);
+
+    expect((await rejection(emulator.submitTx(signedTx))).rule).toBe('BadInputsUTxO');
+  });
+
+  it('rejects a transaction past its validity interval', async () => {
+    const { slot } = await emulator.getTip();
+    const unsignedTx = await payment(2_000_000).setTimeToExpire((slot + 10).toString()).build();
+    emulator.advanceSlots(10);
+
+    const error = await rejection(signAndSubmit(unsignedTx));
+    expect(error.rule).toBe('OutsideValidityIntervalUTxO');
+  });
+
+  it('rejects a transaction before its validity interval opens', async () => {
+    const { slot } = await emulator.getTip();
+    const unsignedTx = await payment(2_000_000).setTimeToStart((slot + 10).toString()).build();
+
+    expect((await rejection(signAndSubmit(unsignedTx))).rule).toBe('OutsideValidityIntervalUTxO');
+
+    emulator.advanceSlots(10);
+    await expect(signAndSubmit(unsignedTx)).resolves.toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('rejects a transaction missing a required signature', async () => {
+    const unsignedTx = await payment(2_000_000).setRequiredSigners([receiverAddress]).build();
+
+    expect((await rejection(signAndSubmit(unsignedTx))).rule).toBe('MissingVKeyWitnessesUTXOW');
+  });
+
+  it('rejects a transaction signed by a wallet that does not own the inputs', async () => {
+    const unsignedTx = await payment(2_000_000).build();
+
+    expect((await rejection(signAndSubmit(unsignedTx, receiver))).rule).toBe('MissingVKeyWitnessesUTXOW');
+  });
+});
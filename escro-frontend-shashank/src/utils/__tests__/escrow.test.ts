@@ -0,0 +1,371 @@
+import { Transaction, deserializeAddress } from '@meshsdk/core';
+import type { MeshWallet } from '@meshsdk/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LedgerEmulator, LedgerRejectionError } from '../emulator';
+import {
+  EscrowDatum,
+  EscrowDeadlines,
+  EscrowRedeemer,
+  EscrowUtxo,
+  buildConfirmReceiverTx,
+  buildConfirmSenderTx,
+  buildOpenDisputeTx,
+  buildRefundTx,
+  buildReleaseMilestoneTx,
+  buildReleaseTx,
+  buildResolveTx,
+  createEscrowTransaction,
+  escrowDatumToData,
+  escrowRedeemerToData,
+  getEscrowScriptAddress,
+  getEscrowValidator,
+  getPaymentKeyHash,
+  stringToHex,
+  submitEscrowTransaction
+} from '../escrow';
+import { fetchEscrowUtxos } from '../escrowIndexer';
+import { EscrowTransitionError } from '../escrowStateMachine';
+import { SubmitError } from '../txErrors';
+
+const LOCKED = 10_000_000;
+const REFUND_WINDOW_MS = 60_000;
+
+describe('escrow flows on the ledger emulator', () => {
+  let emulator: LedgerEmulator;
+  let sender: MeshWallet;
+  let receiver: MeshWallet;
+  let senderAddress: string;
+  let receiverAddress: string;
+
+  beforeEach(async () => {
+    // The builders log the errors they rethrow
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    emulator = new LedgerEmulator('preprod');
+    [sender, receiver] = await Promise.all([emulator.createWallet(), emulator.createWallet()]);
+    [senderAddress, receiverAddress] = await Promise.all([sender.getChangeAddress(), receiver.getChangeAddress()]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const lock = async (deadlines: EscrowDeadlines = { refundDeadline: Date.now() + REFUND_WINDOW_MS }) => {
+    await createEscrowTransaction(sender, receiverAddress, LOCKED, 'For the bike', 'Shopping', deadlines);
+    return currentEscrow();
+  };
+
+  const currentEscrow = async (): Promise<EscrowUtxo> => {
+    const escrows = await fetchEscrowUtxos('preprod', emulator);
+    expect(escrows).toHaveLength(1);
+    return escrows[0];
+  };
+
+  // Lovelace a transaction paid to an address's payment key, which is where
+  // builders run by a third party send a party's payout
+  const paidTo = async (txHash: string, address: string): Promise<bigint> =>
+    (await emulator.getTransactionUtxos(txHash)).outputs
+      .filter(output => deserializeAddress(output.address).pubKeyHash === getPaymentKeyHash(address))
+      .flatMap(output => output.amount)
+      .filter(asset => asset.unit === 'lovelace')
+      .reduce((total, asset) => total + BigInt(asset.quantity), BigInt(0));
+
+  const rejection = async (submission: Promise<unknown>): Promise<LedgerRejectionError> => {
+    const error = await submission.then(() => undefined, (reason: unknown) => reason);
+    expect(error).toBeInstanceOf(LedgerRejectionError);
+    return error as LedgerRejectionError;
+  };
+
+  const submitError = async (submission: Promise<unknown>): Promise<SubmitError> => {
+    const error = await submission.then(() => undefined, (reason: unknown) => reason);
+    expect(error).toBeInstanceOf(SubmitError);
+    return error as SubmitError;
+  };
+
+  const escrowDatum = (overrides: Partial<EscrowDatum> = {}): EscrowDatum => ({
+    sender: getPaymentKeyHash(senderAddress),
+    receiver: getPaymentKeyHash(receiverAddress),
+    amount: BigInt(LOCKED),
+    message: '',
+    category: '',
+    transaction_id: '',
+    timestamp: BigInt(Math.floor(Date.now() / 1000)),
+    sender_confirmed: false,
+    receiver_confirmed: false,
+    refund_deadline: BigInt(Date.now() + REFUND_WINDOW_MS),
+    auto_release_deadline: null,
+    arbiter: null,
+    dispute: null,
+    milestones: [],
+    tokens: new Map(),
+    ...overrides
+  });
+
+  // Lock an escrow in any state with a hand-built transaction, as anyone could
+  const lockDatum = async (datum: EscrowDatum): Promise<EscrowUtxo> => {
+    const tx = new Transaction({ initiator: sender }).sendAssets(
+      { address: getEscrowScriptAddress(0), datum: { value: escrowDatumToData(datum), inline: true } },
+      [{ unit: 'lovelace', quantity: datum.amount.toString() }]
+    );
+    const txHash = await emulator.submitTx(await sender.signTx(await tx.build()));
+    const escrows = await fetchEscrowUtxos('preprod', emulator);
+    return escrows.find(escrow => escrow.utxo.input.txHash === txHash)!;
+  };
+
+  // Spend escrows in a hand-built transaction, so only the validator stands in the way
+  const spendDirectly = async (
+    wallet: MeshWallet,
+    escrows: EscrowUtxo[],
+    redeemer: EscrowRedeemer,
+    complete: (tx: Transaction) => void
+  ): Promise<string> => {
+    const tx = new Transaction({ initiator: wallet });
+    for (const escrow of escrows) {
+      tx.redeemValue({
+        value: escrow.utxo,
+        script: getEscrowValidator(),
+        redeemer: { data: escrowRedeemerToData(redeemer) }
+      });
+    }
+    tx.setCollateral(await wallet.getCollateral());
+    complete(tx);
+    return emulator.submitTx(await wallet.signTx(await tx.build()));
+  };
+
+  it('locks the funds at the script with the datum inline', async () => {
+    const escrow = await lock();
+
+    expect(escrow.utxo.output.address).toBe(getEscrowScriptAddress(0));
+    expect(escrow.utxo.output.amount).toEqual([{ unit: 'lovelace', quantity: LOCKED.toString() }]);
+    expect(escrow.datum.amount).toBe(BigInt(LOCKED));
+    expect(escrow.datum.sender_confirmed).toBe(false);
+    expect(escrow.datum.receiver_confirmed).toBe(false);
+  });
+
+  it('creates, confirms and releases to the receiver', async () => {
+    let escrow = await lock();
+
+    await submitEscrowTransaction(sender, await buildConfirmSenderTx(sender, escrow));
+    escrow = await currentEscrow();
+    expect(escrow.datum.sender_confirmed).toBe(true);
+    expect(escrow.utxo.output.amount).toEqual([{ unit: 'lovelace', quantity: LOCKED.toString() }]);
+
+    await submitEscrowTransaction(receiver, await buildConfirmReceiverTx(receiver, escrow));
+    escrow = await currentEscrow();
+    expect(escrow.datum.receiver_confirmed).toBe(true);
+
+    const txHash = await submitEscrowTransaction(receiver, await buildReleaseTx(receiver, escrow));
+    expect(await paidTo(txHash, receiverAddress)).toBeGreaterThanOrEqual(BigInt(LOCKED));
+    expect(await fetchEscrowUtxos('preprod', emulator)).toEqual([]);
+  });
+
+  it('refunds an unconfirmed escrow to the sender', async () => {
+    const escrow = await lock();
+
+    const txHash = await submitEscrowTransaction(sender, await buildRefundTx(sender, escrow));
+
+    expect(await paidTo(txHash, senderAddress)).toBeGreaterThanOrEqual(BigInt(LOCKED));
+    expect(await fetchEscrowUtxos('preprod', emulator)).toEqual([]);
+  });
+
+  it('refunds a sender-confirmed escrow only from the refund deadline', async () => {
+    await submitEscrowTransaction(sender, await buildConfirmSenderTx(sender, await lock()));
+    const escrow = await currentEscrow();
+    const deadline = Number(escrow.datum.refund_deadline);
+
+    // Built as if the deadline had passed, so only the ledger's validity interval stops it
+    const refund = await buildRefundTx(sender, escrow, deadline);
+    expect((await submitError(submitEscrowTransaction(sender, refund))).code).toBe('outside-validity');
+
+    emulator.advanceSlots(REFUND_WINDOW_MS / 1000 + 1);
+    await submitEscrowTransaction(sender, refund);
+    expect(await fetchEscrowUtxos('preprod', emulator)).toEqual([]);
+  });
+
+  it('rejects a receiver confirmation submitted after the refund deadline', async () => {
+    const escrow = await lock();
+    const confirmation = await buildConfirmReceiverTx(receiver, escrow);
+
+    emulator.advanceSlots(REFUND_WINDOW_MS / 1000 + 1);
+
+    expect((await submitError(submitEscrowTransaction(receiver, confirmation))).code).toBe('outside-validity');
+    expect((await currentEscrow()).datum.receiver_confirmed).toBe(false);
+  });
+
+  it('lets the arbiter split a disputed escrow', async () => {
+    const arbiter = await emulator.createWallet();
+    const deadlines = { refundDeadline: Date.now() + REFUND_WINDOW_MS };
+    await createEscrowTransaction(sender, receiverAddress, LOCKED, 'For the bike', 'Shopping', deadlines, await arbiter.getChangeAddress());
+    let escrow = await currentEscrow();
+
+    await submitEscrowTransaction(receiver, await buildOpenDisputeTx(receiver, escrow, 'Never arrived'));
+    escrow = await currentEscrow();
+    expect(escrow.datum.dispute).toEqual({ opened_by: escrow.datum.receiver, reason: stringToHex('Never arrived') });
+
+    const txHash = await submitEscrowTransaction(arbiter, await buildResolveTx(arbiter, escrow, BigInt(4_000_000)));
+    expect(await paidTo(txHash, receiverAddress)).toBe(BigInt(4_000_000));
+    expect(await paidTo(txHash, senderAddress)).toBe(BigInt(LOCKED - 4_000_000));
+    expect(await fetchEscrowUtxos('preprod', emulator)).toEqual([]);
+  });
+
+  it('pays a milestone escrow out stage by stage', async () => {
+    const deadlines = { refundDeadline: Date.now() + REFUND_WINDOW_MS };
+    const stages = [
+      { description: 'Frame', amount: 4_000_000 },
+      { description: 'Wheels', amount: 6_000_000 }
+    ];
+    await createEscrowTransaction(sender, receiverAddress, LOCKED, 'For the bike', 'Shopping', deadlines, undefined, stages);
+
+    let txHash = await submitEscrowTransaction(sender, await buildReleaseMilestoneTx(sender, await currentEscrow(), 0));
+    expect(await paidTo(txHash, receiverAddress)).toBe(BigInt(4_000_000));
+    const escrow = await currentEscrow();
+    expect(escrow.datum.amount).toBe(BigInt(6_000_000));
+    expect(escrow.datum.milestones.map(milestone => milestone.released)).toEqual([true, false]);
+
+    txHash = await submitEscrowTransaction(sender, await buildReleaseMilestoneTx(sender, escrow, 1));
+    expect(await paidTo(txHash, receiverAddress)).toBe(BigInt(6_000_000));
+    expect(await fetchEscrowUtxos('preprod', emulator)).toEqual([]);
+  });
+
+  it('rejects a confirmation without the party\'s signature', async () => {
+    const escrow = await lock();
+    const confirmation = await buildConfirmSenderTx(sender, escrow);
+
+    expect((await submitError(submitEscrowTransaction(receiver, confirmation))).code).toBe('missing-signature');
+    expect((await currentEscrow()).datum.sender_confirmed).toBe(false);
+  });
+
+  it('refuses to build actions the state machine does not allow', async () => {
+    const escrow = await lock();
+
+    await expect(buildConfirmSenderTx(receiver, escrow)).rejects.toThrow(EscrowTransitionError);
+    await expect(buildRefundTx(receiver, escrow)).rejects.toThrow(EscrowTransitionError);
+    await expect(buildReleaseTx(receiver, escrow)).rejects.toThrow(EscrowTransitionError);
+  });
+
+  describe('validator', () => {
+    it('rejects a release before both parties confirm', async () => {
+      const escrow = await lock();
+
+      const release = spendDirectly(receiver, [escrow], { type: 'Release' }, tx => {
+        tx.sendAssets(receiverAddress, escrow.utxo.output.amount);
+      });
+
+      expect((await rejection(release)).rule).toBe('ScriptFailure');
+      expect(await currentEscrow()).toEqual(escrow);
+    });
+
+    it('rejects a refund after the receiver confirmed', async () => {
+      await submitEscrowTransaction(receiver, await buildConfirmReceiverTx(receiver, await lock()));
+      const escrow = await currentEscrow();
+
+      const refund = spendDirectly(sender, [escrow], { type: 'Refund' }, tx => {
+        tx.setRequiredSigners([senderAddress]);
+        tx.sendAssets(senderAddress, escrow.utxo.output.amount);
+      });
+
+      expect((await rejection(refund)).rule).toBe('ScriptFailure');
+      expect(await currentEscrow()).toEqual(escrow);
+    });
+
+    it('rejects a receiver confirmation that stays valid past the refund deadline', async () => {
+      const escrow = await lock();
+
+      // No upper validity bound, so it could land after the sender may reclaim the funds
+      const confirmation = spendDirectly(receiver, [escrow], { type: 'ConfirmReceiver' }, tx => {
+        tx.setRequiredSigners([receiverAddress]);
+        tx.sendAssets(
+          {
+            address: getEscrowScriptAddress(0),
+            datum: { value: escrowDatumToData({ ...escrow.datum, receiver_confirmed: true }), inline: true }
+          },
+          escrow.utxo.output.amount
+        );
+      });
+
+      expect((await rejection(confirmation)).rule).toBe('ScriptFailure');
+      expect(await currentEscrow()).toEqual(escrow);
+    });
+
+    it('rejects a confirmation whose re-lock keeps back part of the escrow', async () => {
+      const escrow = await lockDatum(escrowDatum());
+      const confirmed = escrowDatum({ ...escrow.datum, sender_confirmed: true });
+
+      // The flag is set as expected, but only half the funds go back to the script
+      const confirmation = spendDirectly(sender, [escrow], { type: 'ConfirmSender' }, tx => {
+        tx.setRequiredSigners([senderAddress]);
+        tx.sendAssets(
+          { address: getEscrowScriptAddress(0), datum: { value: escrowDatumToData(confirmed), inline: true } },
+          [{ unit: 'lovelace', quantity: (LOCKED / 2).toString() }]
+        );
+      });
+
+      expect((await rejection(confirmation)).rule).toBe('ScriptFailure');
+      expect(await currentEscrow()).toEqual(escrow);
+    });
+
+    it('rejects a release that pays someone other than the receiver', async () => {
+      const escrow = await lockDatum(escrowDatum({ sender_confirmed: true, receiver_confirmed: true }));
+
+      const release = spendDirectly(sender, [escrow], { type: 'Release' }, tx => {
+        tx.sendAssets(senderAddress, escrow.utxo.output.amount);
+      });
+
+      expect((await rejection(release)).rule).toBe('ScriptFailure');
+      expect(await currentEscrow()).toEqual(escrow);
+    });
+
+    it('rejects a resolution the arbiter did not sign', async () => {
+      const arbiter = await emulator.createWallet();
+      const escrow = await lockDatum(escrowDatum({
+        arbiter: getPaymentKeyHash(await arbiter.getChangeAddress()),
+        dispute: { opened_by: getPaymentKeyHash(senderAddress), reason: '' }
+      }));
+
+      // The sender settles the dispute in their own favour
+      const resolution = spendDirectly(sender, [escrow], { type: 'Resolve', receiver_share: BigInt(0), tokens_to_receiver: false }, tx => {
+        tx.setRequiredSigners([senderAddress]);
+        tx.sendAssets(senderAddress, escrow.utxo.output.amount);
+      });
+
+      expect((await rejection(resolution)).rule).toBe('ScriptFailure');
+      expect(await currentEscrow()).toEqual(escrow);
+    });
+
+    it('rejects releasing two escrows against one payout', async () => {
+      const datum = escrowDatum({ sender_confirmed: true, receiver_confirmed: true });
+      const escrows = [await lockDatum(datum), await lockDatum(datum)];
+      const thief = await emulator.createWallet();
+
+      // Each escrow sees the one payment to the receiver; the thief keeps the other escrow's funds
+      const release = spendDirectly(thief, escrows, { type: 'Release' }, tx => {
+        tx.sendAssets(receiverAddress, escrows[0].utxo.output.amount);
+      });
+
+      expect((await rejection(release)).rule).toBe('ScriptFailure');
+      expect(await fetchEscrowUtxos('preprod', emulator)).toHaveLength(2);
+    });
+
+    it('rejects releasing a milestone of two escrows against one payout and one re-lock', async () => {
+      const stage = (amount: number) => ({ description: '', amount: BigInt(amount), deadline: null, released: false });
+      const datum = escrowDatum({ milestones: [stage(4_000_000), stage(6_000_000)] });
+      const escrows = [await lockDatum(datum), await lockDatum(datum)];
+      const remainder = escrowDatum({
+        amount: BigInt(6_000_000),
+        milestones: [{ ...stage(4_000_000), released: true }, stage(6_000_000)]
+      });
+
+      // The sender pays the stage and re-locks the rest once, and keeps the second escrow
+      const release = spendDirectly(sender, escrows, { type: 'ReleaseMilestone', index: BigInt(0) }, tx => {
+        tx.setRequiredSigners([senderAddress]);
+        tx.sendLovelace(receiverAddress, '4000000');
+        tx.sendAssets(
+          { address: getEscrowScriptAddress(0), datum: { value: escrowDatumToData(remainder), inline: true } },
+          [{ unit: 'lovelace', quantity: '6000000' }]
+        );
+      });
+
+      expect((await rejection(release)).rule).toBe('ScriptFailure');
+      expect(await fetchEscrowUtxos('preprod', emulator)).toHaveLength(2);
+    });
+  });
+});
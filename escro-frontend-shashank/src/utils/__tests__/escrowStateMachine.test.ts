@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { EscrowDatum } from '../blueprint.generated';
+import {
+  EscrowTransitionError,
+  applyEscrowAction,
+  assertCanPerform,
+  canPerform,
+  deriveEscrowState,
+  nextActions,
+  releasableMilestones,
+  resolveEscrowRole,
+  transition
+} from '../escrowStateMachine';
+
+const SENDER = 'aa'.repeat(28);
+const RECEIVER = 'bb'.repeat(28);
+const ARBITER = 'cc'.repeat(28);
+
+const NOW = 1_700_000_000_000;
+const REFUND_DEADLINE = NOW + 60_000;
+
+const datum = (overrides: Partial<EscrowDatum> = {}): EscrowDatum => ({
+  sender: SENDER,
+  receiver: RECEIVER,
+  amount: BigInt(10_000_000),
+  message: '',
+  category: '',
+  transaction_id: '',
+  timestamp: BigInt(NOW / 1000),
+  sender_confirmed: false,
+  receiver_confirmed: false,
+  refund_deadline: BigInt(REFUND_DEADLINE),
+  auto_release_deadline: null,
+  arbiter: null,
+  dispute: null,
+  milestones: [],
+  tokens: new Map(),
+  ...overrides
+});
+
+describe('deriveEscrowState', () => {
+  it('follows the confirmation flags and an open dispute', () => {
+    expect(deriveEscrowState(datum())).toBe('Created');
+    expect(deriveEscrowState(datum({ sender_confirmed: true }))).toBe('SenderConfirmed');
+    expect(deriveEscrowState(datum({ receiver_confirmed: true }))).toBe('ReceiverConfirmed');
+    expect(deriveEscrowState(datum({ sender_confirmed: true, receiver_confirmed: true }))).toBe('BothConfirmed');
+    expect(deriveEscrowState(datum({ arbiter: ARBITER, dispute: { opened_by: SENDER, reason: '' } }))).toBe('Disputed');
+  });
+});
+
+describe('resolveEscrowRole', () => {
+  it('maps key hashes to a party, preferring the sender', () => {
+    const escrow = datum({ arbiter: ARBITER });
+    expect(resolveEscrowRole(escrow, new Set([RECEIVER]))).toBe('receiver');
+    expect(resolveEscrowRole(escrow, new Set([ARBITER]))).toBe('arbiter');
+    expect(resolveEscrowRole(escrow, new Set([SENDER, RECEIVER]))).toBe('sender');
+    expect(resolveEscrowRole(escrow, new Set(['dd'.repeat(28)]))).toBeNull();
+  });
+});
+
+describe('create, confirm and release', () => {
+  it('walks the happy path', () => {
+    let escrow = datum();
+    expect(nextActions(escrow, 'sender', NOW)).toEqual(['ConfirmSender', 'Refund']);
+    expect(nextActions(escrow, 'receiver', NOW)).toEqual(['ConfirmReceiver']);
+
+    escrow = applyEscrowAction(escrow, 'ConfirmSender')!;
+    expect(deriveEscrowState(escrow)).toBe('SenderConfirmed');
+    escrow = applyEscrowAction(escrow, 'ConfirmReceiver')!;
+    expect(deriveEscrowState(escrow)).toBe('BothConfirmed');
+
+    // Release needs no signature, so a third party may submit it
+    expect(nextActions(escrow, null, NOW)).toEqual(['Release']);
+    expect(applyEscrowAction(escrow, 'Release')).toBeNull();
+    expect(transition('BothConfirmed', 'Release')).toBe('Released');
+  });
+
+  it('lets a confirmed receiver release alone once the auto-release deadline passes', () => {
+    const escrow = datum({ receiver_confirmed: true, auto_release_deadline: BigInt(NOW + 1000) });
+    expect(canPerform(escrow, 'Release', 'receiver', NOW)).toBe(false);
+    expect(canPerform(escrow, 'Release', 'receiver', NOW + 1000)).toBe(true);
+  });
+
+  it('rejects a release the sender has not confirmed', () => {
+    const escrow = datum({ receiver_confirmed: true });
+    expect(() => assertCanPerform(escrow, 'Release', 'receiver', NOW)).toThrow(EscrowTransitionError);
+  });
+
+  it('rejects confirmations from the wrong party or twice', () => {
+    expect(() => assertCanPerform(datum(), 'ConfirmSender', 'receiver', NOW)).toThrow(/not permitted for receiver/);
+    expect(() => assertCanPerform(datum(), 'ConfirmReceiver', null, NOW)).toThrow(/not permitted for a third party/);
+    expect(canPerform(datum({ sender_confirmed: true }), 'ConfirmSender', 'sender', NOW)).toBe(false);
+  });
+
+  it('closes receiver confirmation at the refund deadline', () => {
+    expect(canPerform(datum(), 'ConfirmReceiver', 'receiver', REFUND_DEADLINE - 1)).toBe(true);
+    expect(canPerform(datum(), 'ConfirmReceiver', 'receiver', REFUND_DEADLINE)).toBe(false);
+  });
+});
+
+describe('refund', () => {
+  it('is open to the sender until the receiver confirms', () => {
+    expect(canPerform(datum(), 'Refund', 'sender', NOW)).toBe(true);
+    expect(canPerform(datum(), 'Refund', 'receiver', NOW)).toBe(false);
+    expect(canPerform(datum({ receiver_confirmed: true }), 'Refund', 'sender', REFUND_DEADLINE)).toBe(false);
+  });
+
+  it('waits for the refund deadline once the sender has confirmed', () => {
+    const escrow = datum({ sender_confirmed: true });
+    expect(canPerform(escrow, 'Refund', 'sender', REFUND_DEADLINE - 1)).toBe(false);
+    expect(canPerform(escrow, 'Refund', 'sender', REFUND_DEADLINE)).toBe(true);
+  });
+
+  it('has no edge out of a closed escrow', () => {
+    expect(() => transition('Refunded', 'Release')).toThrow(EscrowTransitionError);
+    expect(() => transition('Released', 'Refund')).toThrow('Cannot Refund an escrow in state Released: no such transition');
+  });
+});
+
+describe('disputes', () => {
+  it('need an arbiter and leave the escrow to them', () => {
+    expect(canPerform(datum(), 'OpenDispute', 'sender', NOW)).toBe(false);
+
+    const dispute = { opened_by: RECEIVER, reason: '00' };
+    const disputed = applyEscrowAction(datum({ arbiter: ARBITER }), 'OpenDispute', { dispute })!;
+    expect(disputed.dispute).toEqual(dispute);
+    expect(nextActions(disputed, 'sender', NOW)).toEqual([]);
+    expect(nextActions(disputed, 'arbiter', NOW)).toEqual(['Resolve']);
+  });
+
+  it('must record who opened them', () => {
+    expect(() => applyEscrowAction(datum({ arbiter: ARBITER }), 'OpenDispute')).toThrow(/needs the dispute/);
+  });
+});
+
+describe('milestones', () => {
+  const staged = datum({
+    milestones: [
+      { description: '', amount: BigInt(4_000_000), deadline: BigInt(NOW + 1000), released: false },
+      { description: '', amount: BigInt(6_000_000), deadline: null, released: false }
+    ]
+  });
+
+  it('lets the sender release any stage and the receiver only overdue ones', () => {
+    expect(releasableMilestones(staged, 'sender', NOW)).toEqual([0, 1]);
+    expect(releasableMilestones(staged, 'receiver', NOW)).toEqual([]);
+    expect(releasableMilestones(staged, 'receiver', NOW + 1000)).toEqual([0]);
+  });
+
+  it('deducts each stage and closes on the last one', () => {
+    const afterFirst = applyEscrowAction(staged, 'ReleaseMilestone', { milestone: 0 })!;
+    expect(afterFirst.amount).toBe(BigInt(6_000_000));
+    expect(afterFirst.milestones[0].released).toBe(true);
+    expect(() => applyEscrowAction(afterFirst, 'ReleaseMilestone', { milestone: 0 })).toThrow(/No unpaid milestone 0/);
+    expect(applyEscrowAction(afterFirst, 'ReleaseMilestone', { milestone: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BlueprintDefinitions,
+  PlutusDataError,
+  decodeWithSchema,
+  encodeWithSchema,
+  plutusDataFromCbor,
+  plutusDataToCbor
+} from '../plutusData';
+
+// Schemas in the shape Aiken emits for the escrow datum's nested fields
+const definitions: BlueprintDefinitions = {
+  Bool: {
+    title: 'Bool',
+    anyOf: [
+      { title: 'False', dataType: 'constructor', index: 0, fields: [] },
+      { title: 'True', dataType: 'constructor', index: 1, fields: [] }
+    ]
+  },
+  ByteArray: { dataType: 'bytes' },
+  Int: { dataType: 'integer' },
+  'Option$Int': {
+    title: 'Option',
+    anyOf: [
+      { title: 'Some', dataType: 'constructor', index: 0, fields: [{ $ref: '#/definitions/Int' }] },
+      { title: 'None', dataType: 'constructor', index: 1, fields: [] }
+    ]
+  },
+  'Option$Dispute': {
+    title: 'Option',
+    anyOf: [
+      { title: 'Some', dataType: 'constructor', index: 0, fields: [{ $ref: '#/definitions/Dispute' }] },
+      { title: 'None', dataType: 'constructor', index: 1, fields: [] }
+    ]
+  },
+  Dispute: {
+    title: 'Dispute',
+    anyOf: [
+      {
+        title: 'Dispute',
+        dataType: 'constructor',
+        index: 0,
+        fields: [
+          { title: 'opened_by', $ref: '#/definitions/ByteArray' },
+          { title: 'reason', $ref: '#/definitions/ByteArray' }
+        ]
+      }
+    ]
+  },
+  Milestone: {
+    title: 'Milestone',
+    anyOf: [
+      {
+        title: 'Milestone',
+        dataType: 'constructor',
+        index: 0,
+        fields: [
+          { title: 'description', $ref: '#/definitions/ByteArray' },
+          { title: 'amount', $ref: '#/definitions/Int' },
+          { title: 'deadline', $ref: '#/definitions/Option$Int' },
+          { title: 'released', $ref: '#/definitions/Bool' }
+        ]
+      }
+    ]
+  },
+  'List$Milestone': { dataType: 'list', items: { $ref: '#/definitions/Milestone' } },
+  'Pairs$AssetName_Int': {
+    title: 'Pairs<AssetName, Int>',
+    dataType: 'map',
+    keys: { $ref: '#/definitions/ByteArray' },
+    values: { $ref: '#/definitions/Int' }
+  },
+  'Pairs$PolicyId_Pairs$AssetName_Int': {
+    title: 'Pairs<PolicyId, Pairs<AssetName, Int>>',
+    dataType: 'map',
+    keys: { $ref: '#/definitions/ByteArray' },
+    values: { $ref: '#/definitions/Pairs$AssetName_Int' }
+  },
+  Datum: {
+    title: 'Datum',
+    anyOf: [
+      {
+        title: 'Datum',
+        dataType: 'constructor',
+        index: 0,
+        fields: [
+          { title: 'amount', $ref: '#/definitions/Int' },
+          { title: 'dispute', $ref: '#/definitions/Option$Dispute' },
+          { title: 'milestones', $ref: '#/definitions/List$Milestone' },
+          { title: 'tokens', $ref: '#/definitions/Pairs$PolicyId_Pairs$AssetName_Int' }
+        ]
+      }
+    ]
+  }
+};
+
+const DATUM = { $ref: '#/definitions/Datum' };
+
+const roundTrip = (value: unknown, schema = DATUM): { cbor: string; decoded: unknown } => {
+  const cbor = plutusDataToCbor(encodeWithSchema(schema, value, definitions));
+  return { cbor, decoded: decodeWithSchema(schema, plutusDataFromCbor(cbor), definitions) };
+};
+
+describe('plutus data codec', () => {
+  const datum = {
+    amount: BigInt(5_000_000),
+    dispute: { opened_by: 'aa', reason: '' },
+    milestones: [
+      { description: '01', amount: BigInt(4_000_000), deadline: BigInt(1_700_000_000_000), released: false },
+      { description: '', amount: BigInt(6_000_000), deadline: null, released: true }
+    ],
+    tokens: new Map([['cc', new Map([['74', BigInt(5)]])]])
+  };
+
+  // Constr 0 [5000000, Some(Dispute), [Milestone, Milestone], {cc: {74: 5}}] as Aiken serialises it
+  const DATUM_CBOR =
+    'd8799f' +
+    '1a004c4b40' +
+    'd8799fd8799f41aa40ffff' +
+    '9f' +
+    'd8799f41011a003d0900d8799f1b0000018bcfe56800ffd87980ff' +
+    'd8799f401a005b8d80d87a80d87a80ff' +
+    'ff' +
+    'a141cca1417405' +
+    'ff';
+
+  it('encodes a datum with nested options, a milestone list and a token map to known CBOR', () => {
+    const { cbor, decoded } = roundTrip(datum);
+
+    expect(cbor).toBe(DATUM_CBOR);
+    expect(decoded).toEqual(datum);
+  });
+
+  it('decodes the known CBOR back to the typed value', () => {
+    expect(decodeWithSchema(DATUM, plutusDataFromCbor(DATUM_CBOR), definitions)).toEqual(datum);
+  });
+
+  it('encodes None and empty collections', () => {
+    const empty = { amount: BigInt(0), dispute: null, milestones: [], tokens: new Map() };
+    const { cbor, decoded } = roundTrip(empty);
+
+    expect(cbor).toBe('d8799f00d87a8080a0ff');
+    expect(decoded).toEqual(empty);
+  });
+
+  it('accepts definite-length lists from other serialisers', () => {
+    // The same milestone with its fields in a definite-length array
+    const milestone = plutusDataFromCbor('d87984400cd87a80d87980');
+
+    expect(decodeWithSchema({ $ref: '#/definitions/Milestone' }, milestone, definitions)).toEqual({
+      description: '',
+      amount: BigInt(12),
+      deadline: null,
+      released: false
+    });
+  });
+
+  it('uses CBOR bignums for integers outside 64 bits', () => {
+    const twoTo64 = BigInt(2) ** BigInt(64);
+    const cases: Array<[bigint, string]> = [
+      [twoTo64 - BigInt(1), '1bffffffffffffffff'],
+      [twoTo64, 'c249010000000000000000'],
+      [twoTo64 * twoTo64 + BigInt(1), 'c2510100000000000000000000000000000001'],
+      [-twoTo64, '3bffffffffffffffff'],
+      [-twoTo64 - BigInt(1), 'c349010000000000000000']
+    ];
+
+    for (const [value, cbor] of cases) {
+      expect(plutusDataToCbor(value)).toBe(cbor);
+      expect(plutusDataFromCbor(cbor)).toBe(value);
+    }
+
+    const { decoded } = roundTrip({ ...datum, amount: twoTo64 * BigInt(3) });
+    expect((decoded as typeof datum).amount).toBe(twoTo64 * BigInt(3));
+  });
+
+  it('reports where decoding fails', () => {
+    const data = plutusDataFromCbor(DATUM_CBOR.replace('d87980ff', 'd87b80ff'));
+
+    expect(() => decodeWithSchema(DATUM, data, definitions)).toThrow(PlutusDataError);
+    expect(() => decodeWithSchema(DATUM, data, definitions)).toThrow('$.milestones[0].released: expected Bool constructor');
+  });
+
+  it('rejects truncated and trailing CBOR', () => {
+    expect(() => plutusDataFromCbor(DATUM_CBOR.slice(0, -2))).toThrow(/unexpected end of CBOR/);
+    expect(() => plutusDataFromCbor(`${DATUM_CBOR}00`)).toThrow('trailing bytes after CBOR data item');
+  });
+});
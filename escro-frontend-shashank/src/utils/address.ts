@@ -0,0 +1,456 @@
+// Cardano address parsing: Shelley bech32 and Byron base58, with checksums verified.
+// Kept free of dependencies so the other frontends in this repo can import it as source.
+
+export type AddressType = 'base' | 'pointer' | 'enterprise' | 'reward' | 'byron';
+
+export interface Credential {
+  type: 'key' | 'script';
+  hash: string; // 28-byte blake2b-224 hash, hex
+}
+
+// Location of the stake registration certificate a pointer address delegates through
+export interface Pointer {
+  slot: number;
+  txIndex: number;
+  certIndex: number;
+}
+
+export interface ParsedAddress {
+  address: string;
+  type: AddressType;
+  networkId: number; // 1 on mainnet, 0 on the test networks
+  bytes: string; // raw address bytes as serialized in outputs, hex
+  paymentCredential?: Credential; // absent on reward and Byron addresses
+  stakeCredential?: Credential; // base and reward addresses
+  pointer?: Pointer;
+  protocolMagic?: number; // Byron testnet addresses only
+}
+
+export type AddressErrorReason =
+  | 'empty'
+  | 'mixed-case'
+  | 'invalid-character'
+  | 'missing-separator'
+  | 'invalid-checksum'
+  | 'invalid-padding'
+  | 'unknown-prefix'
+  | 'prefix-mismatch' // addr prefix on a reward address or the reverse
+  | 'unknown-type'
+  | 'invalid-length'
+  | 'network-mismatch' // prefix and header disagree about the network
+  | 'wrong-network' // well formed, but not for the network in use
+  | 'unknown-network' // the network to check against is not one this app knows
+  | 'invalid-byron-encoding'
+  | 'invalid-byron-crc'
+  | 'not-a-payment-address'
+  | 'no-payment-key'
+  | 'invalid-credential'; // a hash given to build an address is malformed
+
+export class AddressError extends Error {
+  readonly reason: AddressErrorReason;
+
+  constructor(reason: AddressErrorReason, message: string) {
+    super(message);
+    this.name = 'AddressError';
+    this.reason = reason;
+  }
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CHECKSUM_LENGTH = 6;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const SHELLEY_PREFIX = /^(addr|addr_test|stake|stake_test)1/i;
+const MAINNET_ID = 1;
+
+// Header network ID by network name; every test network shares ID 0
+const NETWORK_IDS: Record<string, number> = { mainnet: MAINNET_ID, preprod: 0, preview: 0 };
+
+const HASH_BYTES = 28;
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const bech32Polymod = (values: number[]): number => {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((generator, i) => {
+      if ((top >> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum;
+};
+
+const bech32HrpExpand = (hrp: string): number[] => [
+  ...Array.from(hrp, char => char.charCodeAt(0) >> 5),
+  0,
+  ...Array.from(hrp, char => char.charCodeAt(0) & 31)
+];
+
+/**
+ * Split a bech32 string into its prefix and data bytes, checking case, characters, checksum and padding.
+ * Cardano addresses are longer than BIP-173's 90 characters, so no length limit applies.
+ */
+const decodeBech32 = (address: string): { hrp: string; bytes: Uint8Array } => {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    throw new AddressError('mixed-case', 'Address mixes upper and lower case letters');
+  }
+
+  const text = address.toLowerCase();
+  const separator = text.lastIndexOf('1');
+  if (separator < 1) {
+    throw new AddressError('missing-separator', 'Address has no "1" separating its prefix from its data');
+  }
+  if (text.length - separator - 1 < BECH32_CHECKSUM_LENGTH) {
+    throw new AddressError('invalid-length', 'Address is too short to hold a checksum');
+  }
+
+  const hrp = text.slice(0, separator);
+  const data: number[] = [];
+  for (let i = separator + 1; i < text.length; i++) {
+    const value = BECH32_CHARSET.indexOf(text[i]);
+    if (value < 0) {
+      throw new AddressError('invalid-character', `Character "${address[i]}" at position ${i + 1} is not used in bech32 addresses`);
+    }
+    data.push(value);
+  }
+
+  if (bech32Polymod([...bech32HrpExpand(hrp), ...data]) !== 1) {
+    throw new AddressError('invalid-checksum', 'Address checksum does not match; check it for typos');
+  }
+
+  // Regroup the 5-bit words, less the checksum, into bytes
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const value of data.slice(0, -BECH32_CHECKSUM_LENGTH)) {
+    accumulator = ((accumulator << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator << (8 - bits)) & 0xff) {
+    throw new AddressError('invalid-padding', 'Address data does not end on a whole byte');
+  }
+
+  return { hrp, bytes: Uint8Array.from(bytes) };
+};
+
+/**
+ * Encode bytes as bech32 under `hrp`
+ */
+const encodeBech32 = (hrp: string, bytes: Uint8Array): string => {
+  const data: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    accumulator = ((accumulator << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      data.push((accumulator >> bits) & 31);
+    }
+  }
+  if (bits > 0) data.push((accumulator << (5 - bits)) & 31);
+
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = Array.from({ length: BECH32_CHECKSUM_LENGTH }, (_, i) => (polymod >> (5 * (5 - i))) & 31);
+  return hrp + '1' + [...data, ...checksum].map(value => BECH32_CHARSET[value]).join('');
+};
+
+const credential = (bytes: Uint8Array, offset: number, isScript: boolean): Credential => ({
+  type: isScript ? 'script' : 'key',
+  hash: toHex(bytes.slice(offset, offset + HASH_BYTES))
+});
+
+/**
+ * Read one of a pointer's variable-length naturals: 7 bits per byte, high bit set on all but the last
+ */
+const readPointerNatural = (bytes: Uint8Array, offset: number): { value: number; next: number } => {
+  let value = 0;
+  for (let i = offset; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) return { value, next: i + 1 };
+  }
+  throw new AddressError('invalid-length', 'Pointer address ends in the middle of its pointer');
+};
+
+const parseShelleyAddress = (address: string): ParsedAddress => {
+  const { hrp, bytes } = decodeBech32(address);
+  if (!['addr', 'addr_test', 'stake', 'stake_test'].includes(hrp)) {
+    throw new AddressError('unknown-prefix', `"${hrp}" is not a Cardano address prefix`);
+  }
+  if (bytes.length === 0) {
+    throw new AddressError('invalid-length', 'Address has no data');
+  }
+
+  const header = bytes[0];
+  const headerType = header >> 4;
+  const networkId = header & 0x0f;
+  const isReward = headerType === 14 || headerType === 15;
+  const expectLength = (length: number, type: AddressType) => {
+    if (bytes.length !== length) {
+      throw new AddressError('invalid-length', `A ${type} address is ${length} bytes, this one is ${bytes.length}`);
+    }
+  };
+
+  if (isReward !== hrp.startsWith('stake')) {
+    throw new AddressError(
+      'prefix-mismatch',
+      isReward ? 'Reward address is written with a payment address prefix' : 'Payment address is written with a stake address prefix'
+    );
+  }
+  if (hrp.endsWith('_test') === (networkId === MAINNET_ID)) {
+    throw new AddressError(
+      'network-mismatch',
+      `Address prefix "${hrp}" does not match the network ${networkId} recorded in the address`
+    );
+  }
+
+  const parsed: ParsedAddress = { address, type: 'base', networkId, bytes: toHex(bytes) };
+
+  if (headerType <= 3) {
+    expectLength(1 + 2 * HASH_BYTES, 'base');
+    parsed.paymentCredential = credential(bytes, 1, (headerType & 1) === 1);
+    parsed.stakeCredential = credential(bytes, 1 + HASH_BYTES, (headerType & 2) === 2);
+  } else if (headerType <= 5) {
+    parsed.type = 'pointer';
+    parsed.paymentCredential = credential(bytes, 1, headerType === 5);
+    const slot = readPointerNatural(bytes, 1 + HASH_BYTES);
+    const txIndex = readPointerNatural(bytes, slot.next);
+    const certIndex = readPointerNatural(bytes, txIndex.next);
+    if (certIndex.next !== bytes.length) {
+      throw new AddressError('invalid-length', 'Pointer address has extra bytes after its pointer');
+    }
+    parsed.pointer = { slot: slot.value, txIndex: txIndex.value, certIndex: certIndex.value };
+  } else if (headerType <= 7) {
+    expectLength(1 + HASH_BYTES, 'enterprise');
+    parsed.type = 'enterprise';
+    parsed.paymentCredential = credential(bytes, 1, headerType === 7);
+  } else if (isReward) {
+    expectLength(1 + HASH_BYTES, 'reward');
+    parsed.type = 'reward';
+    parsed.stakeCredential = credential(bytes, 1, headerType === 15);
+  } else {
+    throw new AddressError(
+      'unknown-type',
+      headerType === 8 ? 'Byron addresses are written in base58, not bech32' : `Unknown address type ${headerType}`
+    );
+  }
+
+  return parsed;
+};
+
+const decodeBase58 = (text: string): Uint8Array => {
+  const bytes: number[] = []; // little-endian while decoding
+  for (let i = 0; i < text.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(text[i]);
+    if (carry < 0) {
+      throw new AddressError('invalid-character', `Character "${text[i]}" at position ${i + 1} is not used in Byron addresses`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (let i = 0; i < text.length && text[i] === '1'; i++) {
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+};
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Read a definite-length CBOR item head, checking it has the expected major type
+ */
+const readCborHead = (bytes: Uint8Array, offset: number, major: number): { value: number; next: number } => {
+  const invalid = () => new AddressError('invalid-byron-encoding', 'Address is not a valid Byron address');
+  if (offset >= bytes.length || bytes[offset] >> 5 !== major) throw invalid();
+
+  const info = bytes[offset] & 0x1f;
+  if (info < 24) return { value: info, next: offset + 1 };
+
+  const size = ({ 24: 1, 25: 2, 26: 4, 27: 8 } as Record<number, number>)[info];
+  if (!size || offset + 1 + size > bytes.length) throw invalid();
+  let value = 0;
+  for (let i = 1; i <= size; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return { value, next: offset + 1 + size };
+};
+
+/**
+ * Byron addresses are base58 CBOR: [tag 24 (payload bytes), crc32 of the payload].
+ * The payload is [address root, attributes, type]; attribute 2 holds the testnet protocol magic.
+ */
+const parseByronAddress = (address: string): ParsedAddress => {
+  const bytes = decodeBase58(address);
+
+  const outer = readCborHead(bytes, 0, 4);
+  if (outer.value !== 2) throw new AddressError('invalid-byron-encoding', 'Address is not a valid Byron address');
+  const tag = readCborHead(bytes, outer.next, 6);
+  const payloadHead = readCborHead(bytes, tag.next, 2);
+  const payload = bytes.slice(payloadHead.next, payloadHead.next + payloadHead.value);
+  const crc = readCborHead(bytes, payloadHead.next + payloadHead.value, 0);
+  if (tag.value !== 24 || payload.length !== payloadHead.value || crc.next !== bytes.length) {
+    throw new AddressError('invalid-byron-encoding', 'Address is not a valid Byron address');
+  }
+  if (crc32(payload) !== crc.value) {
+    throw new AddressError('invalid-byron-crc', 'Address checksum does not match; check it for typos');
+  }
+
+  const fields = readCborHead(payload, 0, 4);
+  const root = readCborHead(payload, fields.next, 2);
+  const attributes = readCborHead(payload, root.next + root.value, 5);
+  let protocolMagic: number | undefined;
+  let offset = attributes.next;
+  for (let i = 0; i < attributes.value; i++) {
+    const key = readCborHead(payload, offset, 0);
+    const value = readCborHead(payload, key.next, 2);
+    if (key.value === 2) {
+      protocolMagic = readCborHead(payload.slice(value.next, value.next + value.value), 0, 0).value;
+    }
+    offset = value.next + value.value;
+  }
+  const type = readCborHead(payload, offset, 0);
+  if (fields.value !== 3 || root.value !== HASH_BYTES || type.next !== payload.length) {
+    throw new AddressError('invalid-byron-encoding', 'Address is not a valid Byron address');
+  }
+
+  return {
+    address,
+    type: 'byron',
+    networkId: protocolMagic === undefined ? MAINNET_ID : 0,
+    bytes: toHex(bytes),
+    protocolMagic
+  };
+};
+
+/**
+ * Decode any Cardano address, throwing an `AddressError` that says exactly what is wrong with it
+ */
+export const parseAddress = (address: string): ParsedAddress => {
+  if (!address) {
+    throw new AddressError('empty', 'Address is empty');
+  }
+  if (SHELLEY_PREFIX.test(address)) {
+    return parseShelleyAddress(address);
+  }
+
+  const hrp = /^([a-z][a-z0-9_]*)1/i.exec(address)?.[1];
+  try {
+    return parseByronAddress(address);
+  } catch (error) {
+    // Not Byron either: if it reads like bech32, the prefix is what is wrong
+    if (hrp && error instanceof AddressError && error.reason !== 'invalid-byron-crc') {
+      throw new AddressError('unknown-prefix', `"${hrp}" is not a Cardano address prefix; expected addr, addr_test, stake or stake_test`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Network ID that addresses on `network` carry
+ */
+export const networkIdFor = (network: string): number => {
+  if (!Object.prototype.hasOwnProperty.call(NETWORK_IDS, network)) {
+    throw new AddressError('unknown-network', `Unknown network "${network}"; expected ${Object.keys(NETWORK_IDS).join(', ')}`);
+  }
+  return NETWORK_IDS[network];
+};
+
+/**
+ * Parse an address that funds can be sent to, optionally requiring it to be for `network`
+ */
+export const parsePaymentAddress = (address: string, network?: string): ParsedAddress => {
+  const parsed = parseAddress(address);
+  if (parsed.type === 'reward') {
+    throw new AddressError('not-a-payment-address', 'This is a stake (reward) address; funds cannot be sent to it');
+  }
+  if (network !== undefined && parsed.networkId !== networkIdFor(network)) {
+    throw new AddressError('wrong-network', `Address is for ${parsed.networkId === MAINNET_ID ? 'mainnet' : 'a test network'}, not ${network}`);
+  }
+  return parsed;
+};
+
+/**
+ * Throw unless `address` is a well-formed payment address on `network`
+ */
+export const assertValidAddress = (address: string, network: string): void => {
+  parsePaymentAddress(address, network);
+};
+
+/**
+ * Why `address` cannot receive funds, or undefined when it can. For form validation.
+ */
+export const addressError = (address: string, network?: string): AddressError | undefined => {
+  try {
+    parsePaymentAddress(address, network);
+    return undefined;
+  } catch (error) {
+    if (error instanceof AddressError) return error;
+    throw error;
+  }
+};
+
+/**
+ * The payment key hash of a key-controlled Shelley address, as recorded in escrow datums
+ */
+export const paymentKeyHash = (address: string): string => {
+  const { paymentCredential, type } = parseAddress(address);
+  if (!paymentCredential) {
+    throw new AddressError('no-payment-key', `A ${type} address has no payment key hash`);
+  }
+  if (paymentCredential.type === 'script') {
+    throw new AddressError('no-payment-key', 'Address is controlled by a script, not a payment key');
+  }
+  return paymentCredential.hash;
+};
+
+const hashBytes = (hash: string, what: string): number[] => {
+  if (!/^[0-9a-fA-F]{56}$/.test(hash)) {
+    throw new AddressError('invalid-credential', `${what} must be ${HASH_BYTES} bytes of hex`);
+  }
+  return Array.from({ length: HASH_BYTES }, (_, i) => parseInt(hash.substr(i * 2, 2), 16));
+};
+
+/**
+ * Address of the script with hash `scriptHash` on `network`: an enterprise address,
+ * or a base address when `stakeCredential` says who the locked funds are delegated by
+ */
+export const scriptAddress = (scriptHash: string, network: string, stakeCredential?: Credential): string => {
+  const networkId = networkIdFor(network);
+  // Header type 7 is script payment with no stake part; 1 and 3 are script payment with key and script stake
+  const headerType = !stakeCredential ? 7 : stakeCredential.type === 'key' ? 1 : 3;
+  const bytes = [
+    (headerType << 4) | networkId,
+    ...hashBytes(scriptHash, 'Script hash'),
+    ...(stakeCredential ? hashBytes(stakeCredential.hash, 'Stake credential hash') : [])
+  ];
+  return encodeBech32(networkId === MAINNET_ID ? 'addr' : 'addr_test', Uint8Array.from(bytes));
+};
+
+/**
+ * Length of an address once serialized in a transaction output
+ */
+export const addressByteLength = (address: string): number => parseAddress(address).bytes.length / 2;
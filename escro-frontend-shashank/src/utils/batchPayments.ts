@@ -0,0 +1,289 @@
+// Batch payments: many recipients per transaction, each output carrying its own CIP-20 message
+import { DEFAULT_PROTOCOL_PARAMETERS, Transaction, core, getOutputMinLovelace, resolveTxHash } from '@meshsdk/core';
+import type { IWallet, UTxO } from '@meshsdk/core';
+import { addressByteLength, assertValidAddress } from './address';
+import { TRANSACTION_CATEGORIES, formatADA } from './escrow';
+import { METADATA_STRING_BYTES } from './messageMetadata';
+import { TX_METADATA_LABEL, encodeTxMetadata } from './txMetadata';
+import type { CardanoNetwork } from './providers';
+import { BuildError, TransactionError, toTransactionError, withStage } from './txErrors';
+
+// A row as read from the CSV, before validation
+export interface BatchRow {
+  line: number; // 1-based line in the input
+  address: string;
+  amount: string; // ADA
+  message: string;
+  category: string;
+}
+
+export interface BatchPayment {
+  line: number;
+  address: string;
+  lovelace: bigint;
+  message: string;
+  category: string;
+}
+
+export interface BatchRowError {
+  line: number;
+  reason: string;
+}
+
+// Outcome of one batch transaction
+export interface BatchResult {
+  payments: BatchPayment[];
+  txHash?: string;
+  error?: TransactionError;
+}
+
+const BATCH_COLUMNS = ['address', 'amount', 'message', 'category'] as const;
+
+// Room left in each transaction for inputs, change, fee, metadata framing and the signature
+const BATCH_TX_RESERVE_BYTES = 1_200;
+
+// A vkey witness added when signing: key, signature and CBOR framing
+const WITNESS_BYTES = 110;
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * Split CSV text into records, honouring quoted fields with commas, quotes and newlines
+ */
+const parseCsvRecords = (text: string): Array<{ line: number; fields: string[] }> => {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(f => f.trim())) records.push({ line: recordLine, fields: fields.map(f => f.trim()) });
+    fields = [];
+    field = '';
+    recordLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      line++;
+      endRecord();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  endRecord();
+  return records;
+};
+
+/**
+ * Read pasted or uploaded CSV with address, amount, message and category columns.
+ * A header row may name the columns in any order; without one they are taken in that order.
+ */
+export const parseBatchCsv = (text: string): BatchRow[] => {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return [];
+
+  const header = records[0].fields.map(f => f.toLowerCase());
+  const hasHeader = header.includes('address');
+  const columns = BATCH_COLUMNS.map(column => (hasHeader ? header.indexOf(column) : BATCH_COLUMNS.indexOf(column)));
+
+  return records.slice(hasHeader ? 1 : 0).map(({ line, fields }) => {
+    const [address, amount, message, category] = columns.map(index => (index >= 0 ? fields[index] ?? '' : ''));
+    return { line, address, amount, message, category };
+  });
+};
+
+/**
+ * Check every row, collecting the payments that can be sent and the reasons the others cannot
+ */
+export const validateBatchRows = (
+  rows: BatchRow[],
+  network: CardanoNetwork
+): { payments: BatchPayment[]; errors: BatchRowError[] } => {
+  const payments: BatchPayment[] = [];
+  const errors: BatchRowError[] = [];
+
+  for (const row of rows) {
+    try {
+      assertValidAddress(row.address, network);
+
+      if (!/^\d+(\.\d{1,6})?$/.test(row.amount)) {
+        throw new Error(`Amount "${row.amount}" is not an ADA amount with up to 6 decimals`);
+      }
+      const [whole, fraction = ''] = row.amount.split('.');
+      const lovelace = BigInt(whole + fraction.padEnd(6, '0'));
+      const minLovelace = getOutputMinLovelace({ address: row.address, amount: [{ unit: 'lovelace', quantity: lovelace.toString() }] });
+      if (lovelace < minLovelace) {
+        throw new Error(`Amount must be at least ${formatADA(Number(minLovelace))} ADA`);
+      }
+
+      const message = row.message || 'Payment';
+      if (utf8Length(message) > METADATA_STRING_BYTES) {
+        throw new Error(`Message is longer than ${METADATA_STRING_BYTES} bytes`);
+      }
+
+      const category = TRANSACTION_CATEGORIES.find(c => c.toLowerCase() === (row.category || 'Other').toLowerCase());
+      if (!category) {
+        throw new Error(`Unknown category "${row.category}"; use one of ${TRANSACTION_CATEGORIES.join(', ')}`);
+      }
+
+      payments.push({ line: row.line, address: row.address, lovelace, message, category });
+    } catch (error) {
+      errors.push({ line: row.line, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { payments, errors };
+};
+
+/**
+ * Bytes a payment adds to a transaction: its output plus its metadata entries
+ */
+const estimatePaymentSize = (payment: BatchPayment): number =>
+  addressByteLength(payment.address) + 14 + utf8Length(payment.message) + payment.category.length + 8;
+
+/**
+ * Pack payments into as few transactions as fit under `maxTxSize`, first-fit by decreasing size.
+ * Each batch keeps the CSV order of its payments.
+ */
+export const packBatchPayments = (
+  payments: BatchPayment[],
+  maxTxSize: number = DEFAULT_PROTOCOL_PARAMETERS.maxTxSize
+): BatchPayment[][] => {
+  const budget = maxTxSize - BATCH_TX_RESERVE_BYTES;
+  const batches: Array<{ size: number; payments: BatchPayment[] }> = [];
+
+  [...payments]
+    .map(payment => ({ payment, size: estimatePaymentSize(payment) }))
+    .sort((a, b) => b.size - a.size)
+    .forEach(({ payment, size }) => {
+      const batch = batches.find(b => b.size + size <= budget);
+      if (batch) {
+        batch.size += size;
+        batch.payments.push(payment);
+      } else {
+        batches.push({ size, payments: [payment] });
+      }
+    });
+
+  return batches.map(batch => batch.payments.sort((a, b) => a.line - b.line));
+};
+
+/**
+ * Build one batch transaction from `utxos`. Payment i is output i; change follows.
+ */
+const buildBatchTx = async (wallet: IWallet, batch: BatchPayment[], utxos: UTxO[]): Promise<string> => {
+  const tx = new Transaction({ initiator: wallet });
+  batch.forEach(payment => tx.sendLovelace(payment.address, payment.lovelace.toString()));
+
+  // CIP-20 message with one line per output; `outputs` maps each line to the output it labels
+  tx.setMetadata(TX_METADATA_LABEL, encodeTxMetadata({
+    type: 'batch_transfer',
+    message: { msg: batch.map(payment => payment.message) },
+    outputs: batch.map((_, index) => index),
+    categories: batch.map(payment => payment.category),
+    timestamp: Math.floor(Date.now() / 1000)
+  }));
+
+  tx.txBuilder.selectUtxosFrom(utxos);
+  return tx.build();
+};
+
+/**
+ * Size of a built transaction once the wallet has signed it
+ */
+const signedTxSize = (unsignedTx: string): number => unsignedTx.length / 2 + WITNESS_BYTES;
+
+/**
+ * The wallet's UTxOs after a submitted transaction: its inputs spent, its change added
+ */
+const applySubmittedTx = (utxos: UTxO[], unsignedTx: string, firstChangeIndex: number): UTxO[] => {
+  const body = core.deserializeTx(unsignedTx).body();
+  const txHash = resolveTxHash(unsignedTx);
+  const spent = new Set(body.inputs().values().map(input => `${input.transactionId()}#${input.index()}`));
+
+  const change = body
+    .outputs()
+    .slice(firstChangeIndex)
+    .map((output, offset) =>
+      core.fromTxUnspentOutput(
+        new core.TransactionUnspentOutput(
+          new core.TransactionInput(core.TransactionId(txHash), BigInt(firstChangeIndex + offset)),
+          output
+        )
+      )
+    );
+
+  return [...utxos.filter(utxo => !spent.has(`${utxo.input.txHash}#${utxo.input.outputIndex}`)), ...change];
+};
+
+/**
+ * Sign and submit the payments batch by batch. Each transaction spends the change
+ * of the previous one, so the batches need not wait for each other to confirm.
+ * A failed batch is reported and the rest still go out.
+ */
+export const sendBatchPayments = async (
+  wallet: IWallet,
+  payments: BatchPayment[],
+  onBatch: (result: BatchResult) => void = () => {},
+  maxTxSize: number = DEFAULT_PROTOCOL_PARAMETERS.maxTxSize
+): Promise<BatchResult[]> => {
+  const queue = packBatchPayments(payments, maxTxSize);
+  const results: BatchResult[] = [];
+  let utxos = await wallet.getUtxos();
+
+  while (queue.length > 0) {
+    const batch = queue.shift()!;
+    let result: BatchResult;
+    try {
+      let unsignedTx = await buildBatchTx(wallet, batch, utxos);
+
+      // The estimate cannot know how many inputs coin selection needs; move payments on until it fits
+      while (signedTxSize(unsignedTx) > maxTxSize && batch.length > 1) {
+        let excess = signedTxSize(unsignedTx) - maxTxSize;
+        const overflow: BatchPayment[] = [];
+        while (excess > 0 && batch.length > 1) {
+          const payment = batch.pop()!;
+          excess -= estimatePaymentSize(payment);
+          overflow.unshift(payment);
+        }
+        queue.unshift(overflow);
+        unsignedTx = await buildBatchTx(wallet, batch, utxos);
+      }
+      if (signedTxSize(unsignedTx) > maxTxSize) {
+        throw new BuildError('tx-too-large', `Transaction is ${signedTxSize(unsignedTx)} bytes, over the ${maxTxSize} byte limit`);
+      }
+
+      const signedTx = await withStage('sign', () => wallet.signTx(unsignedTx));
+      const txHash = await withStage('submit', () => wallet.submitTx(signedTx));
+      utxos = applySubmittedTx(utxos, unsignedTx, batch.length);
+      result = { payments: batch, txHash };
+    } catch (error) {
+      console.error('Error sending batch payment:', error);
+      result = { payments: batch, error: toTransactionError(error, 'build') };
+    }
+    results.push(result);
+    onBatch(result);
+  }
+
+  return results;
+};
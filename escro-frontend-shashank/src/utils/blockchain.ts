@@ -1,205 +1,176 @@
 // Blockchain API utilities for fetching Cardano transaction data
-// Note: Install @blockfrost/blockfrost-js package for full functionality
+import type { Asset } from '@meshsdk/core';
+import {
+  AddressTransactionRef,
+  CardanoNetwork,
+  ChainProvider,
+  ChainProviderError,
+  ChainTip,
+  TransactionDetails,
+  TransactionIO,
+  TransactionUtxos,
+  getChainProvider,
+  mapWithConcurrency
+} from './providers';
+import { CachedTransaction, FINALITY_CONFIRMATIONS, TransactionCache, getTransactionCache } from './txCache';
+import { EscrowLink, readTxMetadata, txCategory, txMessageText } from './txMetadata';
 
-interface BlockchainTransaction {
-  hash: string;
-  block: string;
-  block_height: number;
-  block_time: number;
-  slot: number;
-  index: number;
-  output_amount: Array<{
-    unit: string;
-    quantity: string;
-  }>;
-  fees: string;
-  deposit: string;
-  size: number;
-  invalid_before?: string;
-  invalid_hereafter?: string;
-  utxo_count: number;
-  withdrawal_count: number;
-  mir_cert_count: number;
-  delegation_count: number;
-  stake_cert_count: number;
-  pool_update_count: number;
-  pool_retire_count: number;
-  asset_mint_or_burn_count: number;
-  redeemer_count: number;
-  valid_contract: boolean;
-}
+export type TransactionDirection = 'incoming' | 'outgoing' | 'self';
 
-interface TransactionMetadata {
-  label: string;
-  json_metadata: any;
+// Net effect of a transaction on a set of addresses
+export interface TransactionFlow {
+  lovelace: bigint; // negative when funds left the addresses
+  assets: Asset[]; // native assets only, signed quantities
+  direction: TransactionDirection;
+  senders: string[]; // foreign addresses spent from
+  recipients: string[]; // foreign addresses paid to
 }
 
-interface ParsedTransaction {
+export interface ParsedTransaction {
   id: string;
   hash: string;
   timestamp: number;
-  amount: string;
+  amount: string; // ADA moved in or out, without sign
+  direction?: TransactionDirection;
+  assets?: Asset[];
+  counterparties?: string[];
   recipient?: string;
   sender?: string;
   message?: string;
+  encryptedMessage?: string; // base64, for decryptMessage; message is then absent
+  category?: string;
+  escrow?: EscrowLink; // the escrow this transaction created or acted on
   status: 'success' | 'failed' | 'pending';
-  fees: string;
+  fees?: string;
   network: string;
-  blockHeight: number;
+  blockHeight?: number;
   confirmations?: number;
 }
 
-// Blockfrost API configuration
-const BLOCKFROST_CONFIG = {
-  preprod: {
-    url: 'https://cardano-preprod.blockfrost.io/api/v0',
-    // Use preprod key if available, otherwise fall back to mock data
-    apiKey: process.env.NEXT_PUBLIC_BLOCKFROST_API_KEY || 'preprod_mock'
-  },
-  mainnet: {
-    url: 'https://cardano-mainnet.blockfrost.io/api/v0',
-    apiKey: process.env.NEXT_PUBLIC_BLOCKFROST_MAINNET_API_KEY || 'mainnet_mock'
-  }
-};
+// Transactions resolved in parallel per page; the provider's rate limiter paces the requests
+const TRANSACTION_FETCH_CONCURRENCY = 8;
 
 /**
- * Fetch transaction history for a given address from Cardano blockchain
+ * Load a transaction's details, metadata and UTxOs, from the cache when it has been seen before.
+ * Only transactions `confirmations` deep enough to be final are cached, since shallower ones can still roll back.
  */
-export async function fetchAddressTransactions(
-  address: string, 
-  network: 'preprod' | 'mainnet' = 'preprod',
-  page: number = 1,
-  count: number = 50
-): Promise<ParsedTransaction[]> {
-  try {
-    const config = BLOCKFROST_CONFIG[network];
-    
-    // Fetch address transactions
-    const response = await fetch(
-      `${config.url}/addresses/${address}/transactions?page=${page}&count=${count}&order=desc`,
-      {
-        headers: {
-          'project_id': config.apiKey,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Blockfrost API error: ${response.status} ${response.statusText}`);
-    }
-
-    const transactions = await response.json();
-    
-    // Parse each transaction
-    const parsedTransactions: ParsedTransaction[] = [];
-    
-    for (const tx of transactions) {
-      try {
-        const txDetails = await fetchTransactionDetails(tx.tx_hash, network);
-        const txMetadata = await fetchTransactionMetadata(tx.tx_hash, network);
-        
-        parsedTransactions.push({
-          id: tx.tx_hash,
-          hash: tx.tx_hash,
-          timestamp: tx.block_time * 1000, // Convert to milliseconds
-          amount: calculateTransactionAmount(txDetails, address),
-          recipient: getTransactionRecipient(txDetails, address),
-          sender: getTransactionSender(txDetails, address),
-          message: extractMessageFromMetadata(txMetadata),
-          status: 'success', // If it's on blockchain, it's successful
-          fees: (parseInt(txDetails.fees) / 1_000_000).toString(),
-          network,
-          blockHeight: tx.block_height,
-          confirmations: await getCurrentBlockHeight(network) - tx.block_height
-        });
-      } catch (error) {
-        console.error(`Error parsing transaction ${tx.tx_hash}:`, error);
-      }
-    }
-    
-    return parsedTransactions;
-  } catch (error) {
-    console.error('Error fetching address transactions:', error);
-    throw error;
+async function loadTransaction(
+  txHash: string,
+  confirmations: number | undefined,
+  provider: ChainProvider,
+  cache: TransactionCache
+): Promise<CachedTransaction> {
+  const cached = await cache.get(txHash);
+  if (cached && cached.network === provider.network && cached.utxos !== undefined) {
+    return cached;
   }
-}
-
-/**
- * Fetch detailed transaction information
- */
-async function fetchTransactionDetails(txHash: string, network: 'preprod' | 'mainnet'): Promise<BlockchainTransaction> {
-  const config = BLOCKFROST_CONFIG[network];
-  
-  const response = await fetch(`${config.url}/txs/${txHash}`, {
-    headers: {
-      'project_id': config.apiKey,
-      'Content-Type': 'application/json'
-    }
-  });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch transaction details: ${response.status}`);
+  const [details, metadata, utxos] = await Promise.all([
+    provider.getTransaction(txHash),
+    provider.getTransactionMetadata(txHash),
+    fetchTransactionUTXOs(txHash, provider.network, provider).catch(error => {
+      // Backends that cannot resolve inputs fall back to the output totals
+      if (error instanceof ChainProviderError && error.status === 501) return null;
+      throw error;
+    })
+  ]);
+  const entry: CachedTransaction = { hash: txHash, network: provider.network, details, metadata, utxos };
+  if (confirmations !== undefined && confirmations >= FINALITY_CONFIRMATIONS) {
+    await cache.put(entry);
   }
-
-  return response.json();
+  return entry;
 }
 
 /**
- * Fetch transaction metadata
+ * Resolve and parse a page of transaction references against the tip,
+ * computing amounts relative to `ownAddresses`
  */
-async function fetchTransactionMetadata(txHash: string, network: 'preprod' | 'mainnet'): Promise<TransactionMetadata[]> {
-  const config = BLOCKFROST_CONFIG[network];
-  
-  try {
-    const response = await fetch(`${config.url}/txs/${txHash}/metadata`, {
-      headers: {
-        'project_id': config.apiKey,
-        'Content-Type': 'application/json'
-      }
-    });
+export async function parseTransactionRefs(
+  transactions: AddressTransactionRef[],
+  tip: ChainTip,
+  address: string,
+  ownAddresses: Set<string>,
+  provider: ChainProvider,
+  cache: TransactionCache
+): Promise<ParsedTransaction[]> {
+  const parsedTransactions = await mapWithConcurrency(
+    transactions,
+    TRANSACTION_FETCH_CONCURRENCY,
+    async (tx): Promise<ParsedTransaction | null> => {
+      try {
+        const confirmations = tx.blockHeight === null ? undefined : tip.height - tx.blockHeight;
+        const { details: txDetails, metadata: txMetadata, utxos: txUtxos } = await loadTransaction(tx.txHash, confirmations, provider, cache);
+        const flow = txUtxos ? analyzeTransactionUtxos(txUtxos, ownAddresses, txDetails.validContract) : null;
+        const appMetadata = readTxMetadata(txMetadata);
+        // Of a batch payment we received, show only the lines and categories addressed to us
+        const ownOutputs = flow?.direction === 'incoming'
+          ? txUtxos!.outputs.filter(io => ownAddresses.has(io.address)).map(io => io.outputIndex)
+          : undefined;
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return []; // No metadata found
+        return {
+          id: tx.txHash,
+          hash: tx.txHash,
+          timestamp: tx.blockTime * 1000, // Convert to milliseconds
+          amount: flow ? lovelaceToAda(flow.lovelace < BigInt(0) ? -flow.lovelace : flow.lovelace) : calculateTransactionAmount(txDetails),
+          direction: flow?.direction,
+          assets: flow?.assets,
+          counterparties: flow ? (flow.direction === 'incoming' ? flow.senders : flow.recipients) : undefined,
+          recipient: flow ? getTransactionRecipient(flow, address) : undefined,
+          sender: flow ? getTransactionSender(flow, address) : undefined,
+          message: appMetadata && txMessageText(appMetadata, ownOutputs),
+          encryptedMessage: appMetadata?.message?.enc ? appMetadata.message.msg.join('') : undefined,
+          category: appMetadata && txCategory(appMetadata, ownOutputs),
+          escrow: appMetadata?.escrow,
+          // On chain, but a fork may still drop it until it is deep enough
+          status: confirmations !== undefined && confirmations < FINALITY_CONFIRMATIONS ? 'pending' : 'success',
+          fees: txDetails.fees === null ? undefined : (parseInt(txDetails.fees) / 1_000_000).toString(),
+          network: provider.network,
+          blockHeight: tx.blockHeight ?? undefined,
+          confirmations
+        };
+      } catch (error) {
+        console.error(`Error parsing transaction ${tx.txHash}:`, error);
+        return null;
       }
-      throw new Error(`Failed to fetch transaction metadata: ${response.status}`);
     }
-
-    return response.json();
-  } catch (error) {
-    console.error('Error fetching transaction metadata:', error);
-    return [];
-  }
+  );
+  
+  return parsedTransactions.filter((tx): tx is ParsedTransaction => tx !== null);
 }
 
 /**
- * Get current block height
+ * Fetch transaction history for a given address from Cardano blockchain
  */
-async function getCurrentBlockHeight(network: 'preprod' | 'mainnet'): Promise<number> {
-  const config = BLOCKFROST_CONFIG[network];
-  
-  const response = await fetch(`${config.url}/blocks/latest`, {
-    headers: {
-      'project_id': config.apiKey,
-      'Content-Type': 'application/json'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch current block height: ${response.status}`);
+export async function fetchAddressTransactions(
+  address: string, 
+  network: CardanoNetwork = 'preprod',
+  page: number = 1,
+  count: number = 50,
+  provider: ChainProvider = getChainProvider(network),
+  cache: TransactionCache = getTransactionCache(),
+  ownAddresses: string[] = [address]
+): Promise<ParsedTransaction[]> {
+  try {
+    // Fetch address transactions and the tip once for the whole page
+    const [transactions, tip] = await Promise.all([
+      provider.getAddressTransactions(address, { page, count }),
+      provider.getTip()
+    ]);
+    
+    return await parseTransactionRefs(transactions, tip, address, new Set(ownAddresses), provider, cache);
+  } catch (error) {
+    console.error(`Error fetching address transactions from ${provider.name}:`, error);
+    throw error;
   }
-
-  const block = await response.json();
-  return block.height;
 }
 
+const lovelaceToAda = (lovelace: bigint): string => (Number(lovelace) / 1_000_000).toString();
+
 /**
- * Calculate transaction amount for a specific address
+ * Total lovelace output of the whole transaction, for backends that cannot resolve its inputs
  */
-function calculateTransactionAmount(txDetails: BlockchainTransaction, address: string): string {
-  // This is a simplified calculation - you'd need to fetch UTXOs for exact amounts
-  const lovelaceAmount = txDetails.output_amount.find(output => output.unit === 'lovelace');
+function calculateTransactionAmount(txDetails: TransactionDetails): string {
+  const lovelaceAmount = txDetails.outputAmount.find(output => output.unit === 'lovelace');
   if (lovelaceAmount) {
     return (parseInt(lovelaceAmount.quantity) / 1_000_000).toString();
   }
@@ -207,90 +178,62 @@ function calculateTransactionAmount(txDetails: BlockchainTransaction, address: s
 }
 
 /**
- * Get transaction recipient (simplified)
+ * Work out what a transaction did to a set of addresses from its resolved inputs and outputs
  */
-function getTransactionRecipient(txDetails: BlockchainTransaction, senderAddress: string): string {
-  // This would require fetching UTXOs to determine actual recipient
-  return 'Unknown Recipient';
-}
+export function analyzeTransactionUtxos(
+  utxos: TransactionUtxos,
+  ownAddresses: Set<string>,
+  validContract: boolean = true
+): TransactionFlow {
+  // A transaction whose scripts failed only consumes its collateral and pays the collateral return
+  const inputs = utxos.inputs.filter(io => !io.reference && !!io.collateral === !validContract);
+  const outputs = utxos.outputs.filter(io => !!io.collateral === !validContract);
+  const isOwn = (io: TransactionIO) => ownAddresses.has(io.address);
 
-/**
- * Get transaction sender (simplified)
- */
-function getTransactionSender(txDetails: BlockchainTransaction, address: string): string {
-  return address; // Simplified - the address we're querying is the sender/receiver
+  const deltas = new Map<string, bigint>();
+  const add = (io: TransactionIO, sign: bigint) =>
+    io.amount.forEach(asset => deltas.set(asset.unit, (deltas.get(asset.unit) ?? BigInt(0)) + sign * BigInt(asset.quantity)));
+  inputs.filter(isOwn).forEach(io => add(io, BigInt(-1)));
+  outputs.filter(isOwn).forEach(io => add(io, BigInt(1)));
+
+  const unique = (ios: TransactionIO[]) => Array.from(new Set(ios.map(io => io.address)));
+  const spendsOwn = inputs.some(isOwn);
+  const foreignOutputs = outputs.filter(io => !isOwn(io));
+
+  return {
+    lovelace: deltas.get('lovelace') ?? BigInt(0),
+    assets: Array.from(deltas)
+      .filter(([unit, quantity]) => unit !== 'lovelace' && quantity !== BigInt(0))
+      .map(([unit, quantity]) => ({ unit, quantity: quantity.toString() })),
+    direction: !spendsOwn ? 'incoming' : foreignOutputs.length === 0 ? 'self' : 'outgoing',
+    senders: unique(inputs.filter(io => !isOwn(io))),
+    recipients: unique(foreignOutputs)
+  };
 }
 
 /**
- * Extract message from transaction metadata
+ * Get transaction recipient: the first foreign output when sending, us otherwise
  */
-function extractMessageFromMetadata(metadata: TransactionMetadata[]): string | undefined {
-  for (const meta of metadata) {
-    if (meta.label === '674' && meta.json_metadata) {
-      // Standard message metadata label
-      if (meta.json_metadata.msg && Array.isArray(meta.json_metadata.msg)) {
-        return meta.json_metadata.msg.join(' ');
-      }
-      if (typeof meta.json_metadata === 'string') {
-        return meta.json_metadata;
-      }
-    }
-  }
-  return undefined;
+function getTransactionRecipient(flow: TransactionFlow, address: string): string {
+  return flow.direction === 'outgoing' ? flow.recipients[0] : address;
 }
 
 /**
- * Fetch transaction UTXOs for detailed input/output analysis
+ * Get transaction sender: the first foreign input when receiving, us otherwise
  */
-export async function fetchTransactionUTXOs(txHash: string, network: 'preprod' | 'mainnet') {
-  const config = BLOCKFROST_CONFIG[network];
-  
-  const response = await fetch(`${config.url}/txs/${txHash}/utxos`, {
-    headers: {
-      'project_id': config.apiKey,
-      'Content-Type': 'application/json'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch transaction UTXOs: ${response.status}`);
-  }
-
-  return response.json();
+function getTransactionSender(flow: TransactionFlow, address: string): string {
+  return flow.direction === 'incoming' ? flow.senders[0] : address;
 }
 
 /**
- * Mock function for development when Blockfrost API is not available
+ * Fetch transaction UTXOs for detailed input/output analysis
  */
-export function getMockTransactions(address: string): ParsedTransaction[] {
-  return [
-    {
-      id: 'mock1',
-      hash: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
-      timestamp: Date.now() - 86400000, // 1 day ago
-      amount: '10.5',
-      recipient: 'addr_test1qp...example',
-      message: 'Test transaction message',
-      status: 'success',
-      fees: '0.2',
-      network: 'preprod',
-      blockHeight: 12345,
-      confirmations: 100
-    },
-    {
-      id: 'mock2',
-      hash: 'abcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
-      timestamp: Date.now() - 172800000, // 2 days ago
-      amount: '5.0',
-      recipient: 'addr_test1qq...example2',
-      message: 'Another test message',
-      status: 'success',
-      fees: '0.18',
-      network: 'preprod',
-      blockHeight: 12340,
-      confirmations: 105
-    }
-  ];
+export async function fetchTransactionUTXOs(
+  txHash: string,
+  network: CardanoNetwork,
+  provider: ChainProvider = getChainProvider(network)
+) {
+  return provider.getTransactionUtxos(txHash);
 }
 
 /**
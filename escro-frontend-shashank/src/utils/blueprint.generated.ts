@@ -0,0 +1,423 @@
+// Generated by scripts/generate-blueprint.mjs from escrow-dapp/plutus.json. Do not edit.
+// Run `npm run blueprint` after `aiken build` to regenerate.
+import type { BlueprintDefinitions, PlutusData } from './plutusData';
+import {
+  decodeWithSchema,
+  encodeWithSchema,
+  plutusDataFromCbor,
+  plutusDataToCbor
+} from './plutusData';
+
+export const BLUEPRINT_COMPILER = 'Aiken v1.1.19+e525483';
+
+export const definitions: BlueprintDefinitions = {
+  "Bool": {
+    "title": "Bool",
+    "anyOf": [
+      {
+        "title": "False",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": []
+      },
+      {
+        "title": "True",
+        "dataType": "constructor",
+        "index": 1,
+        "fields": []
+      }
+    ]
+  },
+  "ByteArray": {
+    "dataType": "bytes"
+  },
+  "Data": {
+    "title": "Data",
+    "description": "Any Plutus data."
+  },
+  "Int": {
+    "dataType": "integer"
+  },
+  "List$escrow/Milestone": {
+    "dataType": "list",
+    "items": {
+      "$ref": "#/definitions/escrow~1Milestone"
+    }
+  },
+  "Option$ByteArray": {
+    "title": "Option",
+    "anyOf": [
+      {
+        "title": "Some",
+        "description": "An optional value.",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": [
+          {
+            "$ref": "#/definitions/ByteArray"
+          }
+        ]
+      },
+      {
+        "title": "None",
+        "description": "Nothing.",
+        "dataType": "constructor",
+        "index": 1,
+        "fields": []
+      }
+    ]
+  },
+  "Option$Int": {
+    "title": "Option",
+    "anyOf": [
+      {
+        "title": "Some",
+        "description": "An optional value.",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": [
+          {
+            "$ref": "#/definitions/Int"
+          }
+        ]
+      },
+      {
+        "title": "None",
+        "description": "Nothing.",
+        "dataType": "constructor",
+        "index": 1,
+        "fields": []
+      }
+    ]
+  },
+  "Option$escrow/Dispute": {
+    "title": "Option",
+    "anyOf": [
+      {
+        "title": "Some",
+        "description": "An optional value.",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": [
+          {
+            "$ref": "#/definitions/escrow~1Dispute"
+          }
+        ]
+      },
+      {
+        "title": "None",
+        "description": "Nothing.",
+        "dataType": "constructor",
+        "index": 1,
+        "fields": []
+      }
+    ]
+  },
+  "Pairs$cardano/assets/AssetName_Int": {
+    "title": "Pairs<AssetName, Int>",
+    "dataType": "map",
+    "keys": {
+      "$ref": "#/definitions/cardano~1assets~1AssetName"
+    },
+    "values": {
+      "$ref": "#/definitions/Int"
+    }
+  },
+  "Pairs$cardano/assets/PolicyId_Pairs$cardano/assets/AssetName_Int": {
+    "title": "Pairs<PolicyId, Pairs<AssetName, Int>>",
+    "dataType": "map",
+    "keys": {
+      "$ref": "#/definitions/cardano~1assets~1PolicyId"
+    },
+    "values": {
+      "$ref": "#/definitions/Pairs$cardano~1assets~1AssetName_Int"
+    }
+  },
+  "cardano/assets/AssetName": {
+    "title": "AssetName",
+    "dataType": "bytes"
+  },
+  "cardano/assets/PolicyId": {
+    "title": "PolicyId",
+    "dataType": "bytes"
+  },
+  "escrow/Dispute": {
+    "title": "Dispute",
+    "anyOf": [
+      {
+        "title": "Dispute",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": [
+          {
+            "title": "opened_by",
+            "$ref": "#/definitions/ByteArray"
+          },
+          {
+            "title": "reason",
+            "$ref": "#/definitions/ByteArray"
+          }
+        ]
+      }
+    ]
+  },
+  "escrow/EscrowDatum": {
+    "title": "EscrowDatum",
+    "anyOf": [
+      {
+        "title": "EscrowDatum",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": [
+          {
+            "title": "sender",
+            "$ref": "#/definitions/ByteArray"
+          },
+          {
+            "title": "receiver",
+            "$ref": "#/definitions/ByteArray"
+          },
+          {
+            "title": "amount",
+            "$ref": "#/definitions/Int"
+          },
+          {
+            "title": "message",
+            "$ref": "#/definitions/ByteArray"
+          },
+          {
+            "title": "category",
+            "$ref": "#/definitions/ByteArray"
+          },
+          {
+            "title": "transaction_id",
+            "$ref": "#/definitions/ByteArray"
+          },
+          {
+            "title": "timestamp",
+            "$ref": "#/definitions/Int"
+          },
+          {
+            "title": "sender_confirmed",
+            "$ref": "#/definitions/Bool"
+          },
+          {
+            "title": "receiver_confirmed",
+            "$ref": "#/definitions/Bool"
+          },
+          {
+            "title": "refund_deadline",
+            "$ref": "#/definitions/Int"
+          },
+          {
+            "title": "auto_release_deadline",
+            "$ref": "#/definitions/Option$Int"
+          },
+          {
+            "title": "arbiter",
+            "$ref": "#/definitions/Option$ByteArray"
+          },
+          {
+            "title": "dispute",
+            "$ref": "#/definitions/Option$escrow~1Dispute"
+          },
+          {
+            "title": "milestones",
+            "$ref": "#/definitions/List$escrow~1Milestone"
+          },
+          {
+            "title": "tokens",
+            "$ref": "#/definitions/Pairs$cardano~1assets~1PolicyId_Pairs$cardano~1assets~1AssetName_Int"
+          }
+        ]
+      }
+    ]
+  },
+  "escrow/EscrowRedeemer": {
+    "title": "EscrowRedeemer",
+    "anyOf": [
+      {
+        "title": "InitiateTransfer",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": []
+      },
+      {
+        "title": "ConfirmSender",
+        "dataType": "constructor",
+        "index": 1,
+        "fields": []
+      },
+      {
+        "title": "ConfirmReceiver",
+        "dataType": "constructor",
+        "index": 2,
+        "fields": []
+      },
+      {
+        "title": "Release",
+        "dataType": "constructor",
+        "index": 3,
+        "fields": []
+      },
+      {
+        "title": "Refund",
+        "dataType": "constructor",
+        "index": 4,
+        "fields": []
+      },
+      {
+        "title": "OpenDispute",
+        "dataType": "constructor",
+        "index": 5,
+        "fields": []
+      },
+      {
+        "title": "Resolve",
+        "dataType": "constructor",
+        "index": 6,
+        "fields": [
+          {
+            "title": "receiver_share",
+            "$ref": "#/definitions/Int"
+          },
+          {
+            "title": "tokens_to_receiver",
+            "$ref": "#/definitions/Bool"
+          }
+        ]
+      },
+      {
+        "title": "ReleaseMilestone",
+        "dataType": "constructor",
+        "index": 7,
+        "fields": [
+          {
+            "title": "index",
+            "$ref": "#/definitions/Int"
+          }
+        ]
+      }
+    ]
+  },
+  "escrow/Milestone": {
+    "title": "Milestone",
+    "anyOf": [
+      {
+        "title": "Milestone",
+        "dataType": "constructor",
+        "index": 0,
+        "fields": [
+          {
+            "title": "description",
+            "$ref": "#/definitions/ByteArray"
+          },
+          {
+            "title": "amount",
+            "$ref": "#/definitions/Int"
+          },
+          {
+            "title": "deadline",
+            "$ref": "#/definitions/Option$Int"
+          },
+          {
+            "title": "released",
+            "$ref": "#/definitions/Bool"
+          }
+        ]
+      }
+    ]
+  }
+};
+
+/** Blueprint type `cardano/assets/AssetName` */
+export type AssetName = string;
+
+/** Blueprint type `cardano/assets/PolicyId` */
+export type PolicyId = string;
+
+/** Blueprint type `escrow/Dispute` */
+export interface Dispute {
+  opened_by: string;
+  reason: string;
+}
+
+/** Blueprint type `escrow/EscrowDatum` */
+export interface EscrowDatum {
+  sender: string;
+  receiver: string;
+  amount: bigint;
+  message: string;
+  category: string;
+  transaction_id: string;
+  timestamp: bigint;
+  sender_confirmed: boolean;
+  receiver_confirmed: boolean;
+  refund_deadline: bigint;
+  auto_release_deadline: bigint | null;
+  arbiter: string | null;
+  dispute: Dispute | null;
+  milestones: Array<Milestone>;
+  tokens: Map<PolicyId, Map<AssetName, bigint>>;
+}
+
+/** Blueprint type `escrow/EscrowRedeemer` */
+export type EscrowRedeemer =
+  | { type: 'InitiateTransfer' }
+  | { type: 'ConfirmSender' }
+  | { type: 'ConfirmReceiver' }
+  | { type: 'Release' }
+  | { type: 'Refund' }
+  | { type: 'OpenDispute' }
+  | { type: 'Resolve'; receiver_share: bigint; tokens_to_receiver: boolean }
+  | { type: 'ReleaseMilestone'; index: bigint };
+
+/** Blueprint type `escrow/Milestone` */
+export interface Milestone {
+  description: string;
+  amount: bigint;
+  deadline: bigint | null;
+  released: boolean;
+}
+
+export const assetNameToData = (value: AssetName): PlutusData =>
+  encodeWithSchema({ $ref: '#/definitions/cardano~1assets~1AssetName' }, value, definitions);
+export const assetNameFromData = (data: PlutusData): AssetName =>
+  decodeWithSchema({ $ref: '#/definitions/cardano~1assets~1AssetName' }, data, definitions) as AssetName;
+export const encodeAssetName = (value: AssetName): string => plutusDataToCbor(assetNameToData(value));
+export const decodeAssetName = (cbor: string): AssetName => assetNameFromData(plutusDataFromCbor(cbor));
+
+export const policyIdToData = (value: PolicyId): PlutusData =>
+  encodeWithSchema({ $ref: '#/definitions/cardano~1assets~1PolicyId' }, value, definitions);
+export const policyIdFromData = (data: PlutusData): PolicyId =>
+  decodeWithSchema({ $ref: '#/definitions/cardano~1assets~1PolicyId' }, data, definitions) as PolicyId;
+export const encodePolicyId = (value: PolicyId): string => plutusDataToCbor(policyIdToData(value));
+export const decodePolicyId = (cbor: string): PolicyId => policyIdFromData(plutusDataFromCbor(cbor));
+
+export const disputeToData = (value: Dispute): PlutusData =>
+  encodeWithSchema({ $ref: '#/definitions/escrow~1Dispute' }, value, definitions);
+export const disputeFromData = (data: PlutusData): Dispute =>
+  decodeWithSchema({ $ref: '#/definitions/escrow~1Dispute' }, data, definitions) as Dispute;
+export const encodeDispute = (value: Dispute): string => plutusDataToCbor(disputeToData(value));
+export const decodeDispute = (cbor: string): Dispute => disputeFromData(plutusDataFromCbor(cbor));
+
+export const escrowDatumToData = (value: EscrowDatum): PlutusData =>
+  encodeWithSchema({ $ref: '#/definitions/escrow~1EscrowDatum' }, value, definitions);
+export const escrowDatumFromData = (data: PlutusData): EscrowDatum =>
+  decodeWithSchema({ $ref: '#/definitions/escrow~1EscrowDatum' }, data, definitions) as EscrowDatum;
+export const encodeEscrowDatum = (value: EscrowDatum): string => plutusDataToCbor(escrowDatumToData(value));
+export const decodeEscrowDatum = (cbor: string): EscrowDatum => escrowDatumFromData(plutusDataFromCbor(cbor));
+
+export const escrowRedeemerToData = (value: EscrowRedeemer): PlutusData =>
+  encodeWithSchema({ $ref: '#/definitions/escrow~1EscrowRedeemer' }, value, definitions);
+export const escrowRedeemerFromData = (data: PlutusData): EscrowRedeemer =>
+  decodeWithSchema({ $ref: '#/definitions/escrow~1EscrowRedeemer' }, data, definitions) as EscrowRedeemer;
+export const encodeEscrowRedeemer = (value: EscrowRedeemer): string => plutusDataToCbor(escrowRedeemerToData(value));
+export const decodeEscrowRedeemer = (cbor: string): EscrowRedeemer => escrowRedeemerFromData(plutusDataFromCbor(cbor));
+
+export const milestoneToData = (value: Milestone): PlutusData =>
+  encodeWithSchema({ $ref: '#/definitions/escrow~1Milestone' }, value, definitions);
+export const milestoneFromData = (data: PlutusData): Milestone =>
+  decodeWithSchema({ $ref: '#/definitions/escrow~1Milestone' }, data, definitions) as Milestone;
+export const encodeMilestone = (value: Milestone): string => plutusDataToCbor(milestoneToData(value));
+export const decodeMilestone = (cbor: string): Milestone => milestoneFromData(plutusDataFromCbor(cbor));
@@ -0,0 +1,372 @@
+// Local ledger emulator: validates and applies signed transactions against an
+// in-memory UTxO set, evaluating Plutus scripts offline, so the escrow flows
+// can run end to end without a browser wallet or network access.
+//
+//   const emulator = new LedgerEmulator('preprod');
+//   const [sender, receiver] = await Promise.all([emulator.createWallet(), emulator.createWallet()]);
+//   const { outRef } = await createEscrowTransaction(sender, await receiver.getChangeAddress(), 10_000_000, 'hi');
+//   const [escrow] = await fetchEscrowUtxos('preprod', emulator);
+//   await submitEscrowTransaction(sender, await buildConfirmSenderTx(sender, escrow));
+import {
+  MeshWallet,
+  SLOT_CONFIG_NETWORK,
+  core,
+  deserializeAddress,
+  resolveEpochNo,
+  slotToBeginUnixTime,
+  unixTimeToEnclosingSlot
+} from '@meshsdk/core';
+import type { Asset, IFetcher, Protocol, UTxO } from '@meshsdk/core';
+import { MemoryChainProvider } from './providers/memory';
+import {
+  CardanoNetwork,
+  ChainProviderError,
+  ChainTip,
+  TransactionIO,
+  TransactionMetadatum
+} from './providers/types';
+import { toAssets } from './providers/util';
+
+// Ledger predicate failures the emulator reports, named as in the Conway ledger rules
+export type LedgerRule =
+  | 'BadInputsUTxO'
+  | 'OutsideValidityIntervalUTxO'
+  | 'ValueNotConservedUTxO'
+  | 'FeeTooSmallUTxO'
+  | 'MissingVKeyWitnessesUTXOW'
+  | 'InvalidWitnessesUTXOW'
+  | 'NoCollateralInputs'
+  | 'InsufficientCollateral'
+  | 'ExUnitsTooBigUTxO'
+  | 'ScriptFailure';
+
+/**
+ * Raised when the emulator rejects a submitted transaction
+ */
+export class LedgerRejectionError extends ChainProviderError {
+  readonly rule: LedgerRule;
+
+  constructor(rule: LedgerRule, message: string) {
+    super('Ledger emulator', `${rule}: ${message}`, 400);
+    this.name = 'LedgerRejectionError';
+    this.rule = rule;
+  }
+}
+
+// Pure-ADA output seeded next to every wallet so it has collateral to offer
+const COLLATERAL_LOVELACE = 5_000_000;
+
+const utxoKey = (txHash: string, outputIndex: number | bigint) => `${txHash}#${outputIndex}`;
+
+const addAssets = (totals: Map<string, bigint>, assets: Asset[]) => {
+  assets.forEach(asset => totals.set(asset.unit, (totals.get(asset.unit) ?? BigInt(0)) + BigInt(asset.quantity)));
+};
+
+const lovelaceOf = (utxo: UTxO) =>
+  BigInt(utxo.output.amount.find(asset => asset.unit === 'lovelace')?.quantity ?? '0');
+
+/**
+ * Convert core metadatum values into the JSON shape the chain providers return
+ */
+const metadatumToJson = (metadatum: unknown): unknown => {
+  if (typeof metadatum === 'bigint') {
+    return Number.isSafeInteger(Number(metadatum)) ? Number(metadatum) : metadatum.toString();
+  }
+  if (metadatum instanceof Uint8Array) {
+    return Array.from(metadatum, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+  if (Array.isArray(metadatum)) {
+    return metadatum.map(metadatumToJson);
+  }
+  if (metadatum instanceof Map) {
+    return Object.fromEntries(
+      Array.from(metadatum, ([key, value]) => [String(metadatumToJson(key)), metadatumToJson(value)])
+    );
+  }
+  return metadatum;
+};
+
+const unsupported = (method: string) => async (): Promise<never> => {
+  throw new ChainProviderError('Ledger emulator', `${method} is not supported`, 501);
+};
+
+export class LedgerEmulator extends MemoryChainProvider {
+  readonly name: string = 'Ledger emulator';
+  private genesisOutputs = 0;
+  private readonly evaluator: core.OfflineEvaluatorScalus;
+
+  constructor(network: CardanoNetwork = 'preprod', protocolParameters?: Protocol) {
+    // Start at the current wall-clock slot so POSIX validity ranges line up
+    const now = Date.now();
+    super(network, {
+      protocolParameters,
+      tip: {
+        hash: '00'.repeat(32),
+        height: 0,
+        slot: unixTimeToEnclosingSlot(now, SLOT_CONFIG_NETWORK[network]),
+        epoch: resolveEpochNo(network, now),
+        time: Math.floor(now / 1000)
+      }
+    });
+    this.evaluator = new core.OfflineEvaluatorScalus(this.fetcher(), network);
+  }
+
+  get networkId(): 0 | 1 {
+    return this.network === 'mainnet' ? 1 : 0;
+  }
+
+  /**
+   * Mesh fetcher view of the ledger, for wallets and the script evaluator
+   */
+  fetcher(): IFetcher {
+    return {
+      fetchAddressUTxOs: async (address: string, asset?: string) =>
+        this.utxos.filter(utxo =>
+          utxo.output.address === address && (!asset || utxo.output.amount.some(a => a.unit === asset))
+        ),
+      fetchUTxOs: async (txHash: string, index?: number) =>
+        this.utxos.filter(utxo =>
+          utxo.input.txHash === txHash && (index === undefined || utxo.input.outputIndex === index)
+        ),
+      fetchProtocolParameters: async () => this.protocolParameters,
+      fetchAccountInfo: unsupported('fetchAccountInfo'),
+      fetchAddressTxs: unsupported('fetchAddressTxs'),
+      fetchAssetAddresses: unsupported('fetchAssetAddresses'),
+      fetchAssetMetadata: unsupported('fetchAssetMetadata'),
+      fetchBlockInfo: unsupported('fetchBlockInfo'),
+      fetchCollectionAssets: unsupported('fetchCollectionAssets'),
+      fetchCostModels: unsupported('fetchCostModels'),
+      fetchTxInfo: unsupported('fetchTxInfo'),
+      fetchGovernanceProposal: unsupported('fetchGovernanceProposal'),
+      get: unsupported('get')
+    };
+  }
+
+  /**
+   * Create an output out of thin air, as if it were in the genesis block
+   */
+  seedUtxo(address: string, amount: Asset[]): UTxO {
+    const utxo: UTxO = {
+      input: { txHash: (++this.genesisOutputs).toString(16).padStart(64, '0'), outputIndex: 0 },
+      output: { address, amount }
+    };
+    this.addUtxo(utxo);
+    return utxo;
+  }
+
+  /**
+   * A fresh signing wallet funded with `lovelace` plus a collateral output
+   */
+  async createWallet(lovelace: number = 1_000_000_000): Promise<MeshWallet> {
+    const wallet = new MeshWallet({
+      networkId: this.networkId,
+      key: { type: 'mnemonic', words: MeshWallet.brew() as string[] },
+      fetcher: this.fetcher(),
+      submitter: this
+    });
+    await wallet.init();
+
+    const address = await wallet.getChangeAddress();
+    this.seedUtxo(address, toAssets(lovelace));
+    this.seedUtxo(address, toAssets(COLLATERAL_LOVELACE));
+    return wallet;
+  }
+
+  /**
+   * Move the chain forward, producing one empty block
+   */
+  advanceSlots(slots: number): ChainTip {
+    const slot = this.tip.slot + slots;
+    const slotConfig = SLOT_CONFIG_NETWORK[this.network];
+    const time = slotToBeginUnixTime(slot, slotConfig);
+
+    this.tip = {
+      hash: (this.tip.height + 1).toString(16).padStart(64, '0'),
+      height: this.tip.height + 1,
+      slot,
+      epoch: resolveEpochNo(this.network, time),
+      time: Math.floor(time / 1000)
+    };
+    return this.tip;
+  }
+
+  private resolveInputs(inputs: readonly core.TransactionInput[]): UTxO[] {
+    return inputs.map(input => {
+      const key = utxoKey(input.transactionId(), input.index());
+      const utxo = this.utxos.find(u => utxoKey(u.input.txHash, u.input.outputIndex) === key);
+      if (!utxo) {
+        throw new LedgerRejectionError('BadInputsUTxO', `${key} is not in the UTxO set`);
+      }
+      return utxo;
+    });
+  }
+
+  /**
+   * Validate a signed transaction against the current ledger and, when it
+   * passes, apply it in a new block one slot later
+   */
+  async submitTx(txCbor: string): Promise<string> {
+    const tx = core.deserializeTx(txCbor);
+    const body = tx.body();
+    const witnesses = tx.witnessSet();
+    const txHash = tx.getId();
+    const { slot } = this.tip;
+
+    const inputs = this.resolveInputs(body.inputs().values());
+    const collateral = this.resolveInputs(body.collateral()?.values() ?? []);
+    const referenceInputs = this.resolveInputs(body.referenceInputs()?.values() ?? []);
+
+    // Validity interval: [invalid_before, invalid_hereafter)
+    const invalidBefore = body.validityStartInterval();
+    const invalidHereafter = body.ttl();
+    if ((invalidBefore !== undefined && slot < Number(invalidBefore)) ||
+        (invalidHereafter !== undefined && slot >= Number(invalidHereafter))) {
+      throw new LedgerRejectionError(
+        'OutsideValidityIntervalUTxO',
+        `slot ${slot} is outside [${invalidBefore ?? '-∞'}, ${invalidHereafter ?? '∞'})`
+      );
+    }
+
+    // Every vkey witness must sign the body, and every key the body depends on must have signed
+    const signers = new Set<string>();
+    for (const witness of witnesses.vkeys()?.values() ?? []) {
+      const publicKey = core.Ed25519PublicKey.fromHex(witness.vkey());
+      if (!publicKey.verify(core.Ed25519Signature.fromHex(witness.signature()), core.HexBlob(txHash))) {
+        throw new LedgerRejectionError('InvalidWitnessesUTXOW', `bad signature from ${publicKey.hash().hex()}`);
+      }
+      signers.add(publicKey.hash().hex());
+    }
+    const requiredSigners = new Set<string>(body.requiredSigners()?.values().map(signer => signer.value()) ?? []);
+    [...inputs, ...collateral].forEach(utxo => {
+      const { pubKeyHash } = deserializeAddress(utxo.output.address);
+      if (pubKeyHash) requiredSigners.add(pubKeyHash);
+    });
+    const missing = Array.from(requiredSigners).filter(keyHash => !signers.has(keyHash));
+    if (missing.length > 0) {
+      throw new LedgerRejectionError('MissingVKeyWitnessesUTXOW', `missing signatures from ${missing.join(', ')}`);
+    }
+
+    // Outputs, keyed by their position in the body
+    const outputs = body.outputs().map((output, index) =>
+      core.fromTxUnspentOutput(
+        new core.TransactionUnspentOutput(new core.TransactionInput(core.TransactionId(txHash), BigInt(index)), output)
+      )
+    );
+
+    // Consumed (inputs + mint) must equal produced (outputs + fee)
+    const fee = body.fee();
+    const balance = new Map<string, bigint>();
+    inputs.forEach(utxo => addAssets(balance, utxo.output.amount));
+    body.mint()?.forEach((quantity, unit) => balance.set(unit, (balance.get(unit) ?? BigInt(0)) + quantity));
+    outputs.forEach(utxo => addAssets(balance, utxo.output.amount.map(a => ({ ...a, quantity: `-${a.quantity}` }))));
+    balance.set('lovelace', (balance.get('lovelace') ?? BigInt(0)) - fee);
+    const unbalanced = Array.from(balance).filter(([, quantity]) => quantity !== BigInt(0));
+    if (unbalanced.length > 0) {
+      throw new LedgerRejectionError(
+        'ValueNotConservedUTxO',
+        unbalanced.map(([unit, quantity]) => `${unit} off by ${quantity}`).join(', ')
+      );
+    }
+
+    // Linear fee plus the declared script execution units
+    const redeemers = witnesses.redeemers()?.values() ?? [];
+    const declared = redeemers.reduce(
+      (total, redeemer) => ({
+        mem: total.mem + Number(redeemer.exUnits().mem()),
+        steps: total.steps + Number(redeemer.exUnits().steps())
+      }),
+      { mem: 0, steps: 0 }
+    );
+    const { minFeeA, minFeeB, priceMem, priceStep, collateralPercent } = this.protocolParameters;
+    const minFee = BigInt(
+      minFeeA * (txCbor.length / 2) + minFeeB + Math.ceil(priceMem * declared.mem + priceStep * declared.steps)
+    );
+    if (fee < minFee) {
+      throw new LedgerRejectionError('FeeTooSmallUTxO', `fee ${fee} is below the minimum ${minFee}`);
+    }
+
+    if (redeemers.length > 0) {
+      if (collateral.length === 0) {
+        throw new LedgerRejectionError('NoCollateralInputs', 'a script transaction must provide collateral');
+      }
+      const collateralLovelace = collateral.reduce((total, utxo) => total + lovelaceOf(utxo), BigInt(0));
+      if (collateralLovelace * BigInt(100) < fee * BigInt(collateralPercent)) {
+        throw new LedgerRejectionError(
+          'InsufficientCollateral',
+          `${collateralLovelace} lovelace of collateral is below ${collateralPercent}% of the fee`
+        );
+      }
+
+      // Phase 2: run every script against the declared budgets
+      let results;
+      try {
+        results = await this.evaluator.evaluateTx(txCbor, [...inputs, ...referenceInputs, ...collateral]);
+      } catch (error) {
+        // The evaluator rejects with plain objects carrying a message and the script trace
+        const { message } = error as { message?: string };
+        throw new LedgerRejectionError('ScriptFailure', message ?? JSON.stringify(error));
+      }
+      for (const result of results) {
+        const redeemer = redeemers.find(r =>
+          Number(r.index()) === result.index &&
+          core.RedeemerTag[r.tag()].toUpperCase() === result.tag.toUpperCase()
+        );
+        if (redeemer && (result.budget.mem > Number(redeemer.exUnits().mem()) ||
+                         result.budget.steps > Number(redeemer.exUnits().steps()))) {
+          throw new LedgerRejectionError(
+            'ExUnitsTooBigUTxO',
+            `${result.tag} ${result.index} needs ${result.budget.mem} mem / ${result.budget.steps} steps`
+          );
+        }
+      }
+    }
+
+    // Apply: consume the inputs, produce the outputs and record the block
+    const spent = new Set(inputs.map(utxo => utxoKey(utxo.input.txHash, utxo.input.outputIndex)));
+    this.utxos = this.utxos.filter(utxo => !spent.has(utxoKey(utxo.input.txHash, utxo.input.outputIndex)));
+    this.utxos.push(...outputs);
+    const block = this.advanceSlots(1);
+
+    const toIO = (utxo: UTxO, flags: Partial<TransactionIO> = {}): TransactionIO => ({
+      address: utxo.output.address,
+      amount: utxo.output.amount,
+      txHash: utxo.input.txHash,
+      outputIndex: utxo.input.outputIndex,
+      ...flags
+    });
+    const metadata: TransactionMetadatum[] = Array.from(
+      tx.auxiliaryData()?.metadata()?.metadata() ?? new Map<bigint, core.TransactionMetadatum>(),
+      ([label, metadatum]) => ({ label: label.toString(), json: metadatumToJson(metadatum.toCore()) })
+    );
+    const outputAmount = new Map<string, bigint>();
+    outputs.forEach(utxo => addAssets(outputAmount, utxo.output.amount));
+
+    this.addTransaction({
+      details: {
+        hash: txHash,
+        blockHeight: block.height,
+        blockTime: block.time,
+        slot: block.slot,
+        fees: fee.toString(),
+        outputAmount: Array.from(outputAmount, ([unit, quantity]) => ({ unit, quantity: quantity.toString() })),
+        size: txCbor.length / 2,
+        invalidBefore: invalidBefore?.toString(),
+        invalidHereafter: invalidHereafter?.toString(),
+        validContract: true
+      },
+      utxos: {
+        hash: txHash,
+        inputs: [
+          ...inputs.map(utxo => toIO(utxo)),
+          ...collateral.map(utxo => toIO(utxo, { collateral: true })),
+          ...referenceInputs.map(utxo => toIO(utxo, { reference: true }))
+        ],
+        outputs: outputs.map(utxo => toIO(utxo))
+      },
+      metadata
+    });
+
+    this.submitted.push(txHash);
+    return txHash;
+  }
+}
@@ -1,37 +1,111 @@
-import { Transaction } from '@meshsdk/core';
+import {
+  SLOT_CONFIG_NETWORK,
+  Transaction,
+  applyCborEncoding,
+  getOutputMinLovelace,
+  pubKeyAddress,
+  resolveScriptHash,
+  serializeAddressObj,
+  slotToBeginUnixTime,
+  unixTimeToEnclosingSlot
+} from '@meshsdk/core';
+import type { Asset, IWallet, PlutusScript, UTxO } from '@meshsdk/core';
+import blueprint from '../../../escrow-dapp/plutus.json';
+import { parseAddress, paymentKeyHash, scriptAddress } from './address';
+import { encryptMessage, encryptedMessageMetadata, messageMetadata } from './messageMetadata';
+import { TX_METADATA_LABEL, encodeTxMetadata, readTxMetadata, txMessageText } from './txMetadata';
+import type { CardanoNetwork } from './providers';
+import { withStage } from './txErrors';
+import {
+  EscrowDatum,
+  EscrowRedeemer,
+  Milestone,
+  encodeEscrowDatum,
+  escrowDatumToData,
+  escrowRedeemerToData
+} from './blueprint.generated';
+import {
+  ESCROW_ACTION_LABELS,
+  EscrowAction,
+  EscrowActionDetails,
+  applyEscrowAction,
+  assertCanPerform,
+  releasableMilestones,
+  resolveEscrowRole
+} from './escrowStateMachine';
 
-// For our simplified implementation, we'll use a generic wallet interface
-interface WalletInterface {
-  getBalance(): Promise<any[]>;
-  signTx(tx: string): Promise<string>;
-  submitTx(tx: string): Promise<string>;
+// On-chain types and codecs are generated from plutus.json (`npm run blueprint`)
+export type { Dispute, EscrowDatum, EscrowRedeemer, Milestone } from './blueprint.generated';
+export {
+  escrowDatumToData,
+  escrowDatumFromData,
+  encodeEscrowDatum,
+  decodeEscrowDatum,
+  escrowRedeemerToData,
+  escrowRedeemerFromData,
+  encodeEscrowRedeemer,
+  decodeEscrowRedeemer
+} from './blueprint.generated';
+export { PlutusDataError } from './plutusData';
+
+// Blueprint entry of the compiled Aiken spend validator
+const ESCROW_VALIDATOR_TITLE = 'escrow.escrow.spend';
+
+const escrowValidator = blueprint.validators.find(
+  validator => validator.title === ESCROW_VALIDATOR_TITLE
+);
+
+if (!escrowValidator) {
+  throw new Error(`Validator ${ESCROW_VALIDATOR_TITLE} not found in plutus.json`);
+}
+
+// Script hash of the compiled Aiken contract, computed from the code rather than trusted from the blueprint
+export const ESCROW_SCRIPT_HASH = resolveScriptHash(applyCborEncoding(escrowValidator.compiledCode), 'V3');
+
+// Reference to the UTxO holding the locked funds at the script address
+export interface EscrowOutRef {
+  txHash: string;
+  outputIndex: number;
+}
+
+// The script output is added first; Mesh appends change after it
+const ESCROW_OUTPUT_INDEX = 0;
+
+// An escrow UTxO at the script address together with its decoded inline datum
+export interface EscrowUtxo {
+  utxo: UTxO;
+  datum: EscrowDatum;
+  network: CardanoNetwork; // the chain it lives on, whose slot config turns deadlines into validity bounds
 }
 
-// Script hash from compiled Aiken contract
-export const ESCROW_SCRIPT_HASH = "e2f6b2374df355cee1a026b62530c0e02be09fd3dc6b6d013c33c22a";
-
-// Escrow data structure matching Aiken contract
-export interface EscrowDatum {
-  sender: string;
-  receiver: string;
-  amount: number; // in lovelace
-  message: string;
-  category: string;
-  transaction_id: string;
-  timestamp: number;
-  sender_confirmed: boolean;
-  receiver_confirmed: boolean;
+// Deadlines of an escrow, as POSIX time in milliseconds
+export interface EscrowDeadlines {
+  refundDeadline: number; // the sender may reclaim unconfirmed funds from here on
+  autoReleaseDeadline?: number; // a confirmed receiver may release without the sender from here on
 }
 
-// Escrow actions matching Aiken contract
-export enum EscrowRedeemer {
-  InitiateTransfer = 0,
-  ConfirmSender = 1,
-  ConfirmReceiver = 2,
-  Release = 3,
-  Refund = 4
+// Redeemers that spend an escrow UTxO
+type EscrowSpendRedeemer = Exclude<EscrowRedeemer, { type: 'InitiateTransfer' }>;
+
+// Actions whose builders need input beyond the escrow itself
+export type EscrowActionWithInput = 'OpenDispute' | 'Resolve' | 'ReleaseMilestone';
+
+// A stage of a milestone escrow as entered by the sender
+export interface MilestoneInput {
+  description: string;
+  amount: number; // lovelace
+  deadline?: number; // POSIX ms; the receiver may release the stage from here on
 }
 
+// Native tokens locked in the datum: policy id -> asset name -> quantity
+export type EscrowTokens = EscrowDatum['tokens'];
+
+// Smallest stage we accept, so each payout can stand as its own output
+export const MIN_MILESTONE_LOVELACE = 1_000_000;
+
+// How long the receiver has to confirm before the sender can reclaim the funds
+export const DEFAULT_REFUND_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
 // Transaction categories
 export const TRANSACTION_CATEGORIES = [
   'Food',
@@ -45,34 +119,179 @@ export const TRANSACTION_CATEGORIES = [
   'Other'
 ];
 
-// Helper function to convert string to hex
+// Helper function to convert string to hex (UTF-8, as stored in ByteArray fields)
 export const stringToHex = (str: string): string => {
-  return Array.from(str)
-    .map(c => c.charCodeAt(0).toString(16).padStart(2, '0'))
+  return Array.from(new TextEncoder().encode(str))
+    .map(b => b.toString(16).padStart(2, '0'))
     .join('');
 };
 
 // Helper function to convert hex to string
 export const hexToString = (hex: string): string => {
-  let str = '';
-  for (let i = 0; i < hex.length; i += 2) {
-    str += String.fromCharCode(parseInt(hex.substr(i, 2), 16));
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
   }
-  return str;
+  return new TextDecoder().decode(bytes);
 };
 
 /**
- * Create a new escrow transaction (simplified version)
- * This version sends ADA directly to a script address with metadata
+ * Load the escrow spend validator from plutus.json as a Plutus V3 script
  */
-export const createEscrowTransaction = async (
-  wallet: WalletInterface,
+export const getEscrowValidator = (): PlutusScript => {
+  return {
+    code: applyCborEncoding(escrowValidator.compiledCode),
+    version: 'V3'
+  };
+};
+
+/**
+ * Derive the escrow script address for a network (0 = testnet, 1 = mainnet)
+ */
+export const getEscrowScriptAddress = (networkId: number): string => {
+  return scriptAddress(ESCROW_SCRIPT_HASH, networkId === 1 ? 'mainnet' : 'preprod');
+};
+
+/**
+ * Deadlines for an escrow created at `now`: refundable after the default window, no auto-release
+ */
+export const defaultEscrowDeadlines = (now: number = Date.now()): EscrowDeadlines => ({
+  refundDeadline: now + DEFAULT_REFUND_WINDOW_MS
+});
+
+/**
+ * Round deadlines down to whole seconds so they fall on slot boundaries, and
+ * reject ones that have already passed
+ */
+const normalizeDeadlines = (deadlines: EscrowDeadlines, now: number): EscrowDeadlines => {
+  const toSecond = (time: number) => Math.floor(time / 1000) * 1000;
+  const refundDeadline = toSecond(deadlines.refundDeadline);
+  const autoReleaseDeadline =
+    deadlines.autoReleaseDeadline === undefined ? undefined : toSecond(deadlines.autoReleaseDeadline);
+
+  if (refundDeadline <= now) {
+    throw new Error('Refund deadline must be in the future');
+  }
+  if (autoReleaseDeadline !== undefined && autoReleaseDeadline <= now) {
+    throw new Error('Auto-release deadline must be in the future');
+  }
+  return { refundDeadline, autoReleaseDeadline };
+};
+
+/**
+ * Check the stages add up to the locked amount and encode them for the datum
+ */
+const toMilestones = (milestones: MilestoneInput[], amount: number, now: number): Milestone[] => {
+  if (milestones.length === 0) return [];
+
+  const total = milestones.reduce((sum, milestone) => sum + milestone.amount, 0);
+  if (total !== amount) {
+    throw new Error(`Milestones add up to ${total} lovelace but ${amount} is being locked`);
+  }
+
+  return milestones.map((milestone, index) => {
+    if (!milestone.description.trim()) {
+      throw new Error(`Milestone ${index + 1} needs a description`);
+    }
+    if (milestone.amount < MIN_MILESTONE_LOVELACE) {
+      throw new Error(`Milestone ${index + 1} must be at least ${formatADA(MIN_MILESTONE_LOVELACE)} ADA`);
+    }
+    const deadline = milestone.deadline === undefined ? null : Math.floor(milestone.deadline / 1000) * 1000;
+    if (deadline !== null && deadline <= now) {
+      throw new Error(`Milestone ${index + 1} deadline must be in the future`);
+    }
+    return {
+      description: stringToHex(milestone.description.trim()),
+      amount: BigInt(milestone.amount),
+      deadline: deadline === null ? null : BigInt(deadline),
+      released: false
+    };
+  });
+};
+
+/**
+ * First slot starting at or after a POSIX time (ms), for validity lower bounds
+ */
+const slotAtOrAfter = (time: bigint, network: CardanoNetwork): string => {
+  const config = SLOT_CONFIG_NETWORK[network];
+  const slot = unixTimeToEnclosingSlot(Number(time), config);
+  return (slotToBeginUnixTime(slot, config) < Number(time) ? slot + 1 : slot).toString();
+};
+
+/**
+ * Last slot starting at or before a POSIX time (ms), for exclusive validity upper bounds
+ */
+const slotAtOrBefore = (time: bigint, network: CardanoNetwork): string =>
+  unixTimeToEnclosingSlot(Number(time), SLOT_CONFIG_NETWORK[network]).toString();
+
+/**
+ * Group native assets by policy for the datum, summing repeated units
+ */
+export const toEscrowTokens = (tokens: Asset[]): EscrowTokens => {
+  const grouped: EscrowTokens = new Map();
+  for (const { unit, quantity } of tokens) {
+    if (unit === 'lovelace') continue;
+    const policyId = unit.slice(0, 56);
+    const assetName = unit.slice(56);
+    const names = grouped.get(policyId) ?? new Map<string, bigint>();
+    names.set(assetName, (names.get(assetName) ?? BigInt(0)) + BigInt(quantity));
+    grouped.set(policyId, names);
+  }
+  return grouped;
+};
+
+/**
+ * The native assets recorded in an escrow datum, as Mesh assets
+ */
+export const fromEscrowTokens = (tokens: EscrowTokens): Asset[] =>
+  Array.from(tokens.entries()).flatMap(([policyId, names]) =>
+    Array.from(names.entries()).map(([assetName, quantity]) => ({
+      unit: policyId + assetName,
+      quantity: quantity.toString()
+    }))
+  );
+
+/**
+ * Lovelace an output needs to carry `assets` (plus an optional inline datum) to the address
+ */
+const minLovelaceFor = (address: string, assets: Asset[], datum?: EscrowDatum): bigint =>
+  getOutputMinLovelace({
+    address,
+    amount: assets,
+    ...(datum && { datum: { type: 'Inline', data: { type: 'CBOR', content: encodeEscrowDatum(datum) } } })
+  });
+
+/**
+ * Get the payment key hash of a key-based address, as the escrow datum records it.
+ * Throws an `AddressError` for script, reward and Byron addresses.
+ */
+export const getPaymentKeyHash = (address: string): string => paymentKeyHash(address);
+
+/**
+ * Build a new escrow transaction, unsigned
+ * Locks the lovelace, and any native tokens, at the escrow script address with an inline datum.
+ * With a passphrase the message is encrypted in both the datum and the label 674 metadata.
+ */
+export const buildEscrowTransaction = async (
+  wallet: IWallet,
   recipientAddress: string,
   amount: number,
   message: string,
-  category: string = 'Other'
-): Promise<string> => {
+  category: string = 'Other',
+  deadlines: EscrowDeadlines = defaultEscrowDeadlines(),
+  arbiterAddress?: string,
+  milestones: MilestoneInput[] = [],
+  tokens: Asset[] = [],
+  passphrase?: string
+): Promise<{unsignedTx: string, escrowData: EscrowDatum}> => {
   try {
+    const { refundDeadline, autoReleaseDeadline } = normalizeDeadlines(deadlines, Date.now());
+    const stages = toMilestones(milestones, amount, Date.now());
+    const lockedTokens = toEscrowTokens(tokens);
+    if (stages.length > 0 && lockedTokens.size > 0) {
+      throw new Error('Milestone escrows can only lock ADA');
+    }
+
     const senderAddresses = await wallet.getUsedAddresses();
     const senderAddress = senderAddresses[0];
     
@@ -80,60 +299,467 @@ export const createEscrowTransaction = async (
       throw new Error('No sender address found');
     }
 
+    // Derive the script address for the network the wallet is on
+    const networkId = await wallet.getNetworkId();
+    const scriptAddress = getEscrowScriptAddress(networkId);
+
     // Generate unique transaction ID
     const transactionId = `escrow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const note = passphrase ? await encryptMessage(message, passphrase) : message;
     
     // Create escrow data for metadata
     const escrowData: EscrowDatum = {
-      sender: senderAddress,
-      receiver: recipientAddress,
-      amount: amount,
-      message: message,
-      category: category,
-      transaction_id: transactionId,
-      timestamp: Math.floor(Date.now() / 1000),
+      sender: getPaymentKeyHash(senderAddress),
+      receiver: getPaymentKeyHash(recipientAddress),
+      amount: BigInt(amount),
+      message: stringToHex(note),
+      category: stringToHex(category),
+      transaction_id: stringToHex(transactionId),
+      timestamp: BigInt(Math.floor(Date.now() / 1000)),
       sender_confirmed: false,
-      receiver_confirmed: false
+      receiver_confirmed: false,
+      refund_deadline: BigInt(refundDeadline),
+      auto_release_deadline: autoReleaseDeadline === undefined ? null : BigInt(autoReleaseDeadline),
+      arbiter: arbiterAddress ? getPaymentKeyHash(arbiterAddress) : null,
+      dispute: null,
+      milestones: stages,
+      tokens: lockedTokens
     };
 
+    if (escrowData.arbiter === escrowData.sender || escrowData.arbiter === escrowData.receiver) {
+      throw new Error('The arbiter must be a third party, not the sender or receiver');
+    }
+
+    // The datum records exactly the locked lovelace, so it has to cover the output's min ADA itself
+    const value: Asset[] = [{ unit: 'lovelace', quantity: amount.toString() }, ...fromEscrowTokens(lockedTokens)];
+    const minLovelace = minLovelaceFor(scriptAddress, value, escrowData);
+    if (BigInt(amount) < minLovelace) {
+      throw new Error(`Lock at least ${formatADA(Number(minLovelace))} ADA to carry this datum and these tokens`);
+    }
+
     // Build transaction
     const tx = new Transaction({ initiator: wallet });
     
-    // For now, send directly to recipient with escrow metadata
-    // In a full implementation, this would go to the script address
+    // Lock the funds at the script address with the datum inlined
     tx.sendAssets(
-      recipientAddress,
-      [
-        {
-          unit: 'lovelace',
-          quantity: amount.toString()
+      {
+        address: scriptAddress,
+        datum: {
+          value: escrowDatumToData(escrowData),
+          inline: true
         }
-      ]
+      },
+      value
     );
 
     // Set transaction metadata for tracking escrow
-    tx.setMetadata(721, {
+    // Key hashes keep the party fields within the 64-byte metadata string limit
+    tx.setMetadata(TX_METADATA_LABEL, encodeTxMetadata({
+      type: 'escrow',
+      message: passphrase ? encryptedMessageMetadata(note) : messageMetadata(note),
+      category,
+      timestamp: Number(escrowData.timestamp),
       escrow: {
-        transaction_id: transactionId,
-        sender: senderAddress,
-        receiver: recipientAddress,
-        amount: amount,
-        message: message,
-        category: category,
-        timestamp: escrowData.timestamp,
-        action: 'create',
-        status: 'pending'
+        id: transactionId,
+        action: 'Create',
+        sender: escrowData.sender,
+        receiver: escrowData.receiver,
+        amount,
+        refundDeadline,
+        autoReleaseDeadline,
+        arbiter: escrowData.arbiter ?? undefined,
+        milestones: milestones.map(m => m.amount)
       }
-    });
+    }));
 
-    // Build and sign transaction
-    const unsignedTx = await tx.build();
-    const signedTx = await wallet.signTx(unsignedTx);
-    const txHash = await wallet.submitTx(signedTx);
+    return { unsignedTx: await tx.build(), escrowData };
+  } catch (error) {
+    console.error('Error building escrow transaction:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new escrow transaction: build it as buildEscrowTransaction does, then sign and submit it
+ */
+export const createEscrowTransaction = async (
+  wallet: IWallet,
+  recipientAddress: string,
+  amount: number,
+  message: string,
+  category: string = 'Other',
+  deadlines: EscrowDeadlines = defaultEscrowDeadlines(),
+  arbiterAddress?: string,
+  milestones: MilestoneInput[] = [],
+  tokens: Asset[] = [],
+  passphrase?: string
+): Promise<{txHash: string, outRef: EscrowOutRef, escrowData: EscrowDatum}> => {
+  const { unsignedTx, escrowData } = await buildEscrowTransaction(
+    wallet,
+    recipientAddress,
+    amount,
+    message,
+    category,
+    deadlines,
+    arbiterAddress,
+    milestones,
+    tokens,
+    passphrase
+  );
+  const txHash = await submitEscrowTransaction(wallet, unsignedTx);
+  return { txHash, outRef: escrowOutRef(txHash), escrowData };
+};
+
+/**
+ * Where a transaction built by buildEscrowTransaction locks the escrow
+ */
+export const escrowOutRef = (txHash: string): EscrowOutRef => ({ txHash, outputIndex: ESCROW_OUTPUT_INDEX });
+
+/**
+ * Collect the payment key hashes of every address the wallet exposes
+ */
+export const getWalletKeyHashes = async (wallet: IWallet): Promise<Set<string>> => {
+  const addresses = [
+    ...(await wallet.getUsedAddresses()),
+    ...(await wallet.getUnusedAddresses()),
+    await wallet.getChangeAddress()
+  ];
+
+  const keyHashes = new Set<string>();
+  for (const address of addresses) {
+    try {
+      const { paymentCredential } = parseAddress(address);
+      if (paymentCredential?.type === 'key') keyHashes.add(paymentCredential.hash);
+    } catch (error) {
+      console.error(`Error reading payment key hash of ${address}:`, error);
+    }
+  }
+  return keyHashes;
+};
+
+/**
+ * Find the wallet address controlled by a payment key hash, if any
+ */
+const findWalletAddress = async (wallet: IWallet, keyHash: string): Promise<string | undefined> => {
+  const addresses = [
+    ...(await wallet.getUsedAddresses()),
+    await wallet.getChangeAddress()
+  ];
+  return addresses.find(address => parseAddress(address).paymentCredential?.hash === keyHash);
+};
 
-    return txHash;
+/**
+ * Resolve where a party's payout goes: one of the connected wallet's own
+ * addresses if it holds the key, otherwise the enterprise address of the key hash
+ */
+const resolvePayoutAddress = async (
+  wallet: IWallet,
+  keyHash: string,
+  networkId: number
+): Promise<string> => {
+  const walletAddress = await findWalletAddress(wallet, keyHash);
+  return walletAddress ?? serializeAddressObj(pubKeyAddress(keyHash), networkId);
+};
+
+/**
+ * Start a script spend of the escrow UTxO with collateral attached,
+ * after checking the state machine allows the action for this wallet at `now`
+ */
+const spendEscrow = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  redeemer: EscrowSpendRedeemer,
+  now: number
+): Promise<Transaction> => {
+  const action = redeemer.type;
+  const role = resolveEscrowRole(escrow.datum, await getWalletKeyHashes(wallet));
+  assertCanPerform(escrow.datum, action, role, now);
+
+  const collateral = await wallet.getCollateral();
+  if (collateral.length === 0) {
+    throw new Error('No collateral set in wallet. Enable collateral to interact with the escrow contract.');
+  }
+
+  const tx = new Transaction({ initiator: wallet });
+  tx.redeemValue({
+    value: escrow.utxo,
+    script: getEscrowValidator(),
+    redeemer: { data: escrowRedeemerToData(redeemer) }
+  });
+  tx.setCollateral(collateral);
+  // Link the spend to its escrow, so histories can show what happened to it
+  tx.setMetadata(TX_METADATA_LABEL, encodeTxMetadata({
+    type: 'escrow',
+    message: messageMetadata(`Escrow: ${ESCROW_ACTION_LABELS[action]}`),
+    category: hexToString(escrow.datum.category),
+    timestamp: Math.floor(now / 1000),
+    escrow: { id: hexToString(escrow.datum.transaction_id), action }
+  }));
+  return tx;
+};
+
+/**
+ * Re-lock the escrow value (all of it unless `value` is given) at the script
+ * address with the datum after the action
+ */
+const relockEscrow = async (
+  wallet: IWallet,
+  tx: Transaction,
+  escrow: EscrowUtxo,
+  action: EscrowAction,
+  details: EscrowActionDetails = {},
+  value: Asset[] = escrow.utxo.output.amount
+) => {
+  const datum = applyEscrowAction(escrow.datum, action, details);
+  if (!datum) {
+    throw new Error(`${action} closes the escrow and has no continuing output`);
+  }
+
+  const scriptAddress = getEscrowScriptAddress(await wallet.getNetworkId());
+  tx.sendAssets(
+    {
+      address: scriptAddress,
+      datum: {
+        value: escrowDatumToData(datum),
+        inline: true
+      }
+    },
+    value
+  );
+};
+
+/**
+ * The escrow's locked value less some lovelace
+ */
+const deductLovelace = (amount: Asset[], lovelace: bigint): Asset[] =>
+  amount.map(asset =>
+    asset.unit === 'lovelace'
+      ? { unit: 'lovelace', quantity: (BigInt(asset.quantity) - lovelace).toString() }
+      : asset
+  );
+
+/**
+ * Build the sender's confirmation (ConfirmSender)
+ * Returns the unsigned transaction
+ */
+export const buildConfirmSenderTx = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  now: number = Date.now()
+): Promise<string> => {
+  const tx = await spendEscrow(wallet, escrow, { type: 'ConfirmSender' }, now);
+  tx.txBuilder.requiredSignerHash(escrow.datum.sender);
+  await relockEscrow(wallet, tx, escrow, 'ConfirmSender');
+
+  return tx.build();
+};
+
+/**
+ * Build the receiver's confirmation (ConfirmReceiver), valid only until the refund deadline
+ * Returns the unsigned transaction
+ */
+export const buildConfirmReceiverTx = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  now: number = Date.now()
+): Promise<string> => {
+  const tx = await spendEscrow(wallet, escrow, { type: 'ConfirmReceiver' }, now);
+  tx.txBuilder.requiredSignerHash(escrow.datum.receiver);
+  tx.setTimeToExpire(slotAtOrBefore(escrow.datum.refund_deadline, escrow.network));
+  await relockEscrow(wallet, tx, escrow, 'ConfirmReceiver');
+
+  return tx.build();
+};
+
+/**
+ * Build the release of the locked value to the receiver (Release)
+ * Without the sender's confirmation the transaction only becomes valid at the auto-release deadline.
+ * Returns the unsigned transaction
+ */
+export const buildReleaseTx = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  now: number = Date.now()
+): Promise<string> => {
+  const tx = await spendEscrow(wallet, escrow, { type: 'Release' }, now);
+  const networkId = await wallet.getNetworkId();
+  if (!escrow.datum.sender_confirmed && escrow.datum.auto_release_deadline !== null) {
+    tx.setTimeToStart(slotAtOrAfter(escrow.datum.auto_release_deadline, escrow.network));
+  }
+  const receiverAddress = await resolvePayoutAddress(wallet, escrow.datum.receiver, networkId);
+  tx.sendAssets(receiverAddress, escrow.utxo.output.amount);
+
+  return tx.build();
+};
+
+/**
+ * Build the refund of the locked value to the sender (Refund)
+ * Once the sender has confirmed, the transaction only becomes valid at the refund deadline.
+ * Returns the unsigned transaction
+ */
+export const buildRefundTx = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  now: number = Date.now()
+): Promise<string> => {
+  const tx = await spendEscrow(wallet, escrow, { type: 'Refund' }, now);
+  tx.txBuilder.requiredSignerHash(escrow.datum.sender);
+  const networkId = await wallet.getNetworkId();
+  if (escrow.datum.sender_confirmed) {
+    tx.setTimeToStart(slotAtOrAfter(escrow.datum.refund_deadline, escrow.network));
+  }
+  const senderAddress = await resolvePayoutAddress(wallet, escrow.datum.sender, networkId);
+  tx.sendAssets(senderAddress, escrow.utxo.output.amount);
+
+  return tx.build();
+};
+
+/**
+ * Build a dispute opened by the sender or receiver (OpenDispute), handing the escrow to the arbiter
+ * Returns the unsigned transaction
+ */
+export const buildOpenDisputeTx = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  reason: string,
+  now: number = Date.now()
+): Promise<string> => {
+  if (!reason.trim()) {
+    throw new Error('Give a reason for the dispute so the arbiter can assess it');
+  }
+
+  const tx = await spendEscrow(wallet, escrow, { type: 'OpenDispute' }, now);
+  const role = resolveEscrowRole(escrow.datum, await getWalletKeyHashes(wallet));
+  const openedBy = role === 'sender' ? escrow.datum.sender : escrow.datum.receiver;
+  tx.txBuilder.requiredSignerHash(openedBy);
+  await relockEscrow(wallet, tx, escrow, 'OpenDispute', {
+    dispute: {
+      opened_by: openedBy,
+      reason: stringToHex(reason.trim())
+    }
+  });
+
+  return tx.build();
+};
+
+/**
+ * Build the arbiter's resolution of a dispute (Resolve), paying `receiverShare`
+ * lovelace to the receiver and the rest back to the sender. Locked tokens go
+ * whole to the receiver if `tokensToReceiver`, otherwise to the sender.
+ * Returns the unsigned transaction
+ */
+export const buildResolveTx = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  receiverShare: bigint,
+  tokensToReceiver: boolean = false,
+  now: number = Date.now()
+): Promise<string> => {
+  const { datum } = escrow;
+  if (receiverShare < BigInt(0) || receiverShare > datum.amount) {
+    throw new Error(`Receiver share must be between 0 and ${datum.amount} lovelace`);
+  }
+  if (!datum.arbiter) {
+    throw new Error('Escrow has no arbiter');
+  }
+
+  const networkId = await wallet.getNetworkId();
+  const tokens = fromEscrowTokens(datum.tokens);
+  const payouts: [string, bigint, Asset[]][] = [
+    [await resolvePayoutAddress(wallet, datum.receiver, networkId), receiverShare, tokensToReceiver ? tokens : []],
+    [await resolvePayoutAddress(wallet, datum.sender, networkId), datum.amount - receiverShare, tokensToReceiver ? [] : tokens]
+  ];
+
+  // A side getting tokens needs enough lovelace for its output to stand
+  for (const [address, lovelace, assets] of payouts) {
+    if (assets.length === 0) continue;
+    const minLovelace = minLovelaceFor(address, [{ unit: 'lovelace', quantity: lovelace.toString() }, ...assets]);
+    if (lovelace < minLovelace) {
+      throw new Error(`The side receiving the tokens needs at least ${formatADA(Number(minLovelace))} ADA`);
+    }
+  }
+
+  const tx = await spendEscrow(
+    wallet,
+    escrow,
+    { type: 'Resolve', receiver_share: receiverShare, tokens_to_receiver: tokensToReceiver },
+    now
+  );
+  tx.txBuilder.requiredSignerHash(datum.arbiter);
+
+  for (const [address, lovelace, assets] of payouts) {
+    if (lovelace > BigInt(0)) {
+      tx.sendAssets(address, [{ unit: 'lovelace', quantity: lovelace.toString() }, ...assets]);
+    }
+  }
+
+  return tx.build();
+};
+
+/**
+ * Build the payout of one milestone to the receiver (ReleaseMilestone), re-locking the rest
+ * The sender may release any unpaid stage; the receiver only overdue ones, with the
+ * transaction valid from the stage's deadline.
+ * Returns the unsigned transaction
+ */
+export const buildReleaseMilestoneTx = async (
+  wallet: IWallet,
+  escrow: EscrowUtxo,
+  index: number,
+  now: number = Date.now()
+): Promise<string> => {
+  const { datum } = escrow;
+  const role = resolveEscrowRole(datum, await getWalletKeyHashes(wallet));
+  if (!releasableMilestones(datum, role, now).includes(index)) {
+    throw new Error(`Milestone ${index + 1} cannot be released by ${role ?? 'a third party'} now`);
+  }
+
+  const milestone = datum.milestones[index];
+  const tx = await spendEscrow(wallet, escrow, { type: 'ReleaseMilestone', index: BigInt(index) }, now);
+  const networkId = await wallet.getNetworkId();
+  if (role === 'sender') {
+    tx.txBuilder.requiredSignerHash(datum.sender);
+  } else {
+    tx.txBuilder.requiredSignerHash(datum.receiver);
+    tx.setTimeToStart(slotAtOrAfter(milestone.deadline!, escrow.network));
+  }
+
+  const receiverAddress = await resolvePayoutAddress(wallet, datum.receiver, networkId);
+  tx.sendAssets(receiverAddress, [{ unit: 'lovelace', quantity: milestone.amount.toString() }]);
+  if (milestone.amount < datum.amount) {
+    await relockEscrow(
+      wallet,
+      tx,
+      escrow,
+      'ReleaseMilestone',
+      { milestone: index },
+      deductLovelace(escrow.utxo.output.amount, milestone.amount)
+    );
+  }
+
+  return tx.build();
+};
+
+// Builder for each spend action that needs no further input, for UIs that dispatch on nextActions()
+export const ESCROW_ACTION_BUILDERS: Record<
+  Exclude<EscrowAction, EscrowActionWithInput>,
+  (wallet: IWallet, escrow: EscrowUtxo, now?: number) => Promise<string>
+> = {
+  ConfirmSender: buildConfirmSenderTx,
+  ConfirmReceiver: buildConfirmReceiverTx,
+  Release: buildReleaseTx,
+  Refund: buildRefundTx
+};
+
+/**
+ * Sign and submit an escrow spend built by one of the builders above
+ */
+export const submitEscrowTransaction = async (wallet: IWallet, unsignedTx: string): Promise<string> => {
+  try {
+    const signedTx = await withStage('sign', () => wallet.signTx(unsignedTx));
+    return await withStage('submit', () => wallet.submitTx(signedTx));
   } catch (error) {
-    console.error('Error creating escrow transaction:', error);
+    console.error('Error submitting escrow transaction:', error);
     throw error;
   }
 };
@@ -142,7 +768,7 @@ export const createEscrowTransaction = async (
  * Simple transaction with categorization
  */
 export const sendCategorizedTransaction = async (
-  wallet: BrowserWallet,
+  wallet: IWallet,
   recipientAddress: string,
   amount: number,
   message: string,
@@ -161,15 +787,22 @@ export const sendCategorizedTransaction = async (
     
     // Create transaction data
     const escrowData: EscrowDatum = {
-      sender: senderAddress,
-      receiver: recipientAddress,
-      amount: amount,
-      message: message,
-      category: category,
-      transaction_id: transactionId,
-      timestamp: Math.floor(Date.now() / 1000),
+      sender: getPaymentKeyHash(senderAddress),
+      receiver: getPaymentKeyHash(recipientAddress),
+      amount: BigInt(amount),
+      message: stringToHex(message),
+      category: stringToHex(category),
+      transaction_id: stringToHex(transactionId),
+      timestamp: BigInt(Math.floor(Date.now() / 1000)),
       sender_confirmed: true,
-      receiver_confirmed: false
+      receiver_confirmed: false,
+      // A direct transfer settles immediately; there is nothing to refund or release
+      refund_deadline: BigInt(0),
+      auto_release_deadline: null,
+      arbiter: null,
+      dispute: null,
+      milestones: [],
+      tokens: new Map()
     };
 
     // Build transaction
@@ -187,18 +820,12 @@ export const sendCategorizedTransaction = async (
     );
 
     // Set transaction metadata for categorization
-    tx.setMetadata(721, {
-      transaction: {
-        transaction_id: transactionId,
-        sender: senderAddress,
-        receiver: recipientAddress,
-        amount: amount,
-        message: message,
-        category: category,
-        timestamp: escrowData.timestamp,
-        type: 'direct_transfer'
-      }
-    });
+    tx.setMetadata(TX_METADATA_LABEL, encodeTxMetadata({
+      type: 'direct_transfer',
+      message: messageMetadata(message),
+      category,
+      timestamp: Number(escrowData.timestamp)
+    }));
 
     // Build and sign transaction
     const unsignedTx = await tx.build();
@@ -213,29 +840,42 @@ export const sendCategorizedTransaction = async (
 };
 
 /**
- * Get escrow status from transaction metadata
+ * Get escrow status from the metadata of the transaction that created the escrow,
+ * in the current schema or the label 721 record older escrows carry
  */
-export const getEscrowStatus = (metadata: any): EscrowDatum | null => {
-  try {
-    if (metadata && metadata[721] && metadata[721].escrow) {
-      const escrowMeta = metadata[721].escrow;
-      return {
-        sender: escrowMeta.sender,
-        receiver: escrowMeta.receiver,
-        amount: escrowMeta.amount,
-        message: escrowMeta.message,
-        category: escrowMeta.category,
-        transaction_id: escrowMeta.transaction_id,
-        timestamp: escrowMeta.timestamp,
-        sender_confirmed: escrowMeta.status !== 'pending',
-        receiver_confirmed: escrowMeta.action === 'release'
-      };
-    }
-    return null;
-  } catch (error) {
-    console.error('Error parsing escrow status:', error);
+export const getEscrowStatus = (metadata: { label: string; json: unknown }[]): EscrowDatum | null => {
+  const txMetadata = readTxMetadata(metadata);
+  const link = txMetadata?.escrow;
+  if (!txMetadata || link?.action !== 'Create' || !link.sender || !link.receiver || link.amount === undefined) {
     return null;
   }
+  // An encrypted message stays encrypted, as in the datum
+  const message = txMetadata.message?.enc ? txMetadata.message.msg.join('') : txMessageText(txMetadata) ?? '';
+  return {
+    sender: link.sender,
+    receiver: link.receiver,
+    amount: BigInt(link.amount),
+    message: stringToHex(message),
+    category: stringToHex(txMetadata.category ?? 'Other'),
+    transaction_id: stringToHex(link.id),
+    timestamp: BigInt(txMetadata.timestamp ?? 0),
+    sender_confirmed: false,
+    receiver_confirmed: false,
+    // Escrows created before deadlines existed carry neither field
+    refund_deadline: BigInt(link.refundDeadline ?? 0),
+    auto_release_deadline: link.autoReleaseDeadline === undefined ? null : BigInt(link.autoReleaseDeadline),
+    arbiter: link.arbiter ?? null,
+    dispute: null,
+    // Metadata keeps only the stage amounts; descriptions live in the datum
+    milestones: (link.milestones ?? []).map(amount => ({
+      description: '',
+      amount: BigInt(amount),
+      deadline: null,
+      released: false
+    })),
+    // Asset units overflow the 64-byte metadata strings; tokens live in the datum
+    tokens: new Map()
+  };
 };
 
 /**
@@ -245,6 +885,45 @@ export const formatADA = (lovelace: number): string => {
   return (lovelace / 1000000).toFixed(6);
 };
 
+/**
+ * Format a raw token quantity with its registered decimals, e.g. 1234500 with 6 -> "1.2345"
+ */
+export const formatTokenQuantity = (quantity: string | bigint, decimals: number): string => {
+  const digits = BigInt(quantity).toString().padStart(decimals + 1, '0');
+  if (decimals === 0) return digits;
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+  return fraction ? `${digits.slice(0, -decimals)}.${fraction}` : digits.slice(0, -decimals);
+};
+
+/**
+ * Parse a token amount typed in display units into its raw quantity
+ */
+export const parseTokenQuantity = (amount: string, decimals: number): bigint => {
+  const match = amount.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+  const fraction = match[2] ?? '';
+  if (fraction.length > decimals) {
+    throw new Error(`Token amount ${amount} has more than ${decimals} decimals`);
+  }
+  return BigInt((match[1] || '0') + fraction.padEnd(decimals, '0'));
+};
+
+/**
+ * Format the time left until a deadline, e.g. "2d 4h", "3h 12m", "45s"
+ */
+export const formatCountdown = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
 /**
  * Convert ADA to lovelace
  */
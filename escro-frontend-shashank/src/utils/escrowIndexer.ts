@@ -0,0 +1,79 @@
+// Escrow indexer: lists the open escrows a wallet takes part in
+import type { IWallet } from '@meshsdk/core';
+import {
+  EscrowOutRef,
+  EscrowUtxo,
+  PlutusDataError,
+  decodeEscrowDatum,
+  getEscrowScriptAddress,
+  getWalletKeyHashes
+} from './escrow';
+import {
+  EscrowRole,
+  EscrowState,
+  deriveEscrowState,
+  resolveEscrowRole
+} from './escrowStateMachine';
+import { NETWORKS } from './networks';
+import { CardanoNetwork, ChainProvider, getChainProvider } from './providers';
+
+// An escrow still locked at the script address
+export interface OpenEscrow extends EscrowUtxo {
+  outRef: EscrowOutRef;
+  state: EscrowState;
+  role: EscrowRole;
+}
+
+/**
+ * Decode every escrow UTxO at the script address, skipping outputs whose
+ * datum is missing or does not match the EscrowDatum schema
+ */
+export async function fetchEscrowUtxos(
+  network: CardanoNetwork,
+  provider: ChainProvider = getChainProvider(network)
+): Promise<EscrowUtxo[]> {
+  const scriptAddress = getEscrowScriptAddress(NETWORKS[network].networkId);
+  const utxos = await provider.getAddressUtxos(scriptAddress);
+
+  const escrows: EscrowUtxo[] = [];
+  for (const utxo of utxos) {
+    if (!utxo.output.plutusData) continue;
+    try {
+      escrows.push({ utxo, datum: decodeEscrowDatum(utxo.output.plutusData), network });
+    } catch (error) {
+      if (!(error instanceof PlutusDataError)) throw error;
+      console.warn(`Skipping ${utxo.input.txHash}#${utxo.input.outputIndex}: ${error.message}`);
+    }
+  }
+  return escrows;
+}
+
+/**
+ * List the open escrows where the connected wallet is sender or receiver
+ */
+export async function fetchOpenEscrows(
+  wallet: IWallet,
+  network: CardanoNetwork,
+  provider: ChainProvider = getChainProvider(network)
+): Promise<OpenEscrow[]> {
+  const [escrows, keyHashes] = await Promise.all([
+    fetchEscrowUtxos(network, provider),
+    getWalletKeyHashes(wallet)
+  ]);
+
+  const open: OpenEscrow[] = [];
+  for (const escrow of escrows) {
+    const role = resolveEscrowRole(escrow.datum, keyHashes);
+    if (!role) continue;
+
+    open.push({
+      ...escrow,
+      outRef: escrow.utxo.input,
+      state: deriveEscrowState(escrow.datum),
+      role
+    });
+  }
+
+  // Newest first
+  return open.sort((a, b) => Number(b.datum.timestamp - a.datum.timestamp));
+}
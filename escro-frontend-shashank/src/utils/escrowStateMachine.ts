@@ -0,0 +1,286 @@
+// Escrow lifecycle as an explicit state machine
+//
+//   Created ──ConfirmSender──▶ SenderConfirmed ──ConfirmReceiver──▶ BothConfirmed ──Release──▶ Released
+//      │   └─ConfirmReceiver─▶ ReceiverConfirmed ──ConfirmSender──▶ ┘
+//      └──Refund──▶ Refunded
+//
+//   SenderConfirmed   ──Refund, from refund_deadline──────────▶ Refunded
+//   ReceiverConfirmed ──Release, from auto_release_deadline───▶ Released
+//
+//   Created, SenderConfirmed, ReceiverConfirmed ──OpenDispute──▶ Disputed ──Resolve──▶ Resolved
+//
+// Disputes need an arbiter in the datum; a disputed escrow can only be resolved by the arbiter.
+//
+// ReleaseMilestone pays out one stage and keeps the escrow in its state; releasing the
+// last unpaid stage closes it.
+// Deadlines are POSIX milliseconds. ConfirmReceiver closes at refund_deadline,
+// so a receiver cannot block a refund that is already due.
+//
+// The guards mirror the redeemer conditions in escrow-dapp/validators/escrow.ak,
+// so an action offered here is one the validator accepts.
+import type { Dispute, EscrowDatum, EscrowRedeemer, Milestone } from './blueprint.generated';
+
+export type EscrowState =
+  | 'Created'
+  | 'SenderConfirmed'
+  | 'ReceiverConfirmed'
+  | 'BothConfirmed'
+  | 'Disputed'
+  | 'Released'
+  | 'Refunded'
+  | 'Resolved';
+
+// InitiateTransfer is the lock itself and never spends an escrow UTxO
+export type EscrowAction = Exclude<EscrowRedeemer['type'], 'InitiateTransfer'>;
+
+// Parties to an escrow; functions take null for a third party holding none of the keys
+export type EscrowRole = 'sender' | 'receiver' | 'arbiter';
+
+const TRANSITIONS: Record<EscrowState, Partial<Record<EscrowAction, EscrowState>>> = {
+  Created: {
+    ConfirmSender: 'SenderConfirmed',
+    ConfirmReceiver: 'ReceiverConfirmed',
+    Refund: 'Refunded',
+    OpenDispute: 'Disputed',
+    ReleaseMilestone: 'Created'
+  },
+  SenderConfirmed: {
+    ConfirmReceiver: 'BothConfirmed',
+    Refund: 'Refunded',
+    OpenDispute: 'Disputed',
+    ReleaseMilestone: 'SenderConfirmed'
+  },
+  ReceiverConfirmed: {
+    ConfirmSender: 'BothConfirmed',
+    Release: 'Released',
+    OpenDispute: 'Disputed',
+    ReleaseMilestone: 'ReceiverConfirmed'
+  },
+  BothConfirmed: {
+    Release: 'Released',
+    ReleaseMilestone: 'BothConfirmed'
+  },
+  Disputed: {
+    Resolve: 'Resolved'
+  },
+  Released: {},
+  Refunded: {},
+  Resolved: {}
+};
+
+/**
+ * Whether the sender may reclaim funds the receiver never confirmed
+ */
+export const isRefundDeadlinePassed = (datum: EscrowDatum, now: number): boolean =>
+  BigInt(now) >= datum.refund_deadline;
+
+/**
+ * Whether a confirmed receiver may release without the sender
+ */
+export const isAutoReleaseOpen = (datum: EscrowDatum, now: number): boolean =>
+  datum.auto_release_deadline !== null && BigInt(now) >= datum.auto_release_deadline;
+
+/**
+ * Whether a milestone's deadline has passed, letting the receiver release it
+ */
+export const isMilestoneDue = (milestone: Milestone, now: number): boolean =>
+  milestone.deadline !== null && BigInt(now) >= milestone.deadline;
+
+/**
+ * Indexes of the milestones a party may release at time `now`: any unpaid one
+ * for the sender, and the overdue ones for the receiver
+ */
+export const releasableMilestones = (datum: EscrowDatum, role: EscrowRole | null, now: number): number[] =>
+  datum.milestones.flatMap((milestone, index) =>
+    !milestone.released && (role === 'sender' || (role === 'receiver' && isMilestoneDue(milestone, now)))
+      ? [index]
+      : []
+  );
+
+const GUARDS: Record<EscrowAction, (datum: EscrowDatum, role: EscrowRole | null, now: number) => boolean> = {
+  // must_be_signed_by(sender) && !sender_confirmed
+  ConfirmSender: (datum, role) => role === 'sender' && !datum.sender_confirmed,
+  // must_be_signed_by(receiver) && !receiver_confirmed && valid_before(refund_deadline)
+  ConfirmReceiver: (datum, role, now) =>
+    role === 'receiver' && !datum.receiver_confirmed && !isRefundDeadlinePassed(datum, now),
+  // receiver_confirmed && (sender_confirmed || auto_release_open), submittable by anyone
+  Release: (datum, _role, now) =>
+    datum.receiver_confirmed && (datum.sender_confirmed || isAutoReleaseOpen(datum, now)),
+  // must_be_signed_by(sender) && !receiver_confirmed && (!sender_confirmed || valid_from(refund_deadline))
+  Refund: (datum, role, now) =>
+    role === 'sender' &&
+    !datum.receiver_confirmed &&
+    (!datum.sender_confirmed || isRefundDeadlinePassed(datum, now)),
+  // (must_be_signed_by(sender) || must_be_signed_by(receiver)) && can_open_dispute
+  OpenDispute: (datum, role) => (role === 'sender' || role === 'receiver') && datum.arbiter !== null,
+  // must_be_signed_by(arbiter) with a dispute open
+  Resolve: (_datum, role) => role === 'arbiter',
+  // !released && (must_be_signed_by(sender) || must_be_signed_by(receiver) && milestone_due)
+  ReleaseMilestone: (datum, role, now) => releasableMilestones(datum, role, now).length > 0
+};
+
+const ACTIONS: EscrowAction[] = [
+  'ConfirmSender',
+  'ConfirmReceiver',
+  'ReleaseMilestone',
+  'Release',
+  'Refund',
+  'OpenDispute',
+  'Resolve'
+];
+
+/**
+ * Raised when an action is not legal for the escrow's current state or the caller's role
+ */
+export class EscrowTransitionError extends Error {
+  readonly state: EscrowState;
+  readonly action: EscrowAction;
+
+  constructor(state: EscrowState, action: EscrowAction, reason: string) {
+    super(`Cannot ${action} an escrow in state ${state}: ${reason}`);
+    this.name = 'EscrowTransitionError';
+    this.state = state;
+    this.action = action;
+  }
+}
+
+/**
+ * Derive the state of a still-locked escrow from its datum
+ */
+export const deriveEscrowState = (datum: EscrowDatum): EscrowState => {
+  if (datum.dispute) return 'Disputed';
+  if (datum.sender_confirmed && datum.receiver_confirmed) return 'BothConfirmed';
+  if (datum.sender_confirmed) return 'SenderConfirmed';
+  if (datum.receiver_confirmed) return 'ReceiverConfirmed';
+  return 'Created';
+};
+
+/**
+ * Resolve which party a set of payment key hashes represents
+ * A wallet holding both keys acts as the sender.
+ */
+export const resolveEscrowRole = (datum: EscrowDatum, keyHashes: Set<string>): EscrowRole | null => {
+  if (keyHashes.has(datum.sender)) return 'sender';
+  if (keyHashes.has(datum.receiver)) return 'receiver';
+  if (datum.arbiter && keyHashes.has(datum.arbiter)) return 'arbiter';
+  return null;
+};
+
+/**
+ * Whether the state machine has an edge for this action from a state
+ */
+export const isLegalTransition = (state: EscrowState, action: EscrowAction): boolean =>
+  TRANSITIONS[state][action] !== undefined;
+
+/**
+ * Whether a party may perform an action on the escrow at time `now` (POSIX ms)
+ */
+export const canPerform = (
+  datum: EscrowDatum,
+  action: EscrowAction,
+  role: EscrowRole | null,
+  now: number = Date.now()
+): boolean => isLegalTransition(deriveEscrowState(datum), action) && GUARDS[action](datum, role, now);
+
+/**
+ * Actions a party can take on the escrow at time `now`, in lifecycle order
+ */
+export const nextActions = (datum: EscrowDatum, role: EscrowRole | null, now: number = Date.now()): EscrowAction[] =>
+  ACTIONS.filter(action => canPerform(datum, action, role, now));
+
+/**
+ * Throw an EscrowTransitionError unless the action is allowed at time `now`
+ */
+export const assertCanPerform = (
+  datum: EscrowDatum,
+  action: EscrowAction,
+  role: EscrowRole | null,
+  now: number = Date.now()
+) => {
+  const state = deriveEscrowState(datum);
+  if (!isLegalTransition(state, action)) {
+    throw new EscrowTransitionError(state, action, 'no such transition');
+  }
+  if (!GUARDS[action](datum, role, now)) {
+    throw new EscrowTransitionError(state, action, `not permitted for ${role ?? 'a third party'}`);
+  }
+};
+
+/**
+ * The state an escrow moves to after an action
+ */
+export const transition = (state: EscrowState, action: EscrowAction): EscrowState => {
+  const next = TRANSITIONS[state][action];
+  if (!next) {
+    throw new EscrowTransitionError(state, action, 'no such transition');
+  }
+  return next;
+};
+
+// What an action records beyond its name
+export interface EscrowActionDetails {
+  dispute?: Dispute; // for OpenDispute
+  milestone?: number; // index for ReleaseMilestone
+}
+
+/**
+ * The continuing datum after an action, or null when the action closes the escrow
+ * OpenDispute records the given dispute; ReleaseMilestone marks the given stage paid
+ * and deducts it from the locked amount.
+ */
+export const applyEscrowAction = (
+  datum: EscrowDatum,
+  action: EscrowAction,
+  { dispute, milestone }: EscrowActionDetails = {}
+): EscrowDatum | null => {
+  switch (action) {
+    case 'ConfirmSender':
+      return { ...datum, sender_confirmed: true };
+    case 'ConfirmReceiver':
+      return { ...datum, receiver_confirmed: true };
+    case 'OpenDispute':
+      if (!dispute) {
+        throw new Error('OpenDispute needs the dispute to record');
+      }
+      return { ...datum, dispute };
+    case 'ReleaseMilestone': {
+      const stage = milestone === undefined ? undefined : datum.milestones[milestone];
+      if (!stage || stage.released) {
+        throw new Error(`No unpaid milestone ${milestone}`);
+      }
+      const amount = datum.amount - stage.amount;
+      if (amount === BigInt(0)) return null;
+      return {
+        ...datum,
+        amount,
+        milestones: datum.milestones.map((m, i) => (i === milestone ? { ...m, released: true } : m))
+      };
+    }
+    case 'Release':
+    case 'Refund':
+    case 'Resolve':
+      return null;
+  }
+};
+
+// Display labels for the actions, shared by every escrow UI
+export const ESCROW_ACTION_LABELS: Record<EscrowAction, string> = {
+  ConfirmSender: 'Confirm as sender',
+  ConfirmReceiver: 'Confirm receipt',
+  Release: 'Release funds',
+  Refund: 'Refund',
+  OpenDispute: 'Open dispute',
+  Resolve: 'Resolve dispute',
+  ReleaseMilestone: 'Release milestone'
+};
+
+export const ESCROW_STATE_LABELS: Record<EscrowState, string> = {
+  Created: 'Awaiting confirmations',
+  SenderConfirmed: 'Sender confirmed',
+  ReceiverConfirmed: 'Receiver confirmed',
+  BothConfirmed: 'Ready to release',
+  Disputed: 'In dispute',
+  Released: 'Released',
+  Refunded: 'Refunded',
+  Resolved: 'Resolved by arbiter'
+};
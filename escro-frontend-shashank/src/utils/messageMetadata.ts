@@ -0,0 +1,188 @@
+// Transaction messages under metadata label 674 (CIP-20), optionally encrypted with a shared
+// passphrase (CIP-83). Kept free of dependencies so the other frontends in this repo can import it as source.
+
+export const MESSAGE_LABEL = 674;
+
+// The ledger rejects metadata strings longer than this, counted in UTF-8 bytes
+export const METADATA_STRING_BYTES = 64;
+
+// CIP-83 passphrase for messages that are only meant to be kept out of plain sight
+export const DEFAULT_PASSPHRASE = 'cardano';
+
+export interface MessageMetadata {
+  msg: string[];
+  enc?: 'basic'; // msg holds base64 chunks of the encrypted message
+}
+
+export type MessageErrorReason = 'malformed' | 'wrong-passphrase';
+
+export class MessageError extends Error {
+  readonly reason: MessageErrorReason;
+
+  constructor(reason: MessageErrorReason, message: string) {
+    super(message);
+    this.name = 'MessageError';
+    this.reason = reason;
+  }
+}
+
+// OpenSSL's salted format, which CIP-83 prescribes: the magic, an 8-byte salt, then the ciphertext
+const SALTED_MAGIC = 'Salted__';
+const SALT_LENGTH = 8;
+const PBKDF2_ITERATIONS = 10000;
+const KEY_LENGTH = 32;
+const IV_LENGTH = 16;
+
+// Base64 of SALTED_MAGIC, which every encrypted message starts with
+const ENCRYPTED_PREFIX = 'U2FsdGVkX1';
+
+const encoder = new TextEncoder();
+
+const byteLength = (text: string): number => encoder.encode(text).length;
+
+const firstCodePoint = (text: string): string => {
+  for (const char of text) return char;
+  return '';
+};
+
+/**
+ * Split text into strings of at most `maxBytes` UTF-8 bytes, never inside a character.
+ * Every chunk but the last is full: the next character would not have fit.
+ */
+export function chunkUtf8(text: string, maxBytes: number = METADATA_STRING_BYTES): string[] {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkBytes = 0;
+  for (const char of text) {
+    const bytes = byteLength(char);
+    if (chunkBytes + bytes > maxBytes) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += bytes;
+  }
+  chunks.push(chunk);
+  return chunks;
+}
+
+/**
+ * Reassemble `msg` lines: a full line was split by chunkUtf8 and continues on the next one,
+ * other lines are separate lines, as other wallets write them
+ */
+export function joinChunks(lines: string[], maxBytes: number = METADATA_STRING_BYTES): string {
+  let text = lines[0] ?? '';
+  for (let i = 1; i < lines.length; i++) {
+    const continued = byteLength(lines[i - 1]) + byteLength(firstCodePoint(lines[i])) > maxBytes;
+    text += (continued ? '' : ' ') + lines[i];
+  }
+  return text;
+}
+
+/**
+ * Label 674 metadata carrying `message` in plain text
+ */
+export function messageMetadata(message: string): MessageMetadata {
+  return { msg: chunkUtf8(message) };
+}
+
+/**
+ * Label 674 metadata carrying a message encrypted with encryptMessage
+ */
+export function encryptedMessageMetadata(ciphertext: string): MessageMetadata {
+  return { enc: 'basic', msg: chunkUtf8(ciphertext) };
+}
+
+/**
+ * Label 674 metadata for `message`, encrypted when a passphrase is given
+ */
+export async function buildMessageMetadata(message: string, passphrase?: string): Promise<MessageMetadata> {
+  return passphrase
+    ? encryptedMessageMetadata(await encryptMessage(message, passphrase))
+    : messageMetadata(message);
+}
+
+/**
+ * Whether text looks like a message encrypted with encryptMessage
+ */
+export const isEncryptedMessage = (text: string): boolean => text.startsWith(ENCRYPTED_PREFIX);
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * AES-256-CBC key and IV derived from the passphrase as `openssl enc -pbkdf2 -md sha256` does
+ */
+async function deriveKey(passphrase: string, salt: BufferSource): Promise<{ key: CryptoKey; iv: ArrayBuffer }> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    (KEY_LENGTH + IV_LENGTH) * 8
+  );
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, KEY_LENGTH), 'AES-CBC', false, ['encrypt', 'decrypt']);
+  return { key, iv: bits.slice(KEY_LENGTH) };
+}
+
+/**
+ * Encrypt `message` for CIP-83 `enc: basic` metadata, returned as one base64 string
+ */
+export async function encryptMessage(message: string, passphrase: string = DEFAULT_PASSPHRASE): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const { key, iv } = await deriveKey(passphrase, salt);
+  // The plaintext is itself a CIP-20 message, so decrypting yields ordinary metadata
+  const plaintext = encoder.encode(JSON.stringify(messageMetadata(message)));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, plaintext));
+
+  const payload = new Uint8Array(SALTED_MAGIC.length + SALT_LENGTH + ciphertext.length);
+  payload.set(encoder.encode(SALTED_MAGIC));
+  payload.set(salt, SALTED_MAGIC.length);
+  payload.set(ciphertext, SALTED_MAGIC.length + SALT_LENGTH);
+  return toBase64(payload);
+}
+
+/**
+ * Decrypt a message written by encryptMessage or any CIP-83 wallet, given the base64
+ * string or the `msg` chunks it was stored in
+ */
+export async function decryptMessage(ciphertext: string | string[], passphrase: string = DEFAULT_PASSPHRASE): Promise<string> {
+  const payload = (() => {
+    try {
+      return fromBase64(Array.isArray(ciphertext) ? ciphertext.join('') : ciphertext);
+    } catch {
+      throw new MessageError('malformed', 'Encrypted message is not valid base64');
+    }
+  })();
+  const magic = String.fromCharCode(...Array.from(payload.slice(0, SALTED_MAGIC.length)));
+  if (magic !== SALTED_MAGIC || payload.length <= SALTED_MAGIC.length + SALT_LENGTH) {
+    throw new MessageError('malformed', 'Encrypted message is not in the salted format');
+  }
+
+  const { key, iv } = await deriveKey(passphrase, payload.slice(SALTED_MAGIC.length, SALTED_MAGIC.length + SALT_LENGTH));
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-CBC', iv },
+      key,
+      payload.slice(SALTED_MAGIC.length + SALT_LENGTH)
+    );
+    const { msg } = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(plaintext)) as { msg?: unknown };
+    if (!Array.isArray(msg)) throw new Error('no msg');
+    return joinChunks(msg.map(String));
+  } catch {
+    // A wrong key almost always breaks the padding, and otherwise the JSON
+    throw new MessageError('wrong-passphrase', 'Wrong passphrase for this message');
+  }
+}
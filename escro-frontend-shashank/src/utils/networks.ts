@@ -0,0 +1,64 @@
+// Per-network settings for the network the user has chosen. Provider URLs and keys live
+// with the providers (BLOCKFROST_URLS, KOIOS_URLS and the NEXT_PUBLIC_ variables they read).
+import type { CardanoNetwork } from './providers';
+
+export interface NetworkConfig {
+  network: CardanoNetwork;
+  label: string;
+  networkId: 0 | 1; // what wallets report; preview and preprod share 0
+  addressPrefix: 'addr' | 'addr_test';
+  explorerUrl: string;
+  faucetUrl?: string;
+  isTestnet: boolean;
+}
+
+export const NETWORKS: Record<CardanoNetwork, NetworkConfig> = {
+  preview: {
+    network: 'preview',
+    label: 'Preview Testnet',
+    networkId: 0,
+    addressPrefix: 'addr_test',
+    explorerUrl: 'https://preview.cardanoscan.io',
+    faucetUrl: 'https://docs.cardano.org/cardano-testnet/tools/faucet',
+    isTestnet: true
+  },
+  preprod: {
+    network: 'preprod',
+    label: 'Preprod Testnet',
+    networkId: 0,
+    addressPrefix: 'addr_test',
+    explorerUrl: 'https://preprod.cardanoscan.io',
+    faucetUrl: 'https://docs.cardano.org/cardano-testnet/tools/faucet',
+    isTestnet: true
+  },
+  mainnet: {
+    network: 'mainnet',
+    label: 'Cardano Mainnet',
+    networkId: 1,
+    addressPrefix: 'addr',
+    explorerUrl: 'https://cardanoscan.io',
+    isTestnet: false
+  }
+};
+
+export const CARDANO_NETWORKS = Object.keys(NETWORKS) as CardanoNetwork[];
+
+export const isCardanoNetwork = (value: unknown): value is CardanoNetwork =>
+  typeof value === 'string' && value in NETWORKS;
+
+// Used until the user picks one; NEXT_PUBLIC_CARDANO_NETWORK overrides preprod
+export const DEFAULT_NETWORK: CardanoNetwork = isCardanoNetwork(process.env.NEXT_PUBLIC_CARDANO_NETWORK)
+  ? process.env.NEXT_PUBLIC_CARDANO_NETWORK
+  : 'preprod';
+
+/**
+ * Explorer page of a transaction on `network`
+ */
+export const explorerTxUrl = (network: CardanoNetwork, txHash: string): string =>
+  `${NETWORKS[network].explorerUrl}/transaction/${txHash}`;
+
+/**
+ * Explorer page of an address on `network`
+ */
+export const explorerAddressUrl = (network: CardanoNetwork, address: string): string =>
+  `${NETWORKS[network].explorerUrl}/address/${address}`;
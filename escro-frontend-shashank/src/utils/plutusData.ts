@@ -0,0 +1,560 @@
+// Plutus Data codec driven by the CIP-57 blueprint schemas in plutus.json
+// The in-memory shape is compatible with Mesh's `Data`, so encoded values can
+// be passed straight to Transaction datums and redeemers.
+
+export type PlutusData =
+  | bigint
+  | string // ByteArray as hex
+  | PlutusData[]
+  | Map<PlutusData, PlutusData>
+  | PlutusConstr;
+
+export interface PlutusConstr {
+  alternative: number;
+  fields: PlutusData[];
+}
+
+// Subset of the CIP-57 schema vocabulary emitted by Aiken
+export interface BlueprintSchema {
+  title?: string;
+  description?: string;
+  $ref?: string;
+  dataType?: 'integer' | 'bytes' | 'list' | 'map' | 'constructor';
+  index?: number;
+  fields?: BlueprintSchema[];
+  anyOf?: BlueprintSchema[];
+  items?: BlueprintSchema | BlueprintSchema[];
+  keys?: BlueprintSchema;
+  values?: BlueprintSchema;
+}
+
+export type BlueprintDefinitions = Record<string, BlueprintSchema>;
+
+/**
+ * Raised when data does not match the blueprint schema or is not valid CBOR
+ */
+export class PlutusDataError extends Error {
+  readonly path: string;
+
+  constructor(message: string, path: string = '$') {
+    super(`${path}: ${message}`);
+    this.name = 'PlutusDataError';
+    this.path = path;
+  }
+}
+
+const isConstr = (data: PlutusData): data is PlutusConstr =>
+  typeof data === 'object' && !Array.isArray(data) && !(data instanceof Map);
+
+const isHex = (value: string): boolean => value.length % 2 === 0 && /^[0-9a-fA-F]*$/.test(value);
+
+/**
+ * Resolve a `#/definitions/...` reference (with `~1` escaping for `/`)
+ */
+const resolveRef = (ref: string, definitions: BlueprintDefinitions): BlueprintSchema => {
+  const key = ref.replace('#/definitions/', '').replace(/~1/g, '/');
+  const schema = definitions[key];
+  if (!schema) {
+    throw new PlutusDataError(`Unknown schema reference ${ref}`);
+  }
+  return schema;
+};
+
+const isBoolSchema = (schema: BlueprintSchema): boolean =>
+  schema.title === 'Bool' &&
+  schema.anyOf?.length === 2 &&
+  schema.anyOf[0].title === 'False' &&
+  schema.anyOf[1].title === 'True';
+
+const isOptionSchema = (schema: BlueprintSchema): boolean =>
+  schema.title === 'Option' &&
+  schema.anyOf?.length === 2 &&
+  schema.anyOf[0].title === 'Some' &&
+  schema.anyOf[1].title === 'None';
+
+const isEnumSchema = (schema: BlueprintSchema): boolean =>
+  !!schema.anyOf && schema.anyOf.length > 1 && schema.anyOf.every(c => (c.fields ?? []).length === 0);
+
+const fieldName = (field: BlueprintSchema, position: number): string => field.title ?? `_${position}`;
+
+/**
+ * Encode a typed value to Plutus Data following a blueprint schema
+ *
+ * ByteArray is a hex string, Int is a bigint, Bool is a boolean, Option is
+ * `value | null`, field-less sum types are their constructor title and other
+ * sum types are `{ type: title, ...fields }` objects.
+ */
+export const encodeWithSchema = (
+  schema: BlueprintSchema,
+  value: unknown,
+  definitions: BlueprintDefinitions,
+  path: string = '$'
+): PlutusData => {
+  if (schema.$ref) {
+    return encodeWithSchema(resolveRef(schema.$ref, definitions), value, definitions, path);
+  }
+
+  if (isBoolSchema(schema)) {
+    if (typeof value !== 'boolean') {
+      throw new PlutusDataError(`expected boolean, got ${typeof value}`, path);
+    }
+    return { alternative: value ? 1 : 0, fields: [] };
+  }
+
+  if (isOptionSchema(schema)) {
+    if (value === null || value === undefined) {
+      return { alternative: 1, fields: [] };
+    }
+    const inner = schema.anyOf![0].fields![0];
+    return { alternative: 0, fields: [encodeWithSchema(inner, value, definitions, path)] };
+  }
+
+  switch (schema.dataType) {
+    case 'integer':
+      if (typeof value === 'bigint') return value;
+      if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+      throw new PlutusDataError(`expected integer, got ${typeof value}`, path);
+    case 'bytes':
+      if (typeof value !== 'string' || !isHex(value)) {
+        throw new PlutusDataError('expected hex-encoded bytes', path);
+      }
+      return value.toLowerCase();
+    case 'list': {
+      if (!Array.isArray(value)) {
+        throw new PlutusDataError('expected array', path);
+      }
+      const items = schema.items;
+      if (Array.isArray(items)) {
+        // Tuples are encoded as lists with one schema per position
+        if (value.length !== items.length) {
+          throw new PlutusDataError(`expected tuple of ${items.length}, got ${value.length}`, path);
+        }
+        return items.map((item, i) => encodeWithSchema(item, value[i], definitions, `${path}[${i}]`));
+      }
+      return value.map((item, i) =>
+        items ? encodeWithSchema(items, item, definitions, `${path}[${i}]`) : (item as PlutusData)
+      );
+    }
+    case 'map': {
+      if (!(value instanceof Map)) {
+        throw new PlutusDataError('expected Map', path);
+      }
+      const encoded = new Map<PlutusData, PlutusData>();
+      value.forEach((v, k) => {
+        const key = schema.keys ? encodeWithSchema(schema.keys, k, definitions, `${path}.<key>`) : k;
+        encoded.set(key, schema.values ? encodeWithSchema(schema.values, v, definitions, `${path}.${String(k)}`) : v);
+      });
+      return encoded;
+    }
+    case 'constructor':
+      return encodeConstructor(schema, value, definitions, path);
+  }
+
+  if (schema.anyOf) {
+    if (schema.anyOf.length === 1) {
+      return encodeConstructor(schema.anyOf[0], value, definitions, path);
+    }
+    if (isEnumSchema(schema)) {
+      const variant = schema.anyOf.find(c => c.title === value);
+      if (!variant) {
+        throw new PlutusDataError(`unknown ${schema.title} variant ${String(value)}`, path);
+      }
+      return { alternative: variant.index!, fields: [] };
+    }
+    const tag = (value as { type?: unknown } | null)?.type;
+    const variant = schema.anyOf.find(c => c.title === tag);
+    if (!variant) {
+      throw new PlutusDataError(`unknown ${schema.title} variant ${String(tag)}`, path);
+    }
+    return encodeConstructor(variant, value, definitions, path);
+  }
+
+  // Opaque `Data`: pass through untouched
+  return value as PlutusData;
+};
+
+const encodeConstructor = (
+  schema: BlueprintSchema,
+  value: unknown,
+  definitions: BlueprintDefinitions,
+  path: string
+): PlutusConstr => {
+  if (typeof value !== 'object' || value === null) {
+    throw new PlutusDataError(`expected ${schema.title ?? 'constructor'} object`, path);
+  }
+  const record = value as Record<string, unknown>;
+  const fields = (schema.fields ?? []).map((field, i) => {
+    const name = fieldName(field, i);
+    if (!(name in record)) {
+      throw new PlutusDataError(`missing field ${name}`, path);
+    }
+    return encodeWithSchema(field, record[name], definitions, `${path}.${name}`);
+  });
+  return { alternative: schema.index ?? 0, fields };
+};
+
+/**
+ * Decode Plutus Data into a typed value, throwing PlutusDataError on any mismatch
+ */
+export const decodeWithSchema = (
+  schema: BlueprintSchema,
+  data: PlutusData,
+  definitions: BlueprintDefinitions,
+  path: string = '$'
+): unknown => {
+  if (schema.$ref) {
+    return decodeWithSchema(resolveRef(schema.$ref, definitions), data, definitions, path);
+  }
+
+  if (isBoolSchema(schema)) {
+    if (!isConstr(data) || data.fields.length !== 0 || data.alternative > 1) {
+      throw new PlutusDataError('expected Bool constructor', path);
+    }
+    return data.alternative === 1;
+  }
+
+  if (isOptionSchema(schema)) {
+    if (!isConstr(data) || data.alternative > 1) {
+      throw new PlutusDataError('expected Option constructor', path);
+    }
+    if (data.alternative === 1) {
+      return null;
+    }
+    if (data.fields.length !== 1) {
+      throw new PlutusDataError('expected Some with one field', path);
+    }
+    return decodeWithSchema(schema.anyOf![0].fields![0], data.fields[0], definitions, path);
+  }
+
+  switch (schema.dataType) {
+    case 'integer':
+      if (typeof data !== 'bigint') {
+        throw new PlutusDataError('expected integer', path);
+      }
+      return data;
+    case 'bytes':
+      if (typeof data !== 'string') {
+        throw new PlutusDataError('expected bytes', path);
+      }
+      return data;
+    case 'list': {
+      if (!Array.isArray(data)) {
+        throw new PlutusDataError('expected list', path);
+      }
+      const items = schema.items;
+      if (Array.isArray(items)) {
+        if (data.length !== items.length) {
+          throw new PlutusDataError(`expected tuple of ${items.length}, got ${data.length}`, path);
+        }
+        return items.map((item, i) => decodeWithSchema(item, data[i], definitions, `${path}[${i}]`));
+      }
+      return data.map((item, i) => (items ? decodeWithSchema(items, item, definitions, `${path}[${i}]`) : item));
+    }
+    case 'map': {
+      if (!(data instanceof Map)) {
+        throw new PlutusDataError('expected map', path);
+      }
+      const decoded = new Map<unknown, unknown>();
+      data.forEach((v, k) => {
+        const key = schema.keys ? decodeWithSchema(schema.keys, k, definitions, `${path}.<key>`) : k;
+        decoded.set(key, schema.values ? decodeWithSchema(schema.values, v, definitions, `${path}.${String(key)}`) : v);
+      });
+      return decoded;
+    }
+    case 'constructor':
+      return decodeConstructor(schema, data, definitions, path);
+  }
+
+  if (schema.anyOf) {
+    if (!isConstr(data)) {
+      throw new PlutusDataError(`expected ${schema.title ?? 'constructor'}`, path);
+    }
+    const variant = schema.anyOf.find(c => c.index === data.alternative);
+    if (!variant) {
+      throw new PlutusDataError(`unknown ${schema.title} constructor index ${data.alternative}`, path);
+    }
+    if (schema.anyOf.length === 1) {
+      return decodeConstructor(variant, data, definitions, path);
+    }
+    if (isEnumSchema(schema)) {
+      decodeConstructor(variant, data, definitions, path);
+      return variant.title;
+    }
+    return { type: variant.title, ...decodeConstructor(variant, data, definitions, path) };
+  }
+
+  return data;
+};
+
+const decodeConstructor = (
+  schema: BlueprintSchema,
+  data: PlutusData,
+  definitions: BlueprintDefinitions,
+  path: string
+): Record<string, unknown> => {
+  if (!isConstr(data) || data.alternative !== (schema.index ?? 0)) {
+    throw new PlutusDataError(`expected ${schema.title ?? 'constructor'} (index ${schema.index ?? 0})`, path);
+  }
+  const fields = schema.fields ?? [];
+  if (data.fields.length !== fields.length) {
+    throw new PlutusDataError(`expected ${fields.length} fields, got ${data.fields.length}`, path);
+  }
+  const record: Record<string, unknown> = {};
+  fields.forEach((field, i) => {
+    const name = fieldName(field, i);
+    record[name] = decodeWithSchema(field, data.fields[i], definitions, `${path}.${name}`);
+  });
+  return record;
+};
+
+// ---------------------------------------------------------------------------
+// CBOR serialisation (same layout as the Haskell ledger and Aiken)
+// ---------------------------------------------------------------------------
+
+const MAX_UINT64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+const BYTES_CHUNK = 64;
+
+const encodeHead = (major: number, value: number | bigint, out: number[]) => {
+  const n = BigInt(value);
+  const m = major << 5;
+  if (n < BigInt(24)) {
+    out.push(m | Number(n));
+  } else if (n < BigInt(0x100)) {
+    out.push(m | 24, Number(n));
+  } else if (n < BigInt(0x10000)) {
+    out.push(m | 25, Number(n >> BigInt(8)) & 0xff, Number(n) & 0xff);
+  } else if (n < BigInt(0x100000000)) {
+    out.push(m | 26);
+    for (let shift = 24; shift >= 0; shift -= 8) out.push(Number(n >> BigInt(shift)) & 0xff);
+  } else {
+    out.push(m | 27);
+    for (let shift = 56; shift >= 0; shift -= 8) out.push(Number((n >> BigInt(shift)) & BigInt(0xff)));
+  }
+};
+
+const hexToBytes = (hex: string): number[] => {
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) bytes.push(parseInt(hex.substr(i, 2), 16));
+  return bytes;
+};
+
+const bytesToHex = (bytes: ArrayLike<number>): string =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const encodeBytes = (bytes: number[], out: number[]) => {
+  if (bytes.length <= BYTES_CHUNK) {
+    encodeHead(2, bytes.length, out);
+    out.push(...bytes);
+    return;
+  }
+  // Bytestrings longer than 64 bytes are chunked in an indefinite-length string
+  out.push(0x5f);
+  for (let i = 0; i < bytes.length; i += BYTES_CHUNK) {
+    const chunk = bytes.slice(i, i + BYTES_CHUNK);
+    encodeHead(2, chunk.length, out);
+    out.push(...chunk);
+  }
+  out.push(0xff);
+};
+
+const encodeList = (items: PlutusData[], out: number[]) => {
+  if (items.length === 0) {
+    out.push(0x80);
+    return;
+  }
+  out.push(0x9f);
+  items.forEach(item => encodeData(item, out));
+  out.push(0xff);
+};
+
+const encodeData = (data: PlutusData, out: number[]) => {
+  if (typeof data === 'bigint') {
+    if (data >= BigInt(0)) {
+      if (data <= MAX_UINT64) return encodeHead(0, data, out);
+      out.push(0xc2);
+      return encodeBytes(hexToBytes(padHex(data.toString(16))), out);
+    }
+    const magnitude = -data - BigInt(1);
+    if (magnitude <= MAX_UINT64) return encodeHead(1, magnitude, out);
+    out.push(0xc3);
+    return encodeBytes(hexToBytes(padHex(magnitude.toString(16))), out);
+  }
+  if (typeof data === 'string') {
+    return encodeBytes(hexToBytes(data), out);
+  }
+  if (Array.isArray(data)) {
+    return encodeList(data, out);
+  }
+  if (data instanceof Map) {
+    encodeHead(5, data.size, out);
+    data.forEach((v, k) => {
+      encodeData(k, out);
+      encodeData(v, out);
+    });
+    return;
+  }
+  const { alternative, fields } = data;
+  if (alternative < 7) {
+    encodeHead(6, 121 + alternative, out);
+  } else if (alternative < 128) {
+    encodeHead(6, 1280 + alternative - 7, out);
+  } else {
+    encodeHead(6, 102, out);
+    out.push(0x82);
+    encodeHead(0, alternative, out);
+  }
+  encodeList(fields, out);
+};
+
+const padHex = (hex: string): string => (hex.length % 2 === 0 ? hex : `0${hex}`);
+
+/**
+ * Serialise Plutus Data to CBOR hex
+ */
+export const plutusDataToCbor = (data: PlutusData): string => {
+  const out: number[] = [];
+  encodeData(data, out);
+  return bytesToHex(out);
+};
+
+class CborReader {
+  private offset = 0;
+  private readonly bytes: number[];
+
+  constructor(bytes: number[]) {
+    this.bytes = bytes;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  peek(): number {
+    if (this.done) throw new PlutusDataError(`unexpected end of CBOR at byte ${this.offset}`);
+    return this.bytes[this.offset];
+  }
+
+  byte(): number {
+    const b = this.peek();
+    this.offset++;
+    return b;
+  }
+
+  // Returns the argument of the next head, or null for indefinite length
+  argument(info: number): bigint | null {
+    if (info < 24) return BigInt(info);
+    if (info === 31) return null;
+    const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+    if (!size) throw new PlutusDataError(`invalid CBOR additional info ${info} at byte ${this.offset}`);
+    let n = BigInt(0);
+    for (let i = 0; i < size; i++) n = (n << BigInt(8)) | BigInt(this.byte());
+    return n;
+  }
+
+  take(length: number): number[] {
+    if (this.offset + length > this.bytes.length) {
+      throw new PlutusDataError(`unexpected end of CBOR at byte ${this.offset}`);
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+const readBytes = (reader: CborReader, info: number): number[] => {
+  const length = reader.argument(info);
+  if (length !== null) return reader.take(Number(length));
+  const bytes: number[] = [];
+  while (reader.peek() !== 0xff) {
+    const head = reader.byte();
+    if (head >> 5 !== 2) throw new PlutusDataError('expected bytestring chunk in CBOR');
+    bytes.push(...readBytes(reader, head & 0x1f));
+  }
+  reader.byte();
+  return bytes;
+};
+
+const readItems = (reader: CborReader, info: number, count = 1): PlutusData[] => {
+  const length = reader.argument(info);
+  const items: PlutusData[] = [];
+  if (length === null) {
+    while (reader.peek() !== 0xff) items.push(readData(reader));
+    reader.byte();
+  } else {
+    for (let i = 0; i < Number(length) * count; i++) items.push(readData(reader));
+  }
+  return items;
+};
+
+const bytesToBigInt = (bytes: number[]): bigint =>
+  bytes.reduce((n, b) => (n << BigInt(8)) | BigInt(b), BigInt(0));
+
+const readData = (reader: CborReader): PlutusData => {
+  const head = reader.byte();
+  const major = head >> 5;
+  const info = head & 0x1f;
+
+  switch (major) {
+    case 0:
+      return reader.argument(info)!;
+    case 1:
+      return -reader.argument(info)! - BigInt(1);
+    case 2:
+      return bytesToHex(readBytes(reader, info));
+    case 4:
+      return readItems(reader, info);
+    case 5: {
+      const entries = readItems(reader, info, 2);
+      if (entries.length % 2 !== 0) throw new PlutusDataError('odd number of CBOR map entries');
+      const map = new Map<PlutusData, PlutusData>();
+      for (let i = 0; i < entries.length; i += 2) map.set(entries[i], entries[i + 1]);
+      return map;
+    }
+    case 6: {
+      const tag = Number(reader.argument(info));
+      if (tag === 2 || tag === 3) {
+        const inner = reader.byte();
+        if (inner >> 5 !== 2) throw new PlutusDataError('expected bytestring in CBOR bignum');
+        const n = bytesToBigInt(readBytes(reader, inner & 0x1f));
+        return tag === 2 ? n : -n - BigInt(1);
+      }
+      if (tag >= 121 && tag <= 127) {
+        return { alternative: tag - 121, fields: readFields(reader) };
+      }
+      if (tag >= 1280 && tag <= 1400) {
+        return { alternative: tag - 1280 + 7, fields: readFields(reader) };
+      }
+      if (tag === 102) {
+        const pair = readData(reader);
+        if (!Array.isArray(pair) || pair.length !== 2 || typeof pair[0] !== 'bigint' || !Array.isArray(pair[1])) {
+          throw new PlutusDataError('malformed general constructor in CBOR');
+        }
+        return { alternative: Number(pair[0]), fields: pair[1] };
+      }
+      throw new PlutusDataError(`unsupported CBOR tag ${tag}`);
+    }
+    default:
+      throw new PlutusDataError(`unsupported CBOR major type ${major}`);
+  }
+};
+
+const readFields = (reader: CborReader): PlutusData[] => {
+  const fields = readData(reader);
+  if (!Array.isArray(fields)) throw new PlutusDataError('expected constructor field list in CBOR');
+  return fields;
+};
+
+/**
+ * Parse CBOR hex into Plutus Data
+ */
+export const plutusDataFromCbor = (cbor: string): PlutusData => {
+  if (!isHex(cbor)) {
+    throw new PlutusDataError('CBOR input is not hex');
+  }
+  const reader = new CborReader(hexToBytes(cbor));
+  const data = readData(reader);
+  if (!reader.done) {
+    throw new PlutusDataError('trailing bytes after CBOR data item');
+  }
+  return data;
+};
@@ -0,0 +1,249 @@
+// Blockfrost backend
+import { castProtocol } from '@meshsdk/core';
+import type { Asset, Protocol, UTxO } from '@meshsdk/core';
+import {
+  AddressTransactionRef,
+  AssetInfo,
+  CardanoNetwork,
+  ChainProvider,
+  ChainProviderError,
+  ChainTip,
+  PageOptions,
+  TransactionDetails,
+  TransactionIO,
+  TransactionMetadatum,
+  TransactionUtxos
+} from './types';
+import { BLOCKFROST_RATE_LIMIT, RequestScheduler } from './scheduler';
+import { basicAssetInfo, hexToBytes, joinMetadataString } from './util';
+
+export const BLOCKFROST_URLS: Record<CardanoNetwork, string> = {
+  preview: 'https://cardano-preview.blockfrost.io/api/v0',
+  preprod: 'https://cardano-preprod.blockfrost.io/api/v0',
+  mainnet: 'https://cardano-mainnet.blockfrost.io/api/v0'
+};
+
+interface BlockfrostUtxo {
+  address: string;
+  tx_hash: string;
+  output_index: number;
+  amount: Asset[];
+  data_hash: string | null;
+  inline_datum: string | null;
+  reference_script_hash: string | null;
+  collateral?: boolean;
+  reference?: boolean;
+}
+
+export class BlockfrostProvider implements ChainProvider {
+  readonly name = 'Blockfrost';
+
+  constructor(
+    readonly network: CardanoNetwork,
+    private readonly apiKey: string,
+    private readonly url: string = BLOCKFROST_URLS[network],
+    private readonly scheduler: RequestScheduler = new RequestScheduler(BLOCKFROST_RATE_LIMIT)
+  ) {}
+
+  private async get<T>(path: string, notFound?: T): Promise<T> {
+    const response = await this.scheduler.fetch(`${this.url}${path}`, {
+      headers: {
+        'project_id': this.apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      if (response.status === 404 && notFound !== undefined) {
+        return notFound;
+      }
+      throw new ChainProviderError(this.name, `GET ${path} failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return response.json();
+  }
+
+  async getAddressTransactions(address: string, { page = 1, count = 50 }: PageOptions = {}): Promise<AddressTransactionRef[]> {
+    const txs = await this.get<Array<{ tx_hash: string; block_height: number; block_time: number }>>(
+      `/addresses/${address}/transactions?page=${page}&count=${count}&order=desc`,
+      []
+    );
+    return txs.map(tx => ({
+      txHash: tx.tx_hash,
+      blockHeight: tx.block_height,
+      blockTime: tx.block_time
+    }));
+  }
+
+  async getTransaction(txHash: string): Promise<TransactionDetails> {
+    const tx = await this.get<{
+      hash: string;
+      block_height: number;
+      block_time: number;
+      slot: number;
+      fees: string;
+      output_amount: Asset[];
+      size: number;
+      invalid_before: string | null;
+      invalid_hereafter: string | null;
+      valid_contract: boolean;
+    }>(`/txs/${txHash}`);
+
+    return {
+      hash: tx.hash,
+      blockHeight: tx.block_height,
+      blockTime: tx.block_time,
+      slot: tx.slot,
+      fees: tx.fees,
+      outputAmount: tx.output_amount,
+      size: tx.size,
+      invalidBefore: tx.invalid_before ?? undefined,
+      invalidHereafter: tx.invalid_hereafter ?? undefined,
+      validContract: tx.valid_contract
+    };
+  }
+
+  async getTransactionMetadata(txHash: string): Promise<TransactionMetadatum[]> {
+    const metadata = await this.get<Array<{ label: string; json_metadata: unknown }>>(`/txs/${txHash}/metadata`, []);
+    return metadata.map(meta => ({ label: meta.label, json: meta.json_metadata }));
+  }
+
+  async getTransactionUtxos(txHash: string): Promise<TransactionUtxos> {
+    const utxos = await this.get<{ hash: string; inputs: BlockfrostUtxo[]; outputs: BlockfrostUtxo[] }>(`/txs/${txHash}/utxos`);
+    const toIO = (utxo: BlockfrostUtxo, outputTxHash?: string): TransactionIO => ({
+      address: utxo.address,
+      amount: utxo.amount,
+      txHash: outputTxHash ?? utxo.tx_hash,
+      outputIndex: utxo.output_index,
+      collateral: utxo.collateral,
+      reference: utxo.reference
+    });
+
+    return {
+      hash: utxos.hash,
+      inputs: utxos.inputs.map(input => toIO(input)),
+      outputs: utxos.outputs.map(output => toIO(output, utxos.hash))
+    };
+  }
+
+  async getAddressUtxos(address: string): Promise<UTxO[]> {
+    const utxos: UTxO[] = [];
+    const count = 100;
+
+    for (let page = 1; ; page++) {
+      const pageUtxos = await this.get<BlockfrostUtxo[]>(`/addresses/${address}/utxos?page=${page}&count=${count}`, []);
+      utxos.push(
+        ...pageUtxos.map(utxo => ({
+          input: { txHash: utxo.tx_hash, outputIndex: utxo.output_index },
+          output: {
+            address: utxo.address,
+            amount: utxo.amount,
+            dataHash: utxo.data_hash ?? undefined,
+            plutusData: utxo.inline_datum ?? undefined,
+            scriptHash: utxo.reference_script_hash ?? undefined
+          }
+        }))
+      );
+      if (pageUtxos.length < count) {
+        return utxos;
+      }
+    }
+  }
+
+  async getAccountAddresses(stakeAddress: string): Promise<string[]> {
+    const addresses: string[] = [];
+    const count = 100;
+
+    for (let page = 1; ; page++) {
+      const pageAddresses = await this.get<Array<{ address: string }>>(
+        `/accounts/${stakeAddress}/addresses?page=${page}&count=${count}`,
+        []
+      );
+      addresses.push(...pageAddresses.map(entry => entry.address));
+      if (pageAddresses.length < count) {
+        return addresses;
+      }
+    }
+  }
+
+  async getAssetInfo(unit: string): Promise<AssetInfo> {
+    const asset = await this.get<{
+      fingerprint: string;
+      metadata: { name?: string; ticker?: string; decimals?: number; logo?: string } | null;
+      onchain_metadata: Record<string, unknown> | null;
+    }>(`/assets/${unit}`);
+
+    // Registry metadata wins for fungible tokens; NFTs only carry CIP-25 metadata
+    const info = basicAssetInfo(unit);
+    const onchain = asset.onchain_metadata ?? {};
+    const logo = asset.metadata?.logo;
+    return {
+      ...info,
+      fingerprint: asset.fingerprint,
+      name: asset.metadata?.name ?? joinMetadataString(onchain.name) ?? info.name,
+      ticker: asset.metadata?.ticker,
+      decimals: asset.metadata?.decimals ?? 0,
+      image: logo ? `data:image/png;base64,${logo}` : joinMetadataString(onchain.image)
+    };
+  }
+
+  async hasMempoolTransaction(txHash: string): Promise<boolean> {
+    const entry = await this.get<{ tx: unknown } | null>(`/mempool/${txHash}`, null);
+    return entry !== null;
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const block = await this.get<{ hash: string; height: number; slot: number; epoch: number; time: number }>('/blocks/latest');
+    return {
+      hash: block.hash,
+      height: block.height,
+      slot: block.slot,
+      epoch: block.epoch,
+      time: block.time
+    };
+  }
+
+  async getProtocolParameters(): Promise<Protocol> {
+    const params = await this.get<Record<string, string | number>>('/epochs/latest/parameters');
+    return castProtocol({
+      epoch: params.epoch,
+      minFeeA: params.min_fee_a,
+      minFeeB: params.min_fee_b,
+      maxBlockSize: params.max_block_size,
+      maxTxSize: params.max_tx_size,
+      maxBlockHeaderSize: params.max_block_header_size,
+      keyDeposit: params.key_deposit,
+      poolDeposit: params.pool_deposit,
+      decentralisation: params.decentralisation_param,
+      minPoolCost: params.min_pool_cost,
+      priceMem: params.price_mem,
+      priceStep: params.price_step,
+      maxTxExMem: params.max_tx_ex_mem,
+      maxTxExSteps: params.max_tx_ex_steps,
+      maxBlockExMem: params.max_block_ex_mem,
+      maxBlockExSteps: params.max_block_ex_steps,
+      maxValSize: params.max_val_size,
+      collateralPercent: params.collateral_percent,
+      maxCollateralInputs: params.max_collateral_inputs,
+      coinsPerUtxoSize: params.coins_per_utxo_size,
+      minFeeRefScriptCostPerByte: params.min_fee_ref_script_cost_per_byte
+    });
+  }
+
+  async submitTx(txCbor: string): Promise<string> {
+    const response = await this.scheduler.fetch(`${this.url}/tx/submit`, {
+      method: 'POST',
+      headers: {
+        'project_id': this.apiKey,
+        'Content-Type': 'application/cbor'
+      },
+      body: hexToBytes(txCbor)
+    });
+
+    if (!response.ok) {
+      throw new ChainProviderError(this.name, `Transaction submit failed: ${await response.text()}`, response.status);
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,119 @@
+// Chain provider selection
+import { BlockfrostProvider } from './blockfrost';
+import { KoiosProvider } from './koios';
+import { MemoryChainProvider } from './memory';
+import { OgmiosKupoProvider } from './ogmiosKupo';
+import { CardanoNetwork, ChainProvider } from './types';
+
+export * from './types';
+export { BLOCKFROST_URLS, BlockfrostProvider } from './blockfrost';
+export { KOIOS_URLS, KoiosProvider } from './koios';
+export { MemoryChainProvider, seedDemoTransactions } from './memory';
+export type { MemoryChainState, MemoryTransaction } from './memory';
+export { OgmiosKupoProvider } from './ogmiosKupo';
+export {
+  BLOCKFROST_RATE_LIMIT,
+  DEFAULT_RETRY,
+  KOIOS_RATE_LIMIT,
+  RequestScheduler,
+  TokenBucket,
+  mapWithConcurrency
+} from './scheduler';
+export type { RateLimit, RetryOptions } from './scheduler';
+
+export type ChainProviderKind = 'blockfrost' | 'koios' | 'ogmios' | 'memory';
+
+// Next only inlines NEXT_PUBLIC_ variables referenced by their full name
+const BLOCKFROST_API_KEYS: Record<CardanoNetwork, string | undefined> = {
+  preview: process.env.NEXT_PUBLIC_BLOCKFROST_PREVIEW_API_KEY,
+  preprod: process.env.NEXT_PUBLIC_BLOCKFROST_API_KEY,
+  mainnet: process.env.NEXT_PUBLIC_BLOCKFROST_MAINNET_API_KEY
+};
+
+// Self-hosted endpoints serve a single network each; the unsuffixed names are preprod's
+const KOIOS_URL_OVERRIDES: Record<CardanoNetwork, string | undefined> = {
+  preview: process.env.NEXT_PUBLIC_KOIOS_PREVIEW_URL,
+  preprod: process.env.NEXT_PUBLIC_KOIOS_URL,
+  mainnet: process.env.NEXT_PUBLIC_KOIOS_MAINNET_URL
+};
+
+const OGMIOS_URLS: Record<CardanoNetwork, string | undefined> = {
+  preview: process.env.NEXT_PUBLIC_OGMIOS_PREVIEW_URL,
+  preprod: process.env.NEXT_PUBLIC_OGMIOS_URL,
+  mainnet: process.env.NEXT_PUBLIC_OGMIOS_MAINNET_URL
+};
+
+const KUPO_URLS: Record<CardanoNetwork, string | undefined> = {
+  preview: process.env.NEXT_PUBLIC_KUPO_PREVIEW_URL,
+  preprod: process.env.NEXT_PUBLIC_KUPO_URL,
+  mainnet: process.env.NEXT_PUBLIC_KUPO_MAINNET_URL
+};
+
+const providers = new Map<CardanoNetwork, ChainProvider>();
+
+/**
+ * Blockfrost project ids are prefixed with the network they belong to
+ */
+const blockfrostApiKey = (network: CardanoNetwork): string | undefined => {
+  const apiKey = BLOCKFROST_API_KEYS[network];
+  return apiKey && apiKey.startsWith(network) ? apiKey : undefined;
+};
+
+/**
+ * The backend configured through NEXT_PUBLIC_CHAIN_PROVIDER, defaulting to
+ * Blockfrost when a project id is set and the in-memory backend otherwise
+ */
+export function getChainProviderKind(network: CardanoNetwork): ChainProviderKind {
+  const configured = process.env.NEXT_PUBLIC_CHAIN_PROVIDER;
+  if (configured === 'blockfrost' || configured === 'koios' || configured === 'ogmios' || configured === 'memory') {
+    return configured;
+  }
+  return blockfrostApiKey(network) ? 'blockfrost' : 'memory';
+}
+
+/**
+ * Build the provider for a kind and network from the environment
+ */
+export function createChainProvider(kind: ChainProviderKind, network: CardanoNetwork): ChainProvider {
+  switch (kind) {
+    case 'blockfrost': {
+      const apiKey = blockfrostApiKey(network);
+      if (!apiKey) {
+        throw new Error(`No Blockfrost project id configured for ${network}`);
+      }
+      return new BlockfrostProvider(network, apiKey);
+    }
+    case 'koios':
+      return new KoiosProvider(network, process.env.NEXT_PUBLIC_KOIOS_TOKEN, KOIOS_URL_OVERRIDES[network] || undefined);
+    case 'ogmios': {
+      const ogmiosUrl = OGMIOS_URLS[network];
+      const kupoUrl = KUPO_URLS[network];
+      if (!ogmiosUrl || !kupoUrl) {
+        throw new Error(`No Ogmios and Kupo endpoints configured for ${network}`);
+      }
+      return new OgmiosKupoProvider(network, ogmiosUrl, kupoUrl);
+    }
+    case 'memory':
+      return new MemoryChainProvider(network);
+  }
+}
+
+/**
+ * The shared provider for a network; the same instance is returned on every
+ * call so the in-memory backend keeps its state
+ */
+export function getChainProvider(network: CardanoNetwork): ChainProvider {
+  let provider = providers.get(network);
+  if (!provider) {
+    provider = createChainProvider(getChainProviderKind(network), network);
+    providers.set(network, provider);
+  }
+  return provider;
+}
+
+/**
+ * Swap the shared provider, e.g. for an emulator in CI
+ */
+export function setChainProvider(provider: ChainProvider): void {
+  providers.set(provider.network, provider);
+}
@@ -0,0 +1,283 @@
+// Koios backend
+import { castProtocol } from '@meshsdk/core';
+import type { Protocol, UTxO } from '@meshsdk/core';
+import {
+  AddressTransactionRef,
+  AssetInfo,
+  CardanoNetwork,
+  ChainProvider,
+  ChainProviderError,
+  ChainTip,
+  PageOptions,
+  TransactionDetails,
+  TransactionIO,
+  TransactionMetadatum,
+  TransactionUtxos
+} from './types';
+import { KOIOS_RATE_LIMIT, RequestScheduler } from './scheduler';
+import { assetNameText, basicAssetInfo, hexToBytes, joinMetadataString, toAssets } from './util';
+
+export const KOIOS_URLS: Record<CardanoNetwork, string> = {
+  preview: 'https://preview.koios.rest/api/v1',
+  preprod: 'https://preprod.koios.rest/api/v1',
+  mainnet: 'https://api.koios.rest/api/v1'
+};
+
+interface KoiosAsset {
+  policy_id: string;
+  asset_name: string | null;
+  quantity: string;
+}
+
+interface KoiosTxIO {
+  payment_addr: { bech32: string };
+  tx_hash: string;
+  tx_index: number;
+  value: string;
+  asset_list: KoiosAsset[] | null;
+}
+
+interface KoiosTxInfo {
+  tx_hash: string;
+  block_height: number;
+  tx_timestamp: number;
+  absolute_slot: number;
+  fee: string;
+  tx_size: number;
+  invalid_before: string | null;
+  invalid_after: string | null;
+  inputs: KoiosTxIO[] | null;
+  collateral_inputs: KoiosTxIO[] | null;
+  reference_inputs: KoiosTxIO[] | null;
+  outputs: KoiosTxIO[] | null;
+  plutus_contracts: Array<{ valid?: boolean }> | null;
+}
+
+const koiosAssets = (lovelace: string, assets: KoiosAsset[] | null) =>
+  toAssets(
+    lovelace,
+    (assets ?? []).map(asset => ({ unit: asset.policy_id + (asset.asset_name ?? ''), quantity: asset.quantity }))
+  );
+
+export class KoiosProvider implements ChainProvider {
+  readonly name = 'Koios';
+
+  constructor(
+    readonly network: CardanoNetwork,
+    private readonly token?: string,
+    private readonly url: string = KOIOS_URLS[network],
+    private readonly scheduler: RequestScheduler = new RequestScheduler(KOIOS_RATE_LIMIT)
+  ) {}
+
+  private async request<T>(path: string, body?: object): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Accept': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    const response = await this.scheduler.fetch(`${this.url}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers,
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      throw new ChainProviderError(this.name, `${path} failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return response.json();
+  }
+
+  private async txInfo(txHash: string): Promise<KoiosTxInfo> {
+    const [tx] = await this.request<KoiosTxInfo[]>('/tx_info', {
+      _tx_hashes: [txHash],
+      _inputs: true,
+      _metadata: true,
+      _assets: true,
+      _scripts: true
+    });
+    if (!tx) {
+      throw new ChainProviderError(this.name, `Transaction ${txHash} not found`, 404);
+    }
+    return tx;
+  }
+
+  async getAddressTransactions(address: string, { page = 1, count = 50 }: PageOptions = {}): Promise<AddressTransactionRef[]> {
+    const txs = await this.request<Array<{ tx_hash: string; block_height: number; block_time: number }>>(
+      `/address_txs?order=block_height.desc&offset=${(page - 1) * count}&limit=${count}`,
+      { _addresses: [address] }
+    );
+    return txs.map(tx => ({
+      txHash: tx.tx_hash,
+      blockHeight: tx.block_height,
+      blockTime: tx.block_time
+    }));
+  }
+
+  async getTransaction(txHash: string): Promise<TransactionDetails> {
+    const tx = await this.txInfo(txHash);
+    const outputAssets = (tx.outputs ?? []).flatMap(output => koiosAssets(output.value, output.asset_list));
+    const totals = new Map<string, bigint>();
+    outputAssets.forEach(asset => totals.set(asset.unit, (totals.get(asset.unit) ?? BigInt(0)) + BigInt(asset.quantity)));
+
+    return {
+      hash: tx.tx_hash,
+      blockHeight: tx.block_height,
+      blockTime: tx.tx_timestamp,
+      slot: tx.absolute_slot,
+      fees: tx.fee,
+      outputAmount: Array.from(totals, ([unit, quantity]) => ({ unit, quantity: quantity.toString() })),
+      size: tx.tx_size,
+      invalidBefore: tx.invalid_before ?? undefined,
+      invalidHereafter: tx.invalid_after ?? undefined,
+      validContract: (tx.plutus_contracts ?? []).every(contract => contract.valid !== false)
+    };
+  }
+
+  async getTransactionMetadata(txHash: string): Promise<TransactionMetadatum[]> {
+    const [tx] = await this.request<Array<{ tx_hash: string; metadata: Record<string, unknown> | null }>>(
+      '/tx_metadata',
+      { _tx_hashes: [txHash] }
+    );
+    return Object.entries(tx?.metadata ?? {}).map(([label, json]) => ({ label, json }));
+  }
+
+  async getTransactionUtxos(txHash: string): Promise<TransactionUtxos> {
+    const tx = await this.txInfo(txHash);
+    const toIO = (io: KoiosTxIO, flags: Partial<TransactionIO> = {}): TransactionIO => ({
+      address: io.payment_addr.bech32,
+      amount: koiosAssets(io.value, io.asset_list),
+      txHash: io.tx_hash,
+      outputIndex: io.tx_index,
+      ...flags
+    });
+
+    return {
+      hash: tx.tx_hash,
+      inputs: [
+        ...(tx.inputs ?? []).map(io => toIO(io)),
+        ...(tx.collateral_inputs ?? []).map(io => toIO(io, { collateral: true })),
+        ...(tx.reference_inputs ?? []).map(io => toIO(io, { reference: true }))
+      ],
+      outputs: (tx.outputs ?? []).map(io => toIO(io))
+    };
+  }
+
+  async getAddressUtxos(address: string): Promise<UTxO[]> {
+    const utxos = await this.request<Array<{
+      tx_hash: string;
+      tx_index: number;
+      address: string;
+      value: string;
+      datum_hash: string | null;
+      inline_datum: { bytes: string } | null;
+      reference_script: { hash: string } | null;
+      asset_list: KoiosAsset[] | null;
+    }>>('/address_utxos', { _addresses: [address], _extended: true });
+
+    return utxos.map(utxo => ({
+      input: { txHash: utxo.tx_hash, outputIndex: utxo.tx_index },
+      output: {
+        address: utxo.address,
+        amount: koiosAssets(utxo.value, utxo.asset_list),
+        dataHash: utxo.datum_hash ?? undefined,
+        plutusData: utxo.inline_datum?.bytes,
+        scriptHash: utxo.reference_script?.hash
+      }
+    }));
+  }
+
+  async getAccountAddresses(stakeAddress: string): Promise<string[]> {
+    const [account] = await this.request<Array<{ stake_address: string; addresses: string[] }>>(
+      '/account_addresses',
+      { _stake_addresses: [stakeAddress], _empty: true }
+    );
+    return account?.addresses ?? [];
+  }
+
+  async getAssetInfo(unit: string): Promise<AssetInfo> {
+    const info = basicAssetInfo(unit);
+    const [asset] = await this.request<Array<{
+      fingerprint: string;
+      token_registry_metadata: { name?: string; ticker?: string; decimals?: number; logo?: string } | null;
+      minting_tx_metadata: Record<string, Record<string, Record<string, Record<string, unknown>>>> | null;
+    }>>('/asset_info', { _asset_list: [[info.policyId, info.assetName]] });
+    if (!asset) {
+      throw new ChainProviderError(this.name, `Asset ${unit} not found`, 404);
+    }
+
+    // CIP-25 metadata of the mint, keyed by policy and then by the name as text
+    const onchain = asset.minting_tx_metadata?.['721']?.[info.policyId]?.[assetNameText(info.assetName)] ?? {};
+    const registry = asset.token_registry_metadata;
+    return {
+      ...info,
+      fingerprint: asset.fingerprint,
+      name: registry?.name ?? joinMetadataString(onchain.name) ?? info.name,
+      ticker: registry?.ticker,
+      decimals: registry?.decimals ?? 0,
+      image: registry?.logo ? `data:image/png;base64,${registry.logo}` : joinMetadataString(onchain.image)
+    };
+  }
+
+  async hasMempoolTransaction(txHash: string): Promise<boolean> {
+    throw new ChainProviderError(this.name, `Looking up ${txHash} in the mempool is not supported`, 501);
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const [tip] = await this.request<Array<{ hash: string; epoch_no: number; abs_slot: number; block_no: number; block_time: number }>>('/tip');
+    return {
+      hash: tip.hash,
+      height: tip.block_no,
+      slot: tip.abs_slot,
+      epoch: tip.epoch_no,
+      time: tip.block_time
+    };
+  }
+
+  async getProtocolParameters(): Promise<Protocol> {
+    const { epoch } = await this.getTip();
+    const [params] = await this.request<Array<Record<string, string | number>>>(`/epoch_params?_epoch_no=${epoch}`);
+    return castProtocol({
+      epoch: params.epoch_no,
+      minFeeA: params.min_fee_a,
+      minFeeB: params.min_fee_b,
+      maxBlockSize: params.max_block_size,
+      maxTxSize: params.max_tx_size,
+      maxBlockHeaderSize: params.max_bh_size,
+      keyDeposit: params.key_deposit,
+      poolDeposit: params.pool_deposit,
+      decentralisation: params.decentralisation,
+      minPoolCost: params.min_pool_cost,
+      priceMem: params.price_mem,
+      priceStep: params.price_step,
+      maxTxExMem: params.max_tx_ex_mem,
+      maxTxExSteps: params.max_tx_ex_steps,
+      maxBlockExMem: params.max_block_ex_mem,
+      maxBlockExSteps: params.max_block_ex_steps,
+      maxValSize: params.max_val_size,
+      collateralPercent: params.collateral_percent,
+      maxCollateralInputs: params.max_collateral_inputs,
+      coinsPerUtxoSize: params.coins_per_utxo_size,
+      minFeeRefScriptCostPerByte: params.min_fee_ref_script_cost_per_byte
+    });
+  }
+
+  async submitTx(txCbor: string): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/cbor' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    const response = await this.scheduler.fetch(`${this.url}/submittx`, {
+      method: 'POST',
+      headers,
+      body: hexToBytes(txCbor)
+    });
+
+    if (!response.ok) {
+      throw new ChainProviderError(this.name, `Transaction submit failed: ${await response.text()}`, response.status);
+    }
+
+    return response.json();
+  }
+}
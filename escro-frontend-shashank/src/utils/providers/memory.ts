@@ -0,0 +1,177 @@
+// In-memory backend for CI and offline demos
+import { DEFAULT_PROTOCOL_PARAMETERS, pubKeyAddress, resolveTxHash, serializeAddressObj } from '@meshsdk/core';
+import type { Protocol, UTxO } from '@meshsdk/core';
+import {
+  AddressTransactionRef,
+  AssetInfo,
+  CardanoNetwork,
+  ChainProvider,
+  ChainProviderError,
+  ChainTip,
+  PageOptions,
+  TransactionDetails,
+  TransactionMetadatum,
+  TransactionUtxos
+} from './types';
+import { basicAssetInfo, stakeCredentialHash, toAssets } from './util';
+
+// Everything the provider knows about one transaction
+export interface MemoryTransaction {
+  details: TransactionDetails;
+  utxos: TransactionUtxos;
+  metadata: TransactionMetadatum[];
+}
+
+export interface MemoryChainState {
+  transactions?: MemoryTransaction[];
+  utxos?: UTxO[];
+  tip?: ChainTip;
+  protocolParameters?: Protocol;
+  assets?: AssetInfo[];
+}
+
+export class MemoryChainProvider implements ChainProvider {
+  readonly name: string = 'In-memory';
+  readonly submitted: string[] = [];
+  protected readonly transactions = new Map<string, MemoryTransaction>();
+  protected utxos: UTxO[];
+  protected tip: ChainTip;
+  protected readonly protocolParameters: Protocol;
+  protected readonly assets = new Map<string, AssetInfo>();
+
+  constructor(readonly network: CardanoNetwork, state: MemoryChainState = {}) {
+    state.transactions?.forEach(tx => this.addTransaction(tx));
+    this.utxos = [...(state.utxos ?? [])];
+    this.tip = state.tip ?? { hash: '00'.repeat(32), height: 0, slot: 0, epoch: 0, time: Math.floor(Date.now() / 1000) };
+    this.protocolParameters = state.protocolParameters ?? DEFAULT_PROTOCOL_PARAMETERS;
+    state.assets?.forEach(asset => this.addAsset(asset));
+  }
+
+  addTransaction(tx: MemoryTransaction): void {
+    this.transactions.set(tx.details.hash, tx);
+  }
+
+  hasTransaction(txHash: string): boolean {
+    return this.transactions.has(txHash);
+  }
+
+  addUtxo(utxo: UTxO): void {
+    this.utxos.push(utxo);
+  }
+
+  addAsset(asset: AssetInfo): void {
+    this.assets.set(asset.unit, asset);
+  }
+
+  setTip(tip: ChainTip): void {
+    this.tip = tip;
+  }
+
+  protected findTransaction(txHash: string): MemoryTransaction {
+    const tx = this.transactions.get(txHash);
+    if (!tx) {
+      throw new ChainProviderError(this.name, `Transaction ${txHash} not found`, 404);
+    }
+    return tx;
+  }
+
+  async getAddressTransactions(address: string, { page = 1, count = 50 }: PageOptions = {}): Promise<AddressTransactionRef[]> {
+    return Array.from(this.transactions.values())
+      .filter(({ utxos }) => [...utxos.inputs, ...utxos.outputs].some(io => io.address === address))
+      .sort((a, b) => b.details.blockTime - a.details.blockTime)
+      .slice((page - 1) * count, page * count)
+      .map(({ details }) => ({
+        txHash: details.hash,
+        blockHeight: details.blockHeight,
+        blockTime: details.blockTime
+      }));
+  }
+
+  async getTransaction(txHash: string): Promise<TransactionDetails> {
+    return this.findTransaction(txHash).details;
+  }
+
+  async getTransactionMetadata(txHash: string): Promise<TransactionMetadatum[]> {
+    return this.findTransaction(txHash).metadata;
+  }
+
+  async getTransactionUtxos(txHash: string): Promise<TransactionUtxos> {
+    return this.findTransaction(txHash).utxos;
+  }
+
+  async getAddressUtxos(address: string): Promise<UTxO[]> {
+    return this.utxos.filter(utxo => utxo.output.address === address);
+  }
+
+  async getAccountAddresses(stakeAddress: string): Promise<string[]> {
+    const credential = stakeCredentialHash(stakeAddress);
+    const known = new Set<string>([
+      ...this.utxos.map(utxo => utxo.output.address),
+      ...Array.from(this.transactions.values()).flatMap(({ utxos }) =>
+        [...utxos.inputs, ...utxos.outputs].map(io => io.address)
+      )
+    ]);
+    return Array.from(known).filter(address => !address.startsWith('stake') && stakeCredentialHash(address) === credential);
+  }
+
+  async getAssetInfo(unit: string): Promise<AssetInfo> {
+    return this.assets.get(unit) ?? basicAssetInfo(unit);
+  }
+
+  async getTip(): Promise<ChainTip> {
+    return this.tip;
+  }
+
+  // Submitted transactions wait here until a test adds them to the chain
+  async hasMempoolTransaction(txHash: string): Promise<boolean> {
+    return this.submitted.includes(txHash) && !this.transactions.has(txHash);
+  }
+
+  async getProtocolParameters(): Promise<Protocol> {
+    return this.protocolParameters;
+  }
+
+  async submitTx(txCbor: string): Promise<string> {
+    const txHash = resolveTxHash(txCbor);
+    this.submitted.push(txHash);
+    return txHash;
+  }
+}
+
+/**
+ * Seed two confirmed transfers from `address`, each carrying a CIP-20 message,
+ * so the dashboard has something to show without a backend
+ */
+export function seedDemoTransactions(provider: MemoryChainProvider, address: string): void {
+  const demoRecipient = serializeAddressObj(pubKeyAddress('d0'.repeat(28)), provider.network === 'mainnet' ? 1 : 0);
+  const now = Math.floor(Date.now() / 1000);
+  const demos = [
+    { hash: '1234567890abcdef'.repeat(4), age: 86400, lovelace: 10_500_000, fees: 200_000, blockHeight: 12345, message: 'Test transaction message' },
+    { hash: 'abcdef1234567890'.repeat(4), age: 172800, lovelace: 5_000_000, fees: 180_000, blockHeight: 12340, message: 'Another test message' }
+  ];
+
+  for (const demo of demos) {
+    if (provider.hasTransaction(demo.hash)) continue;
+
+    provider.addTransaction({
+      details: {
+        hash: demo.hash,
+        blockHeight: demo.blockHeight,
+        blockTime: now - demo.age,
+        slot: demo.blockHeight * 20,
+        fees: demo.fees.toString(),
+        outputAmount: toAssets(demo.lovelace),
+        size: 300,
+        validContract: true
+      },
+      utxos: {
+        hash: demo.hash,
+        inputs: [{ address, amount: toAssets(demo.lovelace + demo.fees), txHash: '00'.repeat(32), outputIndex: 0 }],
+        outputs: [{ address: demoRecipient, amount: toAssets(demo.lovelace), txHash: demo.hash, outputIndex: 0 }]
+      },
+      metadata: [{ label: '674', json: { msg: [demo.message] } }]
+    });
+  }
+
+  provider.setTip({ hash: 'ff'.repeat(32), height: 12445, slot: 12445 * 20, epoch: 0, time: now });
+}
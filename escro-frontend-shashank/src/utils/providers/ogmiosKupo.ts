@@ -0,0 +1,292 @@
+// Ogmios/Kupo backend: Kupo indexes outputs and metadata, Ogmios answers
+// ledger queries and submits. Kupo does not track block heights or fees.
+import { SLOT_CONFIG_NETWORK, castProtocol, slotToBeginUnixTime } from '@meshsdk/core';
+import type { Protocol, UTxO } from '@meshsdk/core';
+import {
+  AddressTransactionRef,
+  AssetInfo,
+  CardanoNetwork,
+  ChainProvider,
+  ChainProviderError,
+  ChainTip,
+  PageOptions,
+  TransactionDetails,
+  TransactionMetadatum,
+  TransactionUtxos
+} from './types';
+import { basicAssetInfo, stakeCredentialHash, toAssets } from './util';
+
+interface KupoPoint {
+  slot_no: number;
+  header_hash: string;
+}
+
+interface KupoMatch {
+  transaction_index: number;
+  transaction_id: string;
+  output_index: number;
+  address: string;
+  value: { coins: number; assets?: Record<string, number> };
+  datum_hash: string | null;
+  datum_type?: 'hash' | 'inline';
+  script_hash: string | null;
+  created_at: KupoPoint;
+  spent_at: (KupoPoint & { transaction_id?: string }) | null;
+}
+
+// Kupo's detailed metadata schema, see https://cardanosolutions.github.io/kupo/#tag/Metadata
+type KupoMetadatum =
+  | { int: number | string }
+  | { string: string }
+  | { bytes: string }
+  | { list: KupoMetadatum[] }
+  | { map: Array<{ k: KupoMetadatum; v: KupoMetadatum }> };
+
+const fromKupoMetadatum = (metadatum: KupoMetadatum): unknown => {
+  if ('int' in metadatum) return Number(metadatum.int);
+  if ('string' in metadatum) return metadatum.string;
+  if ('bytes' in metadatum) return metadatum.bytes;
+  if ('list' in metadatum) return metadatum.list.map(fromKupoMetadatum);
+  return Object.fromEntries(
+    metadatum.map.map(({ k, v }) => [String(fromKupoMetadatum(k)), fromKupoMetadatum(v)])
+  );
+};
+
+// Kupo encodes asset ids as `policyId.assetName`
+const kupoAssets = (value: KupoMatch['value']) =>
+  toAssets(
+    value.coins,
+    Object.entries(value.assets ?? {}).map(([unit, quantity]) => ({ unit: unit.replace('.', ''), quantity }))
+  );
+
+// Ogmios encodes ratios such as execution prices as "numerator/denominator"
+const ratio = (value: string): number => {
+  const [numerator, denominator = '1'] = value.split('/');
+  return Number(numerator) / Number(denominator);
+};
+
+export class OgmiosKupoProvider implements ChainProvider {
+  readonly name = 'Ogmios/Kupo';
+
+  constructor(
+    readonly network: CardanoNetwork,
+    private readonly ogmiosUrl: string,
+    private readonly kupoUrl: string
+  ) {}
+
+  private slotToUnix(slot: number): number {
+    return Math.floor(slotToBeginUnixTime(slot, SLOT_CONFIG_NETWORK[this.network]) / 1000);
+  }
+
+  private async kupo<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.kupoUrl}${path}`, { headers: { 'Accept': 'application/json' } });
+
+    if (!response.ok) {
+      throw new ChainProviderError(this.name, `Kupo ${path} failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return response.json();
+  }
+
+  private async ogmios<T>(method: string, params?: object): Promise<T> {
+    const response = await fetch(this.ogmiosUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', method, params, id: null })
+    });
+
+    if (!response.ok) {
+      throw new ChainProviderError(this.name, `Ogmios ${method} failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const body: { result?: T; error?: { code: number; message: string } } = await response.json();
+    if (body.error) {
+      throw new ChainProviderError(this.name, `Ogmios ${method} failed: ${body.error.message}`, body.error.code);
+    }
+    return body.result as T;
+  }
+
+  private async transactionOutputs(txHash: string): Promise<KupoMatch[]> {
+    const outputs = await this.kupo<KupoMatch[]>(`/matches/*@${txHash}`);
+    if (outputs.length === 0) {
+      throw new ChainProviderError(this.name, `Transaction ${txHash} not found`, 404);
+    }
+    return outputs.sort((a, b) => a.output_index - b.output_index);
+  }
+
+  async getAddressTransactions(address: string, { page = 1, count = 50 }: PageOptions = {}): Promise<AddressTransactionRef[]> {
+    const matches = await this.kupo<KupoMatch[]>(`/matches/${address}?order=most_recent_first`);
+
+    // An address is touched both by the transactions paying to it and the ones spending from it
+    const slots = new Map<string, number>();
+    for (const match of matches) {
+      slots.set(match.transaction_id, match.created_at.slot_no);
+      if (match.spent_at?.transaction_id) {
+        slots.set(match.spent_at.transaction_id, match.spent_at.slot_no);
+      }
+    }
+
+    return Array.from(slots, ([txHash, slot]) => ({ txHash, slot }))
+      .sort((a, b) => b.slot - a.slot)
+      .slice((page - 1) * count, page * count)
+      .map(({ txHash, slot }) => ({
+        txHash,
+        blockHeight: null,
+        blockTime: this.slotToUnix(slot)
+      }));
+  }
+
+  async getTransaction(txHash: string): Promise<TransactionDetails> {
+    const outputs = await this.transactionOutputs(txHash);
+    const totals = new Map<string, bigint>();
+    outputs
+      .flatMap(output => kupoAssets(output.value))
+      .forEach(asset => totals.set(asset.unit, (totals.get(asset.unit) ?? BigInt(0)) + BigInt(asset.quantity)));
+    const { slot_no: slot } = outputs[0].created_at;
+
+    return {
+      hash: txHash,
+      blockHeight: null,
+      blockTime: this.slotToUnix(slot),
+      slot,
+      fees: null,
+      outputAmount: Array.from(totals, ([unit, quantity]) => ({ unit, quantity: quantity.toString() })),
+      size: 0,
+      validContract: true
+    };
+  }
+
+  async getTransactionMetadata(txHash: string): Promise<TransactionMetadatum[]> {
+    const [output] = await this.transactionOutputs(txHash);
+    const metadata = await this.kupo<Array<{ hash: string; schema: Record<string, KupoMetadatum> }>>(
+      `/metadata/${output.created_at.slot_no}?transaction_id=${txHash}`
+    );
+
+    return metadata.flatMap(entry =>
+      Object.entries(entry.schema).map(([label, metadatum]) => ({ label, json: fromKupoMetadatum(metadatum) }))
+    );
+  }
+
+  async getTransactionUtxos(txHash: string): Promise<TransactionUtxos> {
+    // Kupo only indexes outputs; the spent inputs of a transaction cannot be listed
+    throw new ChainProviderError(this.name, `Resolving the inputs of ${txHash} is not supported`, 501);
+  }
+
+  async getAddressUtxos(address: string): Promise<UTxO[]> {
+    const matches = await this.kupo<KupoMatch[]>(`/matches/${address}?unspent`);
+
+    return Promise.all(
+      matches.map(async match => {
+        let plutusData: string | undefined;
+        if (match.datum_type === 'inline' && match.datum_hash) {
+          const { datum } = await this.kupo<{ datum: string }>(`/datums/${match.datum_hash}`);
+          plutusData = datum;
+        }
+
+        return {
+          input: { txHash: match.transaction_id, outputIndex: match.output_index },
+          output: {
+            address: match.address,
+            amount: kupoAssets(match.value),
+            dataHash: match.datum_hash ?? undefined,
+            plutusData,
+            scriptHash: match.script_hash ?? undefined
+          }
+        };
+      })
+    );
+  }
+
+  async getAccountAddresses(stakeAddress: string): Promise<string[]> {
+    const credential = stakeCredentialHash(stakeAddress);
+    if (!credential) {
+      throw new ChainProviderError(this.name, `${stakeAddress} is not a stake address`, 400);
+    }
+    // Kupo patterns are `payment/delegation`; match any payment part with our delegation
+    const matches = await this.kupo<KupoMatch[]>(`/matches/*/${credential}`);
+    return Array.from(new Set(matches.map(match => match.address)));
+  }
+
+  async getAssetInfo(unit: string): Promise<AssetInfo> {
+    // Neither Ogmios nor Kupo indexes the token registry or minting metadata
+    return basicAssetInfo(unit);
+  }
+
+  async hasMempoolTransaction(txHash: string): Promise<boolean> {
+    // Ogmios only monitors the mempool over a websocket session, not over HTTP
+    throw new ChainProviderError(this.name, `Looking up ${txHash} in the mempool is not supported`, 501);
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const [tip, height, epoch] = await Promise.all([
+      this.ogmios<{ slot: number; id: string }>('queryNetwork/tip'),
+      this.ogmios<number>('queryNetwork/blockHeight'),
+      this.ogmios<number>('queryLedgerState/epoch')
+    ]);
+
+    return {
+      hash: tip.id,
+      height,
+      slot: tip.slot,
+      epoch,
+      time: this.slotToUnix(tip.slot)
+    };
+  }
+
+  async getProtocolParameters(): Promise<Protocol> {
+    type Lovelace = { ada: { lovelace: number } };
+    type Bytes = { bytes: number };
+    type ExUnits = { memory: number; cpu: number };
+    const [params, epoch] = await Promise.all([
+      this.ogmios<{
+        minFeeCoefficient: number;
+        minFeeConstant: Lovelace;
+        maxBlockBodySize: Bytes;
+        maxTransactionSize: Bytes;
+        maxBlockHeaderSize: Bytes;
+        stakeCredentialDeposit: Lovelace;
+        stakePoolDeposit: Lovelace;
+        minStakePoolCost: Lovelace;
+        scriptExecutionPrices: { memory: string; cpu: string };
+        maxExecutionUnitsPerTransaction: ExUnits;
+        maxExecutionUnitsPerBlock: ExUnits;
+        maxValueSize: Bytes;
+        collateralPercentage: number;
+        maxCollateralInputs: number;
+        minUtxoDepositCoefficient: number;
+        minFeeReferenceScripts?: { base: number };
+      }>('queryLedgerState/protocolParameters'),
+      this.ogmios<number>('queryLedgerState/epoch')
+    ]);
+
+    return castProtocol({
+      epoch,
+      minFeeA: params.minFeeCoefficient,
+      minFeeB: params.minFeeConstant.ada.lovelace,
+      maxBlockSize: params.maxBlockBodySize.bytes,
+      maxTxSize: params.maxTransactionSize.bytes,
+      maxBlockHeaderSize: params.maxBlockHeaderSize.bytes,
+      keyDeposit: params.stakeCredentialDeposit.ada.lovelace,
+      poolDeposit: params.stakePoolDeposit.ada.lovelace,
+      minPoolCost: params.minStakePoolCost.ada.lovelace,
+      priceMem: ratio(params.scriptExecutionPrices.memory),
+      priceStep: ratio(params.scriptExecutionPrices.cpu),
+      maxTxExMem: params.maxExecutionUnitsPerTransaction.memory,
+      maxTxExSteps: params.maxExecutionUnitsPerTransaction.cpu,
+      maxBlockExMem: params.maxExecutionUnitsPerBlock.memory,
+      maxBlockExSteps: params.maxExecutionUnitsPerBlock.cpu,
+      maxValSize: params.maxValueSize.bytes,
+      collateralPercent: params.collateralPercentage,
+      maxCollateralInputs: params.maxCollateralInputs,
+      coinsPerUtxoSize: params.minUtxoDepositCoefficient,
+      minFeeRefScriptCostPerByte: params.minFeeReferenceScripts?.base
+    });
+  }
+
+  async submitTx(txCbor: string): Promise<string> {
+    const result = await this.ogmios<{ transaction: { id: string } }>('submitTransaction', {
+      transaction: { cbor: txCbor }
+    });
+    return result.transaction.id;
+  }
+}
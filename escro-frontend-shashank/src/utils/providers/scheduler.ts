@@ -0,0 +1,126 @@
+// Request scheduling for rate-limited HTTP backends: a token bucket in front of
+// fetch, with retries and exponential backoff on 429 and 5xx responses
+
+export interface RateLimit {
+  requestsPerSecond: number;
+  burst: number;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Every Blockfrost plan allows 10 req/s with a burst of 500; plans only differ in daily quota
+export const BLOCKFROST_RATE_LIMIT: RateLimit = { requestsPerSecond: 10, burst: 500 };
+
+// Koios public tier, shared by everyone calling without a token
+export const KOIOS_RATE_LIMIT: RateLimit = { requestsPerSecond: 10, burst: 100 };
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 5, baseDelayMs: 500, maxDelayMs: 30_000 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Token bucket: holds up to `burst` tokens, refilled at `requestsPerSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(private readonly limit: RateLimit) {
+    this.tokens = limit.burst;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit.burst,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.limit.requestsPerSecond
+    );
+    this.refilledAt = now;
+  }
+
+  /**
+   * Wait until a token is available and take it
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.limit.requestsPerSecond) * 1000);
+    }
+  }
+}
+
+/**
+ * Backoff before retry `attempt` (0-based), honouring a Retry-After header in seconds
+ */
+const backoffDelay = (attempt: number, retry: RetryOptions, retryAfter: string | null): number => {
+  const requested = retryAfter ? Number(retryAfter) * 1000 : NaN;
+  if (Number.isFinite(requested)) {
+    return Math.min(requested, retry.maxDelayMs);
+  }
+  // Full jitter keeps parallel callers from retrying in lockstep
+  return Math.random() * Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+};
+
+/**
+ * fetch() that waits for the rate limiter and retries throttled or failed requests
+ */
+export class RequestScheduler {
+  private readonly bucket: TokenBucket;
+
+  constructor(limit: RateLimit, private readonly retry: RetryOptions = DEFAULT_RETRY) {
+    this.bucket = new TokenBucket(limit);
+  }
+
+  async fetch(input: string, init?: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+
+      let response: Response;
+      try {
+        response = await fetch(input, init);
+      } catch (error) {
+        // Network failure: retry like a 5xx
+        if (attempt >= this.retry.retries) throw error;
+        await sleep(backoffDelay(attempt, this.retry, null));
+        continue;
+      }
+
+      if (!isRetryable(response.status) || attempt >= this.retry.retries) {
+        return response;
+      }
+      await sleep(backoffDelay(attempt, this.retry, response.headers.get('Retry-After')));
+    }
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
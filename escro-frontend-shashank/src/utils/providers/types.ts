@@ -0,0 +1,105 @@
+// Chain provider abstraction shared by the Blockfrost, Koios, Ogmios/Kupo and in-memory backends
+import type { Asset, Protocol, UTxO } from '@meshsdk/core';
+
+export type CardanoNetwork = 'preview' | 'preprod' | 'mainnet';
+
+// A transaction touching an address, newest first
+export interface AddressTransactionRef {
+  txHash: string;
+  blockHeight: number | null; // null when the backend only indexes slots
+  blockTime: number; // unix seconds
+}
+
+export interface TransactionDetails {
+  hash: string;
+  blockHeight: number | null;
+  blockTime: number; // unix seconds
+  slot: number;
+  fees: string | null; // lovelace; null when the backend does not index fees
+  outputAmount: Asset[];
+  size: number;
+  invalidBefore?: string;
+  invalidHereafter?: string;
+  validContract: boolean;
+}
+
+export interface TransactionMetadatum {
+  label: string;
+  json: unknown;
+}
+
+// A resolved input or output of a transaction
+export interface TransactionIO {
+  address: string;
+  amount: Asset[];
+  txHash: string;
+  outputIndex: number;
+  collateral?: boolean;
+  reference?: boolean;
+}
+
+export interface TransactionUtxos {
+  hash: string;
+  inputs: TransactionIO[];
+  outputs: TransactionIO[];
+}
+
+export interface ChainTip {
+  hash: string;
+  height: number;
+  slot: number;
+  epoch: number;
+  time: number; // unix seconds
+}
+
+// Display metadata of a native asset, from the token registry or its minting metadata
+export interface AssetInfo {
+  unit: string; // policy id + asset name hex
+  policyId: string;
+  assetName: string; // hex
+  fingerprint: string; // CIP-14 asset1...
+  name: string; // registry or CIP-25 name, else the asset name as text
+  ticker?: string;
+  decimals: number; // 0 for NFTs and unregistered tokens
+  image?: string; // URL, data URI or ipfs:// link
+}
+
+export interface PageOptions {
+  page?: number;
+  count?: number;
+}
+
+/**
+ * Read and submit access to a Cardano network
+ */
+export interface ChainProvider {
+  readonly name: string;
+  readonly network: CardanoNetwork;
+  getAddressTransactions(address: string, options?: PageOptions): Promise<AddressTransactionRef[]>;
+  getTransaction(txHash: string): Promise<TransactionDetails>;
+  getTransactionMetadata(txHash: string): Promise<TransactionMetadatum[]>;
+  getTransactionUtxos(txHash: string): Promise<TransactionUtxos>;
+  getAddressUtxos(address: string): Promise<UTxO[]>;
+  getAccountAddresses(stakeAddress: string): Promise<string[]>;
+  getAssetInfo(unit: string): Promise<AssetInfo>;
+  getTip(): Promise<ChainTip>;
+  hasMempoolTransaction(txHash: string): Promise<boolean>; // whether the backend's node is holding it for a block
+  getProtocolParameters(): Promise<Protocol>;
+  submitTx(txCbor: string): Promise<string>;
+}
+
+/**
+ * Raised by a provider when the backend fails or cannot answer a query.
+ * `status` is the HTTP status, or 501 when the backend does not support the query at all.
+ */
+export class ChainProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+
+  constructor(provider: string, message: string, status?: number) {
+    super(`${provider}: ${message}`);
+    this.name = 'ChainProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
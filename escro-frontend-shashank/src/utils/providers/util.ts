@@ -0,0 +1,72 @@
+// Helpers shared by the provider adapters
+import { deserializeAddress, resolveFingerprint } from '@meshsdk/core';
+import type { Asset } from '@meshsdk/core';
+import type { AssetInfo } from './types';
+
+export const hexToBytes = (hex: string) => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Build a Mesh asset list from lovelace and `policyId + assetName` quantities
+ */
+export const toAssets = (lovelace: string | number, tokens: Array<{ unit: string; quantity: string | number }> = []): Asset[] => [
+  { unit: 'lovelace', quantity: lovelace.toString() },
+  ...tokens.map(token => ({ unit: token.unit, quantity: token.quantity.toString() }))
+];
+
+/**
+ * The stake credential hash of a reward address, or of the delegation part of a base address
+ */
+export const stakeCredentialHash = (address: string): string | undefined => {
+  try {
+    const parts = deserializeAddress(address);
+    if (address.startsWith('stake')) {
+      return parts.pubKeyHash || parts.scriptHash || undefined;
+    }
+    return parts.stakeCredentialHash || parts.stakeScriptCredentialHash || undefined;
+  } catch {
+    return undefined; // Byron and pointer addresses carry no stake credential
+  }
+};
+
+/**
+ * An asset name as text when it is printable UTF-8, otherwise its hex
+ */
+export const assetNameText = (assetName: string): string => {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(assetName));
+    return /^[\x20-\x7e\u00a0-\uffff]+$/.test(text) ? text : assetName;
+  } catch {
+    return assetName;
+  }
+};
+
+/**
+ * What a unit alone tells about an asset, before any registry or minting metadata
+ */
+export const basicAssetInfo = (unit: string): AssetInfo => {
+  const policyId = unit.slice(0, 56);
+  const assetName = unit.slice(56);
+  return {
+    unit,
+    policyId,
+    assetName,
+    fingerprint: resolveFingerprint(policyId, assetName),
+    name: assetName ? assetNameText(assetName) : policyId.slice(0, 8),
+    decimals: 0
+  };
+};
+
+/**
+ * CIP-25 splits long strings (image URLs) into arrays of 64-byte chunks
+ */
+export const joinMetadataString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(part => typeof part === 'string')) return value.join('');
+  return undefined;
+};
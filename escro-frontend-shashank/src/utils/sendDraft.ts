@@ -0,0 +1,58 @@
+// The send form's parameters carried in the home page's query string, so a failed send can be
+// retried from the dashboard with the form already filled in.
+import type { LocalTransaction } from './txStore';
+
+export interface SendDraft {
+  recipient: string;
+  amount: string; // ADA
+  message?: string;
+  category?: string;
+  escrow?: boolean; // lock the funds in escrow instead of paying the recipient
+}
+
+type Query = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * The draft to retry a recorded send with, for failed and cancelled sends made from the send form
+ */
+export function retryDraft(record: LocalTransaction): SendDraft | undefined {
+  if (record.status !== 'failed' && record.status !== 'cancelled') return undefined;
+  // Legacy records have no type; only the send form wrote them
+  if (record.type !== undefined && record.type !== 'direct' && record.type !== 'escrow') return undefined;
+  return {
+    recipient: record.recipient,
+    amount: record.amount,
+    message: record.message,
+    category: record.category,
+    escrow: record.type === 'escrow' || undefined
+  };
+}
+
+export function sendDraftQuery(draft: SendDraft): Record<string, string> {
+  return {
+    recipient: draft.recipient,
+    amount: draft.amount,
+    ...(draft.message && { message: draft.message }),
+    ...(draft.category && { category: draft.category }),
+    ...(draft.escrow && { escrow: '1' })
+  };
+}
+
+/**
+ * The draft in a page query, if it carries one
+ */
+export function parseSendDraft(query: Query): SendDraft | undefined {
+  const recipient = first(query.recipient);
+  const amount = first(query.amount);
+  if (!recipient || !amount) return undefined;
+  return {
+    recipient,
+    amount,
+    message: first(query.message),
+    category: first(query.category),
+    escrow: first(query.escrow) === '1' || undefined
+  };
+}
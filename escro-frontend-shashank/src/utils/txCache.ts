@@ -0,0 +1,93 @@
+// Persistent cache of final transactions, keyed by tx hash.
+// A final transaction never changes, so entries are never invalidated.
+import type { CardanoNetwork, TransactionDetails, TransactionMetadatum, TransactionUtxos } from './providers';
+
+// Blocks on top after which a rollback is not expected in practice; the ledger's own bound is k = 2160
+export const FINALITY_CONFIRMATIONS = 15;
+
+export interface CachedTransaction {
+  hash: string;
+  network: CardanoNetwork;
+  details: TransactionDetails;
+  metadata: TransactionMetadatum[];
+  utxos: TransactionUtxos | null; // null when the backend cannot resolve inputs
+}
+
+export interface TransactionCache {
+  get(hash: string): Promise<CachedTransaction | undefined>;
+  put(entry: CachedTransaction): Promise<void>;
+}
+
+const DB_NAME = 'escrow-tx-cache';
+const DB_VERSION = 1;
+const STORE = 'transactions';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Cache backed by IndexedDB; failures (private browsing, quota) degrade to cache misses
+ */
+export class IndexedDbTransactionCache implements TransactionCache {
+  private db?: Promise<IDBDatabase>;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'hash' });
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  async get(hash: string): Promise<CachedTransaction | undefined> {
+    try {
+      const db = await this.open();
+      return await promisify<CachedTransaction | undefined>(db.transaction(STORE).objectStore(STORE).get(hash));
+    } catch (error) {
+      console.warn('Transaction cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  async put(entry: CachedTransaction): Promise<void> {
+    try {
+      const db = await this.open();
+      await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+    } catch (error) {
+      console.warn('Transaction cache write failed:', error);
+    }
+  }
+}
+
+/**
+ * Cache for environments without IndexedDB (server rendering, scripts)
+ */
+export class MemoryTransactionCache implements TransactionCache {
+  private readonly entries = new Map<string, CachedTransaction>();
+
+  async get(hash: string): Promise<CachedTransaction | undefined> {
+    return this.entries.get(hash);
+  }
+
+  async put(entry: CachedTransaction): Promise<void> {
+    this.entries.set(entry.hash, entry);
+  }
+}
+
+let sharedCache: TransactionCache | undefined;
+
+/**
+ * The shared cache: IndexedDB in the browser, in-memory elsewhere
+ */
+export function getTransactionCache(): TransactionCache {
+  if (!sharedCache) {
+    sharedCache = typeof indexedDB === 'undefined' ? new MemoryTransactionCache() : new IndexedDbTransactionCache();
+  }
+  return sharedCache;
+}
@@ -0,0 +1,322 @@
+// Why a transaction could not be sent, as stable codes in five kinds: the wallet refused or
+// failed, the transaction could not be built, a script rejected it, the ledger rejected it on
+// submit, or the chain backend failed. Errors from wallets, Mesh, the ledger and the providers
+// are mapped to these codes once, here, so the UI can explain them and group them.
+import { AddressError } from './address';
+import { EscrowTransitionError } from './escrowStateMachine';
+import { MessageError } from './messageMetadata';
+import { PlutusDataError } from './plutusData';
+import { ChainProviderError } from './providers';
+import { MetadataError } from './txMetadata';
+import type { LedgerRejectionError, LedgerRule } from './emulator';
+
+export type TxErrorKind = 'wallet' | 'build' | 'script' | 'submit' | 'provider';
+
+export type WalletErrorCode =
+  | 'wallet-declined' // the user declined to sign
+  | 'wallet-cannot-sign' // the wallet does not hold the keys the transaction needs
+  | 'wallet-refused' // the wallet refused access, e.g. after disconnecting the site
+  | 'wallet-account-changed'
+  | 'wallet-invalid-request'
+  | 'wallet-submit-refused' // the wallet would not submit the transaction
+  | 'wallet-failed';
+
+export type BuildErrorCode =
+  | 'insufficient-funds'
+  | 'invalid-address'
+  | 'invalid-input' // a form value, message or escrow action the transaction cannot carry
+  | 'tx-too-large'
+  | 'build-failed';
+
+export type ScriptErrorCode =
+  | 'script-failed' // the escrow validator rejected the spend
+  | 'no-collateral'
+  | 'insufficient-collateral'
+  | 'budget-exceeded';
+
+export type SubmitErrorCode =
+  | 'inputs-spent' // an input is no longer unspent, usually a send from elsewhere got there first
+  | 'outside-validity'
+  | 'value-not-conserved'
+  | 'fee-too-small'
+  | 'missing-signature'
+  | 'tx-expired'
+  | 'tx-dropped'
+  | 'tx-rolled-back'
+  | 'submit-rejected';
+
+export type ProviderErrorCode =
+  | 'provider-unavailable'
+  | 'provider-rate-limited'
+  | 'provider-unsupported'
+  | 'provider-failed';
+
+export type TxErrorCode = WalletErrorCode | BuildErrorCode | ScriptErrorCode | SubmitErrorCode | ProviderErrorCode;
+
+// Where in sending an error came from; CIP-30 reuses its codes across calls
+export type TxStage = 'build' | 'sign' | 'submit';
+
+// Short names, for headings and badges
+export const TX_ERROR_LABELS: Record<TxErrorCode, string> = {
+  'wallet-declined': 'Declined in wallet',
+  'wallet-cannot-sign': 'Wallet cannot sign',
+  'wallet-refused': 'Wallet access refused',
+  'wallet-account-changed': 'Wallet account changed',
+  'wallet-invalid-request': 'Invalid wallet request',
+  'wallet-submit-refused': 'Wallet refused to submit',
+  'wallet-failed': 'Wallet error',
+  'insufficient-funds': 'Insufficient funds',
+  'invalid-address': 'Invalid address',
+  'invalid-input': 'Invalid details',
+  'tx-too-large': 'Transaction too large',
+  'build-failed': 'Could not build',
+  'script-failed': 'Script rejected',
+  'no-collateral': 'No collateral',
+  'insufficient-collateral': 'Insufficient collateral',
+  'budget-exceeded': 'Script budget exceeded',
+  'inputs-spent': 'Inputs already spent',
+  'outside-validity': 'Outside validity interval',
+  'value-not-conserved': 'Value not balanced',
+  'fee-too-small': 'Fee too small',
+  'missing-signature': 'Missing signature',
+  'tx-expired': 'Expired',
+  'tx-dropped': 'Dropped',
+  'tx-rolled-back': 'Rolled back',
+  'submit-rejected': 'Rejected by the network',
+  'provider-unavailable': 'Backend unavailable',
+  'provider-rate-limited': 'Backend rate limit',
+  'provider-unsupported': 'Not supported by backend',
+  'provider-failed': 'Backend error'
+};
+
+// What happened and what to do about it
+export const TX_ERROR_MESSAGES: Record<TxErrorCode, string> = {
+  'wallet-declined': 'The transaction was declined in the wallet. Nothing was sent.',
+  'wallet-cannot-sign': 'The wallet could not sign this transaction. Check that the connected account is the one holding the funds or the escrow.',
+  'wallet-refused': 'The wallet refused access. Reconnect it and try again.',
+  'wallet-account-changed': 'The wallet switched accounts. Reconnect it and review the transaction again.',
+  'wallet-invalid-request': 'The wallet rejected the request as invalid. Try again, or update the wallet extension.',
+  'wallet-submit-refused': 'The wallet refused to submit the transaction. Check its network setting matches this app.',
+  'wallet-failed': 'The wallet ran into an error. Try again, or reconnect it.',
+  'insufficient-funds': 'Not enough ADA to cover the amount, the fee and the deposit. Lower the amount, or use Max.',
+  'invalid-address': 'The address is not valid for this network. Check it and try again.',
+  'invalid-input': 'Some of the details cannot be sent as entered. Check them and try again.',
+  'tx-too-large': 'The transaction is over the size limit. Send fewer payments or a shorter message.',
+  'build-failed': 'The transaction could not be built. Try again.',
+  'script-failed': 'The escrow script rejected this action. Check that it is still allowed, e.g. the deadline has not passed.',
+  'no-collateral': 'The wallet offers no collateral. Set collateral in the wallet (a 5 ADA UTxO) and try again.',
+  'insufficient-collateral': 'The wallet\'s collateral is too small. Set a larger collateral UTxO in the wallet.',
+  'budget-exceeded': 'The script needs more resources than a transaction may use. Try an action with fewer milestones.',
+  'inputs-spent': 'Some of the funds were spent by another transaction. Wait for it to confirm, then try again.',
+  'outside-validity': 'The transaction is no longer valid, or not valid yet. Review it again to rebuild it.',
+  'value-not-conserved': 'The transaction does not balance. Review it again to rebuild it.',
+  'fee-too-small': 'The fee is too low for the current protocol parameters. Review it again to rebuild it.',
+  'missing-signature': 'A required signature is missing. Sign with the wallet that holds the funds or the escrow key.',
+  'tx-expired': 'The transaction expired before it made it into a block. Nothing was sent; try again.',
+  'tx-dropped': 'The transaction was dropped from the mempool. Nothing was sent; try again.',
+  'tx-rolled-back': 'The transaction was rolled back by a chain fork. Nothing was sent; try again.',
+  'submit-rejected': 'The network rejected the transaction. Review it again to rebuild it.',
+  'provider-unavailable': 'The blockchain backend cannot be reached. Check the connection, or switch provider.',
+  'provider-rate-limited': 'The blockchain backend is rate limiting requests. Wait a minute and try again.',
+  'provider-unsupported': 'The blockchain backend does not support this. Switch provider and try again.',
+  'provider-failed': 'The blockchain backend returned an error. Try again.'
+};
+
+// Codes whose underlying message says more than the generic one; the builders explain themselves
+const SPECIFIC_CODES = new Set<TxErrorCode>(['invalid-address', 'invalid-input', 'tx-too-large', 'build-failed']);
+
+/**
+ * Raised when a transaction cannot be sent. `message` is for the user; `detail` keeps the
+ * message of the error it was mapped from.
+ */
+export class TransactionError extends Error {
+  readonly kind: TxErrorKind;
+  readonly code: TxErrorCode;
+  readonly detail?: string;
+
+  constructor(kind: TxErrorKind, code: TxErrorCode, detail?: string) {
+    super(SPECIFIC_CODES.has(code) && detail ? detail : TX_ERROR_MESSAGES[code]);
+    this.name = 'TransactionError';
+    this.kind = kind;
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+export class WalletError extends TransactionError {
+  constructor(code: WalletErrorCode, detail?: string) {
+    super('wallet', code, detail);
+    this.name = 'WalletError';
+  }
+}
+
+export class BuildError extends TransactionError {
+  constructor(code: BuildErrorCode, detail?: string) {
+    super('build', code, detail);
+    this.name = 'BuildError';
+  }
+}
+
+export class ScriptError extends TransactionError {
+  constructor(code: ScriptErrorCode, detail?: string) {
+    super('script', code, detail);
+    this.name = 'ScriptError';
+  }
+}
+
+export class SubmitError extends TransactionError {
+  constructor(code: SubmitErrorCode, detail?: string) {
+    super('submit', code, detail);
+    this.name = 'SubmitError';
+  }
+}
+
+export class ProviderError extends TransactionError {
+  constructor(code: ProviderErrorCode, detail?: string) {
+    super('provider', code, detail);
+    this.name = 'ProviderError';
+  }
+}
+
+// Ledger predicate failures, named as in the Conway ledger rules; nodes and backends quote them in their errors
+const LEDGER_RULE_ERRORS: Record<LedgerRule, (detail: string) => TransactionError> = {
+  BadInputsUTxO: detail => new SubmitError('inputs-spent', detail),
+  OutsideValidityIntervalUTxO: detail => new SubmitError('outside-validity', detail),
+  ValueNotConservedUTxO: detail => new SubmitError('value-not-conserved', detail),
+  FeeTooSmallUTxO: detail => new SubmitError('fee-too-small', detail),
+  MissingVKeyWitnessesUTXOW: detail => new SubmitError('missing-signature', detail),
+  InvalidWitnessesUTXOW: detail => new SubmitError('missing-signature', detail),
+  NoCollateralInputs: detail => new ScriptError('no-collateral', detail),
+  InsufficientCollateral: detail => new ScriptError('insufficient-collateral', detail),
+  ExUnitsTooBigUTxO: detail => new ScriptError('budget-exceeded', detail),
+  ScriptFailure: detail => new ScriptError('script-failed', detail)
+};
+
+// Names a real node reports for a failing script
+const SCRIPT_FAILURE_RULES = ['ValidationTagMismatch', 'PlutusFailure', 'ScriptWitnessNotValidatingUTXOW'];
+
+const LEDGER_RULE_PATTERN = new RegExp(`\\b(${[...Object.keys(LEDGER_RULE_ERRORS), ...SCRIPT_FAILURE_RULES].join('|')})\\b`);
+
+/**
+ * The ledger rejection quoted in a node, backend or wallet error, if there is one
+ */
+const ledgerRejection = (detail: string): TransactionError | undefined => {
+  const rule = LEDGER_RULE_PATTERN.exec(detail)?.[1];
+  if (!rule) return undefined;
+  return SCRIPT_FAILURE_RULES.includes(rule)
+    ? new ScriptError('script-failed', detail)
+    : LEDGER_RULE_ERRORS[rule as LedgerRule](detail);
+};
+
+// Mesh reports build failures as plain Errors; these are the ones it raises with a fixed message
+const MESH_BUILD_FAILURES: Array<[string, (detail: string) => TransactionError]> = [
+  ['Not enough UTxOs', detail => new BuildError('insufficient-funds', detail)],
+  ['Insufficient input', detail => new BuildError('insufficient-funds', detail)],
+  ['Tx evaluation failed', detail => new ScriptError('script-failed', detail)],
+  ['Evaluate redeemers failed', detail => new ScriptError('script-failed', detail)]
+];
+
+// @cardano-sdk input selection failures, raised by Mesh's Transaction builder, by their message
+const INPUT_SELECTION_FAILURES: Record<string, BuildErrorCode> = {
+  'UTxO Balance Insufficient': 'insufficient-funds',
+  'UTxO Fully Depleted': 'insufficient-funds',
+  'UTxO Not Fragmented Enough': 'insufficient-funds',
+  'Maximum Input Count Exceeded': 'tx-too-large'
+};
+
+// CIP-30 error codes: APIError is negative, TxSignError and TxSendError share 1 and 2
+interface Cip30Error {
+  code: number;
+  info?: string;
+}
+
+const isCip30Error = (error: unknown): error is Cip30Error =>
+  typeof error === 'object' && error !== null && typeof (error as Cip30Error).code === 'number';
+
+const API_ERRORS: Record<number, WalletErrorCode> = {
+  [-1]: 'wallet-invalid-request',
+  [-2]: 'wallet-failed',
+  [-3]: 'wallet-refused',
+  [-4]: 'wallet-account-changed'
+};
+
+const walletError = ({ code, info }: Cip30Error, stage: TxStage): TransactionError => {
+  const detail = info ?? `code ${code}`;
+  if (code < 0) return new WalletError(API_ERRORS[code] ?? 'wallet-failed', detail);
+  if (stage === 'submit') {
+    // TxSendError: 1 Refused, 2 Failure; wallets pass on the node's reason
+    return ledgerRejection(detail) ?? new WalletError(code === 1 ? 'wallet-submit-refused' : 'wallet-failed', detail);
+  }
+  // TxSignError: 1 ProofGeneration, 2 UserDeclined
+  return new WalletError(code === 2 ? 'wallet-declined' : code === 1 ? 'wallet-cannot-sign' : 'wallet-failed', detail);
+};
+
+const isLedgerRejection = (error: ChainProviderError): error is LedgerRejectionError =>
+  typeof (error as LedgerRejectionError).rule === 'string';
+
+const providerError = (error: ChainProviderError, stage: TxStage): TransactionError => {
+  if (isLedgerRejection(error)) return LEDGER_RULE_ERRORS[error.rule](error.message);
+  if (error.status === 429) return new ProviderError('provider-rate-limited', error.message);
+  if (error.status === 501) return new ProviderError('provider-unsupported', error.message);
+  // No status: the request never got an answer
+  if (error.status === undefined || error.status >= 500) return new ProviderError('provider-unavailable', error.message);
+  if (stage === 'submit' && error.status === 400) {
+    return ledgerRejection(error.message) ?? new SubmitError('submit-rejected', error.message);
+  }
+  return new ProviderError('provider-failed', error.message);
+};
+
+/**
+ * Map any error raised while sending a transaction to its code. `stage` tells which
+ * step raised it, for errors that do not say themselves.
+ */
+export function toTransactionError(error: unknown, stage: TxStage): TransactionError {
+  if (error instanceof TransactionError) return error;
+  if (error instanceof ChainProviderError) return providerError(error, stage);
+  if (error instanceof AddressError) return new BuildError('invalid-address', error.message);
+  if (
+    error instanceof MessageError ||
+    error instanceof MetadataError ||
+    error instanceof PlutusDataError ||
+    error instanceof EscrowTransitionError
+  ) {
+    return new BuildError('invalid-input', error.message);
+  }
+  // Wallets hand CIP-30 errors on as they are, plain objects or not
+  if (isCip30Error(error)) return walletError(error, stage);
+
+  const detail =
+    error instanceof Error ? error.message : typeof error === 'string' ? error : error == null ? '' : JSON.stringify(error);
+  // Input selection failures carry a `failure` field, though wrappers may pass on only the message
+  const failure = (error as { failure?: string } | undefined)?.failure ?? detail;
+  const selection = Object.keys(INPUT_SELECTION_FAILURES).find(reason => failure.includes(reason));
+  if (selection) return new BuildError(INPUT_SELECTION_FAILURES[selection], detail);
+  const meshFailure = MESH_BUILD_FAILURES.find(([prefix]) => detail.includes(prefix));
+  if (meshFailure) return meshFailure[1](detail);
+  if (error instanceof TypeError && detail.includes('fetch')) return new ProviderError('provider-unavailable', detail);
+
+  switch (stage) {
+    case 'build':
+      return new BuildError('build-failed', detail);
+    case 'sign':
+      return new WalletError('wallet-failed', detail);
+    case 'submit':
+      return ledgerRejection(detail) ?? new SubmitError('submit-rejected', detail);
+  }
+}
+
+/**
+ * Run one step of sending a transaction, raising its failures as TransactionErrors
+ */
+export async function withStage<T>(stage: TxStage, step: () => Promise<T>): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    throw toTransactionError(error, stage);
+  }
+}
+
+/**
+ * Whether the user stopped the transaction, as opposed to it failing
+ */
+export const isCancellation = (error: TransactionError): boolean => error.code === 'wallet-declined';
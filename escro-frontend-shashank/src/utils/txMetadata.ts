@@ -0,0 +1,304 @@
+// The metadata this app attaches to its transactions: one versioned schema under the CIP-20
+// message label (674), so wallets and explorers still show the message. Transactions written
+// before the schema used other shapes, and label 721, which CIP-25 reserves for NFT metadata;
+// readTxMetadata understands those as well. Kept free of dependencies beyond messageMetadata
+// so the other frontends in this repo can import it as source.
+import { MESSAGE_LABEL, METADATA_STRING_BYTES, chunkUtf8, joinChunks } from './messageMetadata';
+import type { MessageMetadata } from './messageMetadata';
+
+export const TX_METADATA_LABEL = MESSAGE_LABEL;
+
+export const TX_METADATA_VERSION = 1;
+
+// Label of the escrow and transfer records written before the schema
+const LEGACY_LABEL = 721;
+
+export type TxMetadataType = 'direct_transfer' | 'batch_transfer' | 'escrow';
+
+// Creation, then the escrow contract's spend actions (EscrowAction)
+const ESCROW_LINK_ACTIONS = [
+  'Create',
+  'ConfirmSender',
+  'ConfirmReceiver',
+  'Release',
+  'Refund',
+  'OpenDispute',
+  'Resolve',
+  'ReleaseMilestone'
+] as const;
+
+export type EscrowLinkAction = (typeof ESCROW_LINK_ACTIONS)[number];
+
+// Ties a transaction to the escrow it created or acted on
+export interface EscrowLink {
+  id: string; // the datum's transaction_id
+  action: EscrowLinkAction;
+  // Terms, recorded on creation only; parties are payment key hashes
+  sender?: string;
+  receiver?: string;
+  amount?: number; // lovelace
+  refundDeadline?: number; // POSIX milliseconds
+  autoReleaseDeadline?: number;
+  arbiter?: string;
+  milestones?: number[]; // lovelace per stage
+}
+
+export interface TxMetadata {
+  version: number; // TX_METADATA_VERSION, or 0 when read from an older format
+  type?: TxMetadataType; // absent on messages written by other apps
+  message?: MessageMetadata;
+  category?: string;
+  // Batch transfers: message line i and categories[i] label output outputs[i]
+  outputs?: number[];
+  categories?: string[];
+  timestamp?: number; // unix seconds
+  escrow?: EscrowLink;
+}
+
+export class MetadataError extends Error {
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.name = 'MetadataError';
+    this.field = field;
+  }
+}
+
+const TX_METADATA_TYPES: TxMetadataType[] = ['direct_transfer', 'batch_transfer', 'escrow'];
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMetadataString = (value: unknown): value is string =>
+  typeof value === 'string' && utf8Length(value) <= METADATA_STRING_BYTES;
+
+const isNatural = (value: unknown): value is number => Number.isSafeInteger(value) && (value as number) >= 0;
+
+/**
+ * The label 674 value for `metadata`, ready for `tx.setMetadata(TX_METADATA_LABEL, ...)`
+ */
+export function encodeTxMetadata(metadata: Omit<TxMetadata, 'version'>): Record<string, unknown> {
+  const { message, escrow } = metadata;
+  return {
+    ...(message ?? { msg: [] }),
+    v: TX_METADATA_VERSION,
+    ...(metadata.type && { type: metadata.type }),
+    ...(metadata.category !== undefined && { category: metadata.category }),
+    ...(metadata.outputs && { outputs: metadata.outputs }),
+    ...(metadata.categories && { categories: metadata.categories }),
+    ...(metadata.timestamp !== undefined && { ts: metadata.timestamp }),
+    ...(escrow && {
+      escrow: {
+        id: escrow.id,
+        action: escrow.action,
+        ...(escrow.sender && { sender: escrow.sender }),
+        ...(escrow.receiver && { receiver: escrow.receiver }),
+        ...(escrow.amount !== undefined && { amount: escrow.amount }),
+        ...(escrow.refundDeadline !== undefined && { refund_deadline: escrow.refundDeadline }),
+        ...(escrow.autoReleaseDeadline !== undefined && { auto_release_deadline: escrow.autoReleaseDeadline }),
+        ...(escrow.arbiter && { arbiter: escrow.arbiter }),
+        ...(escrow.milestones && escrow.milestones.length > 0 && { milestones: escrow.milestones })
+      }
+    })
+  };
+}
+
+const validateEscrowLink = (json: unknown): EscrowLink => {
+  if (!isRecord(json)) throw new MetadataError('escrow', 'escrow must be a map');
+  const { id, action } = json;
+  if (!isMetadataString(id) || id === '') throw new MetadataError('escrow.id', 'escrow.id must be a metadata string');
+  if (!(ESCROW_LINK_ACTIONS as readonly unknown[]).includes(action)) {
+    throw new MetadataError('escrow.action', `Unknown escrow action ${String(action)}`);
+  }
+
+  const link: EscrowLink = { id, action: action as EscrowLinkAction };
+  for (const [field, key] of [['sender', 'sender'], ['receiver', 'receiver'], ['arbiter', 'arbiter']] as const) {
+    const value = json[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !/^[0-9a-f]{56}$/.test(value)) {
+      throw new MetadataError(`escrow.${field}`, `escrow.${field} must be a payment key hash`);
+    }
+    link[key] = value;
+  }
+  for (const [field, key] of [
+    ['amount', 'amount'],
+    ['refund_deadline', 'refundDeadline'],
+    ['auto_release_deadline', 'autoReleaseDeadline']
+  ] as const) {
+    const value = json[field];
+    if (value === undefined) continue;
+    if (!isNatural(value)) throw new MetadataError(`escrow.${field}`, `escrow.${field} must be a natural number`);
+    link[key] = value;
+  }
+  if (json.milestones !== undefined) {
+    if (!Array.isArray(json.milestones) || !json.milestones.every(isNatural)) {
+      throw new MetadataError('escrow.milestones', 'escrow.milestones must be a list of lovelace amounts');
+    }
+    link.milestones = json.milestones;
+  }
+  return link;
+};
+
+/**
+ * Check a label 674 value against the schema and read it.
+ * Throws a `MetadataError` naming the first field that does not conform.
+ */
+export function validateTxMetadata(json: unknown): TxMetadata {
+  if (!isRecord(json)) throw new MetadataError('', 'Metadata must be a map');
+  const { v, type, msg, enc, category, outputs, categories, ts, escrow } = json;
+
+  if (v !== TX_METADATA_VERSION) {
+    throw new MetadataError('v', `Unsupported metadata version ${String(v)}`);
+  }
+  if (type !== undefined && !TX_METADATA_TYPES.includes(type as TxMetadataType)) {
+    throw new MetadataError('type', `Unknown transaction type ${String(type)}`);
+  }
+  if (!Array.isArray(msg) || !msg.every(isMetadataString)) {
+    throw new MetadataError('msg', `msg must be a list of strings of at most ${METADATA_STRING_BYTES} bytes`);
+  }
+  if (enc !== undefined && enc !== 'basic') {
+    throw new MetadataError('enc', `Unsupported encryption ${String(enc)}`);
+  }
+  if (category !== undefined && !isMetadataString(category)) {
+    throw new MetadataError('category', 'category must be a metadata string');
+  }
+  if (outputs !== undefined) {
+    if (!Array.isArray(outputs) || !outputs.every(isNatural) || outputs.length !== msg.length) {
+      throw new MetadataError('outputs', 'outputs must give an output index for every msg line');
+    }
+  }
+  if (categories !== undefined) {
+    if (!Array.isArray(categories) || !categories.every(isMetadataString) || categories.length !== msg.length) {
+      throw new MetadataError('categories', 'categories must give a category for every msg line');
+    }
+  }
+  if (ts !== undefined && !isNatural(ts)) {
+    throw new MetadataError('ts', 'ts must be a unix timestamp in seconds');
+  }
+  if (type === 'escrow' && escrow === undefined) {
+    throw new MetadataError('escrow', 'An escrow transaction must link its escrow');
+  }
+
+  return {
+    version: TX_METADATA_VERSION,
+    type: type as TxMetadataType | undefined,
+    message: enc === 'basic' ? { enc, msg } : { msg },
+    category: category as string | undefined,
+    outputs: outputs as number[] | undefined,
+    categories: categories as string[] | undefined,
+    timestamp: ts as number | undefined,
+    escrow: escrow === undefined ? undefined : validateEscrowLink(escrow)
+  };
+}
+
+const stringLines = (value: unknown): string[] | undefined =>
+  Array.isArray(value) && value.every(line => typeof line === 'string') ? value : undefined;
+
+const optionalNumber = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+
+/**
+ * Read the shapes written before the schema: category, type and per-output lines under 674
+ * (other wallets' CIP-20 messages among them), escrow and transfer records under 721
+ */
+const readLegacyTxMetadata = (
+  message: unknown,
+  legacy: Record<string, unknown> | undefined
+): TxMetadata | undefined => {
+  const result: TxMetadata = { version: 0 };
+
+  if (typeof message === 'string') {
+    result.message = { msg: chunkUtf8(message) };
+  } else if (isRecord(message)) {
+    const msg = stringLines(message.msg);
+    if (msg) result.message = message.enc === 'basic' ? { enc: 'basic', msg } : { msg };
+    if (TX_METADATA_TYPES.includes(message.type as TxMetadataType)) result.type = message.type as TxMetadataType;
+    if (typeof message.category === 'string') result.category = message.category;
+    // Batch transfers kept one category per output under `category`
+    const categories = stringLines(message.category);
+    if (categories) result.categories = categories;
+    if (Array.isArray(message.outputs) && message.outputs.every(isNatural)) {
+      result.outputs = message.outputs;
+      result.type = 'batch_transfer';
+    }
+    result.timestamp = optionalNumber(message.timestamp) ?? optionalNumber(message.ts);
+  }
+
+  // 721 escrow and transfer records; anything else there is NFT metadata
+  const record = [legacy?.escrow, legacy?.transaction].find(
+    (entry): entry is Record<string, unknown> => isRecord(entry) && typeof entry.transaction_id === 'string'
+  );
+  if (record) {
+    if (typeof record.category === 'string') result.category = record.category;
+    result.timestamp = result.timestamp ?? optionalNumber(record.timestamp);
+    // Before the message moved to 674 it was a single string here
+    if (!result.message && typeof record.message === 'string') {
+      result.message = { msg: chunkUtf8(record.message) };
+    }
+    if (record === legacy?.escrow) {
+      result.type = 'escrow';
+      result.escrow = {
+        id: record.transaction_id as string,
+        action: 'Create',
+        sender: typeof record.sender === 'string' ? record.sender : undefined,
+        receiver: typeof record.receiver === 'string' ? record.receiver : undefined,
+        amount: optionalNumber(record.amount),
+        refundDeadline: optionalNumber(record.refund_deadline),
+        autoReleaseDeadline: optionalNumber(record.auto_release_deadline),
+        arbiter: typeof record.arbiter === 'string' ? record.arbiter : undefined,
+        milestones: Array.isArray(record.milestones) ? record.milestones.filter(isNatural) : undefined
+      };
+    } else {
+      result.type = 'direct_transfer';
+    }
+  }
+
+  return result.message || result.type || result.category ? result : undefined;
+};
+
+/**
+ * Read a transaction's metadata, given as {label, json} entries, in the current schema or
+ * any format written before it. Metadata claiming the schema but breaking it is ignored.
+ */
+export function readTxMetadata(metadata: { label: string; json: unknown }[]): TxMetadata | undefined {
+  const json = (label: number) => metadata.find(meta => meta.label === String(label))?.json;
+  const message = json(TX_METADATA_LABEL);
+  if (isRecord(message) && message.v !== undefined) {
+    try {
+      return validateTxMetadata(message);
+    } catch (error) {
+      console.warn('Ignoring malformed transaction metadata:', error);
+      return undefined;
+    }
+  }
+  const legacy = json(LEGACY_LABEL);
+  return readLegacyTxMetadata(message, isRecord(legacy) ? legacy : undefined);
+}
+
+/**
+ * The readable text of the message, or of the lines labelling `ownOutputs` when
+ * the message carries one line per output. Undefined when there is none or it is encrypted.
+ */
+export function txMessageText(metadata: TxMetadata, ownOutputs?: number[]): string | undefined {
+  const { message, outputs } = metadata;
+  if (!message || message.enc || message.msg.length === 0) return undefined;
+  if (ownOutputs && outputs) {
+    const lines = message.msg.filter((_, index) => ownOutputs.includes(outputs[index]));
+    if (lines.length > 0) return lines.join(' ');
+  }
+  return joinChunks(message.msg);
+}
+
+/**
+ * The category of the transaction, or of the first of `ownOutputs` in a batch transfer
+ */
+export function txCategory(metadata: TxMetadata, ownOutputs?: number[]): string | undefined {
+  const { outputs, categories } = metadata;
+  if (categories) {
+    const index = ownOutputs && outputs ? outputs.findIndex(output => ownOutputs.includes(output)) : -1;
+    return categories[index === -1 ? 0 : index];
+  }
+  return metadata.category;
+}
@@ -0,0 +1,255 @@
+// Simulation of a built transaction before it is signed: what it spends and creates, what it
+// costs and what the wallet holds afterwards. Also builds the "send everything" transaction,
+// which the regular builder cannot, since it always adds a change output.
+import { DEFAULT_PROTOCOL_PARAMETERS, MeshTxBuilder, core, getOutputMinLovelace, resolveTxHash } from '@meshsdk/core';
+import type { Asset, IWallet, Protocol, UTxO } from '@meshsdk/core';
+import { CardanoNetwork, getChainProvider } from './providers';
+import { BuildError } from './txErrors';
+
+export interface PreviewInput {
+  txHash: string;
+  outputIndex: number;
+  address?: string; // unknown for inputs neither the wallet nor the caller holds
+  amount?: Asset[];
+  own: boolean;
+}
+
+export interface PreviewOutput {
+  address: string;
+  amount: Asset[];
+  own: boolean; // change, or anything else paid back to the wallet
+  hasDatum: boolean;
+  minLovelace: bigint; // what the ledger requires this output to carry
+}
+
+export interface ExecutionBudget {
+  mem: bigint;
+  steps: bigint;
+  fee: bigint; // the part of the fee paying for the budget
+}
+
+export interface TxPreview {
+  txHash: string;
+  size: number; // bytes, before the wallet adds its signatures
+  fee: bigint;
+  inputs: PreviewInput[];
+  outputs: PreviewOutput[];
+  collateral: PreviewInput[];
+  budget?: ExecutionBudget; // only when the transaction runs scripts
+  balanceBefore: Asset[];
+  balanceAfter: Asset[];
+}
+
+interface TxOutputDraft {
+  address: string;
+  amount: Asset[];
+}
+
+// Transaction metadata as MeshTxBuilder.metadataValue takes it
+export interface TxMetadataEntry {
+  label: number;
+  value: object;
+}
+
+const outRefKey = (txHash: string, outputIndex: number) => `${txHash}#${outputIndex}`;
+
+const addAssets = (totals: Map<string, bigint>, amount: Asset[], sign: bigint = BigInt(1)) =>
+  amount.forEach(asset => totals.set(asset.unit, (totals.get(asset.unit) ?? BigInt(0)) + sign * BigInt(asset.quantity)));
+
+// Lovelace first, then tokens; units that net to zero are dropped
+const toAssets = (totals: Map<string, bigint>): Asset[] =>
+  Array.from(totals)
+    .filter(([unit, quantity]) => quantity !== BigInt(0) || unit === 'lovelace')
+    .sort(([a], [b]) => (a === 'lovelace' ? -1 : b === 'lovelace' ? 1 : a.localeCompare(b)))
+    .map(([unit, quantity]) => ({ unit, quantity: quantity.toString() }));
+
+const lovelaceOf = (amount: Asset[]): bigint =>
+  BigInt(amount.find(asset => asset.unit === 'lovelace')?.quantity ?? '0');
+
+const walletAddresses = async (wallet: IWallet): Promise<Set<string>> =>
+  new Set([
+    ...(await wallet.getUsedAddresses()),
+    ...(await wallet.getUnusedAddresses()),
+    await wallet.getChangeAddress()
+  ]);
+
+/**
+ * The protocol parameters of a network, or Mesh's defaults when its provider cannot be reached
+ */
+export async function fetchProtocolParameters(network: CardanoNetwork): Promise<Protocol> {
+  try {
+    return await getChainProvider(network).getProtocolParameters();
+  } catch (error) {
+    console.warn('Using default protocol parameters:', error);
+    return DEFAULT_PROTOCOL_PARAMETERS;
+  }
+}
+
+/**
+ * Decode an unsigned transaction and simulate it against the wallet's UTxOs.
+ * Pass `otherUtxos` for inputs the wallet does not hold, such as an escrow being spent.
+ */
+export async function previewTransaction(
+  wallet: IWallet,
+  unsignedTx: string,
+  otherUtxos: UTxO[] = [],
+  params: Protocol = DEFAULT_PROTOCOL_PARAMETERS
+): Promise<TxPreview> {
+  const tx = core.deserializeTx(unsignedTx);
+  const body = tx.body();
+  const txHash = resolveTxHash(unsignedTx);
+  const own = await walletAddresses(wallet);
+  const walletUtxos = await wallet.getUtxos();
+
+  const known = new Map<string, UTxO>();
+  [...walletUtxos, ...otherUtxos].forEach(utxo => known.set(outRefKey(utxo.input.txHash, utxo.input.outputIndex), utxo));
+  const resolve = (input: core.TransactionInput): PreviewInput => {
+    const utxo = known.get(outRefKey(input.transactionId(), Number(input.index())));
+    return {
+      txHash: input.transactionId(),
+      outputIndex: Number(input.index()),
+      address: utxo?.output.address,
+      amount: utxo?.output.amount,
+      own: utxo !== undefined && own.has(utxo.output.address)
+    };
+  };
+
+  const outputs = body.outputs().map((output, index) => {
+    const { output: { address, amount, plutusData } } = core.fromTxUnspentOutput(
+      new core.TransactionUnspentOutput(new core.TransactionInput(core.TransactionId(txHash), BigInt(index)), output)
+    );
+    return {
+      address,
+      amount,
+      own: own.has(address),
+      hasDatum: plutusData !== undefined,
+      minLovelace: getOutputMinLovelace(
+        {
+          address,
+          amount,
+          ...(plutusData && { datum: { type: 'Inline', data: { type: 'CBOR', content: plutusData } } })
+        },
+        params.coinsPerUtxoSize
+      )
+    };
+  });
+
+  let budget: ExecutionBudget | undefined;
+  const redeemers = tx.witnessSet().redeemers()?.values() ?? [];
+  if (redeemers.length > 0) {
+    const mem = redeemers.reduce((sum, redeemer) => sum + redeemer.exUnits().mem(), BigInt(0));
+    const steps = redeemers.reduce((sum, redeemer) => sum + redeemer.exUnits().steps(), BigInt(0));
+    const fee = Math.ceil(params.priceMem * Number(mem) + params.priceStep * Number(steps));
+    budget = { mem, steps, fee: BigInt(fee) };
+  }
+
+  const inputs = body.inputs().values().map(resolve);
+  // Collateral is a set on the ledger, though builders may list an input twice
+  const collateral = new Map<string, PreviewInput>();
+  body.collateral()?.values().map(resolve).forEach(input => collateral.set(outRefKey(input.txHash, input.outputIndex), input));
+  const balance = new Map<string, bigint>();
+  walletUtxos.forEach(utxo => addAssets(balance, utxo.output.amount));
+  const balanceBefore = toAssets(balance);
+  inputs.filter(input => input.own).forEach(input => addAssets(balance, input.amount!, BigInt(-1)));
+  outputs.filter(output => output.own).forEach(output => addAssets(balance, output.amount));
+
+  return {
+    txHash,
+    size: unsignedTx.length / 2,
+    fee: body.fee(),
+    inputs,
+    outputs,
+    collateral: Array.from(collateral.values()),
+    budget,
+    balanceBefore,
+    balanceAfter: toAssets(balance)
+  };
+}
+
+/**
+ * An unbalanced draft spending every UTxO: `tokens` and `lovelace` to the recipient, the
+ * `change` tokens back to the wallet, and nothing else
+ */
+const draftSendAll = (
+  utxos: UTxO[],
+  recipientAddress: string,
+  tokens: Asset[],
+  lovelace: bigint,
+  change: TxOutputDraft | undefined,
+  metadata: TxMetadataEntry | undefined,
+  fee: bigint,
+  params: Protocol
+): { builder: MeshTxBuilder; unsignedTx: string } => {
+  const builder = new MeshTxBuilder({ params });
+  utxos.forEach(utxo => builder.txIn(utxo.input.txHash, utxo.input.outputIndex, utxo.output.amount, utxo.output.address));
+  builder.txOut(recipientAddress, [{ unit: 'lovelace', quantity: lovelace.toString() }, ...tokens]);
+  if (change) builder.txOut(change.address, change.amount);
+  if (metadata) builder.metadataValue(metadata.label, metadata.value);
+  builder.setFee(fee.toString());
+  return { builder, unsignedTx: builder.completeUnbalancedSync() };
+};
+
+/**
+ * Build the transaction sending everything the wallet can: all its lovelace but the fee
+ * and what its remaining tokens must carry, with `tokens` and `metadata` attached
+ */
+export async function buildSendAllTx(
+  wallet: IWallet,
+  recipientAddress: string,
+  tokens: Asset[] = [],
+  metadata?: TxMetadataEntry,
+  params: Protocol = DEFAULT_PROTOCOL_PARAMETERS
+): Promise<{ unsignedTx: string; lovelace: bigint; fee: bigint }> {
+  const utxos = await wallet.getUtxos();
+  const totals = new Map<string, bigint>();
+  utxos.forEach(utxo => addAssets(totals, utxo.output.amount));
+  const total = totals.get('lovelace') ?? BigInt(0);
+
+  // Tokens not sent go back to the wallet, with the least lovelace they may carry
+  addAssets(totals, tokens, BigInt(-1));
+  const leftoverTokens = toAssets(totals).filter(asset => asset.unit !== 'lovelace');
+  if (leftoverTokens.some(asset => BigInt(asset.quantity) < BigInt(0))) {
+    throw new BuildError('invalid-input', 'The wallet does not hold the tokens to send');
+  }
+  let change: TxOutputDraft | undefined;
+  if (leftoverTokens.length > 0) {
+    const address = await wallet.getChangeAddress();
+    const minLovelace = getOutputMinLovelace(
+      { address, amount: [{ unit: 'lovelace', quantity: total.toString() }, ...leftoverTokens] },
+      params.coinsPerUtxoSize
+    );
+    change = { address, amount: [{ unit: 'lovelace', quantity: minLovelace.toString() }, ...leftoverTokens] };
+  }
+  const changeLovelace = change ? lovelaceOf(change.amount) : BigInt(0);
+
+  // Size the fee with the amount and fee at their largest; the final numbers only encode shorter
+  const fee = draftSendAll(utxos, recipientAddress, tokens, total, change, metadata, total, params).builder.calculateFee();
+  const lovelace = total - fee - changeLovelace;
+
+  const recipientMin = getOutputMinLovelace(
+    { address: recipientAddress, amount: [{ unit: 'lovelace', quantity: lovelace.toString() }, ...tokens] },
+    params.coinsPerUtxoSize
+  );
+  if (lovelace < recipientMin) {
+    throw new BuildError('insufficient-funds', `Not enough ADA: the payment needs ${recipientMin} lovelace after the ${fee} lovelace fee`);
+  }
+
+  const { unsignedTx } = draftSendAll(utxos, recipientAddress, tokens, lovelace, change, metadata, fee, params);
+  return { unsignedTx, lovelace, fee };
+}
+
+/**
+ * The most lovelace the wallet can send in one transaction with `tokens` and `metadata`.
+ * Without a recipient yet, the wallet's own change address stands in for sizing.
+ */
+export async function maxSendableLovelace(
+  wallet: IWallet,
+  recipientAddress?: string,
+  tokens: Asset[] = [],
+  metadata?: TxMetadataEntry,
+  params: Protocol = DEFAULT_PROTOCOL_PARAMETERS
+): Promise<bigint> {
+  const recipient = recipientAddress || (await wallet.getChangeAddress());
+  const { lovelace } = await buildSendAllTx(wallet, recipient, tokens, metadata, params);
+  return lovelace;
+}
@@ -0,0 +1,283 @@
+// Transactions sent from this browser, including the attempts that never made it on chain.
+// Records are kept per network and per wallet, in IndexedDB, with no cap on their number.
+import type { CardanoNetwork } from './providers';
+import type { TxErrorCode } from './txErrors';
+
+export type LocalTransactionStatus = 'success' | 'failed' | 'pending' | 'cancelled';
+
+export type LocalTransactionType =
+  | 'direct'
+  | 'escrow' // funds locked in a new escrow
+  | 'escrow-action' // a release, refund, dispute or resolution of an existing escrow
+  | 'batch';
+
+export interface LocalTransaction {
+  id: string;
+  network: CardanoNetwork;
+  account: string; // the wallet's stake address, or its first payment address without one
+  timestamp: number; // ms
+  amount: string; // ADA
+  recipient: string;
+  message?: string;
+  status: LocalTransactionStatus;
+  errorMessage?: string;
+  errorCode?: TxErrorCode; // absent on records from before error codes
+  txHash?: string;
+  category?: string;
+  type?: LocalTransactionType;
+}
+
+export type NewLocalTransaction = Omit<LocalTransaction, 'id' | 'timestamp' | 'network' | 'account'>;
+
+export interface TransactionQuery {
+  network: CardanoNetwork;
+  account: string;
+  status?: LocalTransactionStatus;
+  category?: string;
+  counterparty?: string; // the recipient address
+  from?: number; // ms, inclusive
+  to?: number; // ms, inclusive
+  limit?: number;
+}
+
+export interface TransactionStore {
+  /**
+   * Records matching the query, newest first
+   */
+  list(query: TransactionQuery): Promise<LocalTransaction[]>;
+  /**
+   * Record transactions for a wallet, all stamped with the current time
+   */
+  add(network: CardanoNetwork, account: string, entries: NewLocalTransaction[]): Promise<LocalTransaction[]>;
+  /**
+   * Change the record of a submitted transaction, whichever wallet it belongs to
+   */
+  update(network: CardanoNetwork, txHash: string, changes: Partial<NewLocalTransaction>): Promise<void>;
+  /**
+   * Hand the unassigned records of the given transactions to a wallet, returning how many it took.
+   * Only pass hashes the chain shows the wallet spending in.
+   */
+  claim(network: CardanoNetwork, account: string, txHashes: string[]): Promise<number>;
+}
+
+const DB_NAME = 'escrow-tx-history';
+const STORE = 'transactions';
+
+// localStorage lists that held the history before this store: one shared key, then one per network
+const LEGACY_STORAGE_KEY = 'cardano_transactions';
+
+// Imported records did not know their wallet. They stay listed under this account until
+// a wallet claims them by their transaction hash.
+export const UNASSIGNED_ACCOUNT = '';
+
+const newId = (timestamp: number) => timestamp.toString() + Math.random().toString(36).slice(2, 11);
+
+const matches = (record: LocalTransaction, query: TransactionQuery): boolean =>
+  record.network === query.network &&
+  record.account === query.account &&
+  (query.status === undefined || record.status === query.status) &&
+  (query.category === undefined || record.category === query.category) &&
+  (query.counterparty === undefined || record.recipient === query.counterparty) &&
+  (query.from === undefined || record.timestamp >= query.from) &&
+  (query.to === undefined || record.timestamp <= query.to);
+
+const stamp = (network: CardanoNetwork, account: string, entries: NewLocalTransaction[]): LocalTransaction[] => {
+  const timestamp = Date.now();
+  return entries.map(entry => ({ id: newId(timestamp), timestamp, network, account, ...entry }));
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * The history kept in localStorage before this store, from every network
+ */
+function readLegacyHistory(): LocalTransaction[] {
+  if (typeof localStorage === 'undefined') return [];
+  const keys = [LEGACY_STORAGE_KEY, ...(['preview', 'preprod', 'mainnet'] as const).map(network => `${LEGACY_STORAGE_KEY}_${network}`)];
+  const records = new Map<string, LocalTransaction>();
+  keys.forEach(key => {
+    try {
+      const stored = localStorage.getItem(key);
+      const entries: Array<Omit<LocalTransaction, 'account'>> = stored ? JSON.parse(stored) : [];
+      entries.forEach(entry => records.set(entry.id, { ...entry, account: UNASSIGNED_ACCOUNT }));
+    } catch (error) {
+      console.warn(`Skipping unreadable history in ${key}:`, error);
+    }
+  });
+  return Array.from(records.values());
+}
+
+// Schema upgrades, one per version: MIGRATIONS[n] takes the database from version n to n + 1
+const MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  (db, transaction) => {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' });
+    // Every query is scoped to one wallet on one network and ordered by date
+    store.createIndex('date', ['network', 'account', 'timestamp']);
+    store.createIndex('status', ['network', 'account', 'status', 'timestamp']);
+    store.createIndex('category', ['network', 'account', 'category', 'timestamp']);
+    store.createIndex('counterparty', ['network', 'account', 'recipient', 'timestamp']);
+    store.createIndex('txHash', ['network', 'txHash']);
+    readLegacyHistory().forEach(record => transaction.objectStore(STORE).put(record));
+  }
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+/**
+ * Store backed by IndexedDB. Reads fail soft to an empty history, writes log and carry on,
+ * so sending never breaks on storage (private browsing, quota).
+ */
+export class IndexedDbTransactionStore implements TransactionStore {
+  private db?: Promise<IDBDatabase>;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, request.transaction!);
+        }
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  async list(query: TransactionQuery): Promise<LocalTransaction[]> {
+    try {
+      const db = await this.open();
+
+      // Walk the most selective index backwards in time, filtering on the rest
+      const { network, account, from = -Infinity, to = Infinity } = query;
+      const [indexName, key] =
+        query.counterparty !== undefined ? ['counterparty', [network, account, query.counterparty]] :
+        query.status !== undefined ? ['status', [network, account, query.status]] :
+        query.category !== undefined ? ['category', [network, account, query.category]] :
+        ['date', [network, account]];
+      const index = db.transaction(STORE).objectStore(STORE).index(indexName);
+      const request = index.openCursor(IDBKeyRange.bound([...key, from], [...key, to]), 'prev');
+
+      return await new Promise((resolve, reject) => {
+        const records: LocalTransaction[] = [];
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || records.length === query.limit) {
+            resolve(records);
+            return;
+          }
+          if (matches(cursor.value, query)) records.push(cursor.value);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('Error loading transaction history:', error);
+      return [];
+    }
+  }
+
+  async add(network: CardanoNetwork, account: string, entries: NewLocalTransaction[]): Promise<LocalTransaction[]> {
+    const records = stamp(network, account, entries);
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(STORE, 'readwrite');
+      records.forEach(record => transaction.objectStore(STORE).put(record));
+      await completion(transaction);
+    } catch (error) {
+      console.error('Error saving transaction:', error);
+    }
+    return records;
+  }
+
+  async update(network: CardanoNetwork, txHash: string, changes: Partial<NewLocalTransaction>): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      const records = await promisify<LocalTransaction[]>(store.index('txHash').getAll([network, txHash]));
+      records.forEach(record => store.put({ ...record, ...changes }));
+      await completion(transaction);
+    } catch (error) {
+      console.error('Error updating transaction:', error);
+    }
+  }
+
+  async claim(network: CardanoNetwork, account: string, txHashes: string[]): Promise<number> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      const found = await Promise.all(
+        txHashes.map(txHash => promisify<LocalTransaction[]>(store.index('txHash').getAll([network, txHash])))
+      );
+      const unassigned = found.flat().filter(record => record.account === UNASSIGNED_ACCOUNT);
+      unassigned.forEach(record => store.put({ ...record, account }));
+      await completion(transaction);
+      return unassigned.length;
+    } catch (error) {
+      console.error('Error claiming transactions:', error);
+      return 0;
+    }
+  }
+}
+
+/**
+ * Store for environments without IndexedDB (server rendering, scripts)
+ */
+export class MemoryTransactionStore implements TransactionStore {
+  private readonly records: LocalTransaction[] = [];
+
+  async list(query: TransactionQuery): Promise<LocalTransaction[]> {
+    return this.records
+      .filter(record => matches(record, query))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, query.limit);
+  }
+
+  async add(network: CardanoNetwork, account: string, entries: NewLocalTransaction[]): Promise<LocalTransaction[]> {
+    const records = stamp(network, account, entries);
+    this.records.push(...records);
+    return records;
+  }
+
+  async update(network: CardanoNetwork, txHash: string, changes: Partial<NewLocalTransaction>): Promise<void> {
+    this.records.forEach((record, index) => {
+      if (record.network === network && record.txHash === txHash) this.records[index] = { ...record, ...changes };
+    });
+  }
+
+  async claim(network: CardanoNetwork, account: string, txHashes: string[]): Promise<number> {
+    const hashes = new Set(txHashes);
+    let claimed = 0;
+    this.records.forEach((record, index) => {
+      if (record.network === network && record.account === UNASSIGNED_ACCOUNT && record.txHash && hashes.has(record.txHash)) {
+        this.records[index] = { ...record, account };
+        claimed++;
+      }
+    });
+    return claimed;
+  }
+}
+
+let sharedStore: TransactionStore | undefined;
+
+/**
+ * The shared store: IndexedDB in the browser, in-memory elsewhere
+ */
+export function getTransactionStore(): TransactionStore {
+  if (!sharedStore) {
+    sharedStore = typeof indexedDB === 'undefined' ? new MemoryTransactionStore() : new IndexedDbTransactionStore();
+  }
+  return sharedStore;
+}
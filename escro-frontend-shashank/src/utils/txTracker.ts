@@ -0,0 +1,345 @@
+// Follows submitted transactions until they are final, or until it is clear they will never
+// land: submitted → in mempool → on chain → final, or failed with the reason.
+// The tracked list is kept in localStorage per network, so tracking resumes after a reload.
+import { core } from '@meshsdk/core';
+import { CardanoNetwork, ChainProvider, ChainProviderError, ChainTip, getChainProvider } from './providers';
+import { FINALITY_CONFIRMATIONS } from './txCache';
+import { SubmitErrorCode } from './txErrors';
+import { getTransactionStore } from './txStore';
+
+export type TrackedStatus = 'submitted' | 'mempool' | 'onchain' | 'final' | 'failed';
+
+export type TrackingFailure =
+  | 'expired' // never made it into a block before its validity interval closed
+  | 'dropped' // left the mempool, or never reached it, without making it into a block
+  | 'rolled-back'; // was in a block that a fork discarded, and did not come back
+
+export interface TrackedTransaction {
+  txHash: string;
+  network: CardanoNetwork;
+  status: TrackedStatus;
+  submittedAt: number; // ms
+  ttlSlot?: number; // invalid_hereafter; the transaction can no longer land from this slot on
+  blockHeight?: number;
+  confirmations?: number; // blocks on top of the one holding the transaction
+  rolledBack?: boolean; // was on chain once and then was not
+  missingSince?: number; // ms; since it has been neither in the mempool nor on chain
+  checkedAt?: number; // ms
+  failure?: TrackingFailure;
+}
+
+// What one poll saw of a transaction
+export interface TrackingObservation {
+  tip: ChainTip;
+  block?: { height: number | null; slot: number }; // absent when not on chain
+  inMempool?: boolean; // absent when the backend cannot tell
+}
+
+// About one block
+export const TRACKER_POLL_INTERVAL_MS = 20_000;
+
+// How long a transaction without a TTL may take to land
+const LANDING_WINDOW_MS = 30 * 60 * 1000;
+
+// How long a transaction may be missing from both mempool and chain before it counts as dropped;
+// covers propagation to the backend's node and the gap between leaving the mempool and being indexed
+const DROP_GRACE_MS = 2 * 60 * 1000;
+
+// Average slots per block, to estimate depth on backends that only index slots
+const SLOTS_PER_BLOCK = 20;
+
+const STORAGE_KEY = 'escrow_tracked_transactions';
+
+const storageKey = (network: CardanoNetwork) => `${STORAGE_KEY}_${network}`;
+
+/**
+ * Whether tracking has ended for a transaction
+ */
+export const isSettled = (tracked: TrackedTransaction): boolean =>
+  tracked.status === 'final' || tracked.status === 'failed';
+
+export const TRACKED_STATUS_LABELS: Record<TrackedStatus, string> = {
+  submitted: 'Submitted',
+  mempool: 'In mempool',
+  onchain: 'On chain',
+  final: 'Final',
+  failed: 'Failed'
+};
+
+/**
+ * The slot from which a transaction can no longer be included, if it has one
+ */
+export const transactionTtl = (txCbor: string): number | undefined => {
+  const ttl = core.deserializeTx(txCbor).body().ttl();
+  return ttl === undefined ? undefined : Number(ttl);
+};
+
+/**
+ * Confirmations of a transaction in `block`, counted as the history does: 0 in the tip block
+ */
+export const confirmationsAt = (block: { height: number | null; slot: number }, tip: ChainTip): number =>
+  block.height !== null
+    ? Math.max(0, tip.height - block.height)
+    : Math.max(0, Math.floor((tip.slot - block.slot) / SLOTS_PER_BLOCK));
+
+/**
+ * The next state of a tracked transaction given what a poll saw
+ */
+export function advanceTracking(
+  tracked: TrackedTransaction,
+  observation: TrackingObservation,
+  now: number = Date.now()
+): TrackedTransaction {
+  if (isSettled(tracked)) return tracked;
+  const { tip, block, inMempool } = observation;
+
+  if (block) {
+    const confirmations = confirmationsAt(block, tip);
+    return {
+      ...tracked,
+      status: confirmations >= FINALITY_CONFIRMATIONS ? 'final' : 'onchain',
+      blockHeight: block.height ?? undefined,
+      confirmations,
+      missingSince: undefined,
+      checkedAt: now
+    };
+  }
+
+  const rolledBack = tracked.rolledBack || tracked.status === 'onchain';
+  const next: TrackedTransaction = {
+    ...tracked,
+    status: inMempool ? 'mempool' : 'submitted',
+    blockHeight: undefined,
+    confirmations: undefined,
+    rolledBack,
+    checkedAt: now
+  };
+  const fail = (failure: TrackingFailure): TrackedTransaction =>
+    ({ ...next, status: 'failed', failure: rolledBack ? 'rolled-back' : failure });
+
+  if (tracked.ttlSlot !== undefined ? tip.slot >= tracked.ttlSlot : now - tracked.submittedAt > LANDING_WINDOW_MS) {
+    return fail('expired');
+  }
+  if (inMempool) {
+    return { ...next, missingSince: undefined };
+  }
+  next.missingSince = tracked.missingSince ?? now;
+  // Without a mempool view, only the TTL tells whether it can still land
+  if (inMempool === false && now - next.missingSince > DROP_GRACE_MS) {
+    return fail('dropped');
+  }
+  return next;
+}
+
+export const TRACKING_FAILURE_CODES: Record<TrackingFailure, SubmitErrorCode> = {
+  expired: 'tx-expired',
+  dropped: 'tx-dropped',
+  'rolled-back': 'tx-rolled-back'
+};
+
+/**
+ * What went wrong with a failed transaction, for display
+ */
+export function trackingFailureMessage(tracked: TrackedTransaction): string {
+  switch (tracked.failure) {
+    case 'expired':
+      return 'Transaction expired before it made it into a block';
+    case 'dropped':
+      return 'Transaction was dropped from the mempool without making it into a block';
+    case 'rolled-back':
+      return 'Transaction was rolled back by a chain fork and did not make it into a block again';
+    default:
+      return 'Transaction failed';
+  }
+}
+
+/**
+ * Look up a tracked transaction on chain and in the mempool
+ */
+async function observe(txHash: string, tip: ChainTip, provider: ChainProvider): Promise<TrackingObservation> {
+  const notFound = (status: number) => (error: unknown) => {
+    if (error instanceof ChainProviderError && error.status === status) return undefined;
+    throw error;
+  };
+  const details = await provider.getTransaction(txHash).catch(notFound(404));
+  if (details) {
+    return { tip, block: { height: details.blockHeight, slot: details.slot } };
+  }
+  return { tip, inMempool: await provider.hasMempoolTransaction(txHash).catch(notFound(501)) };
+}
+
+// Listeners run in subscription order, each awaited before the next
+export type TrackerListener = (changed: TrackedTransaction[]) => void | Promise<void>;
+
+/**
+ * Polls the chain for the transactions of one network until each one is settled
+ */
+export class TransactionTracker {
+  private readonly entries = new Map<string, TrackedTransaction>();
+  private readonly listeners = new Set<TrackerListener>();
+  private timer?: ReturnType<typeof setInterval>;
+  private polling?: Promise<TrackedTransaction[]>;
+
+  constructor(
+    readonly network: CardanoNetwork,
+    private readonly chainProvider?: ChainProvider, // the network's shared provider when absent
+    private readonly pollIntervalMs: number = TRACKER_POLL_INTERVAL_MS
+  ) {
+    this.load().forEach(entry => this.entries.set(entry.txHash, entry));
+  }
+
+  private get provider(): ChainProvider {
+    return this.chainProvider ?? getChainProvider(this.network);
+  }
+
+  private load(): TrackedTransaction[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(storageKey(this.network));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading tracked transactions:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(storageKey(this.network), JSON.stringify(this.list()));
+    } catch (error) {
+      console.error('Error saving tracked transactions:', error);
+    }
+  }
+
+  /**
+   * Every tracked transaction, newest first
+   */
+  list(): TrackedTransaction[] {
+    return Array.from(this.entries.values()).sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  get(txHash: string): TrackedTransaction | undefined {
+    return this.entries.get(txHash);
+  }
+
+  /**
+   * Start following a transaction just submitted; pass its CBOR, signed or not, so its TTL is known
+   */
+  track(txHash: string, txCbor?: string, now: number = Date.now()): TrackedTransaction {
+    const tracked: TrackedTransaction = {
+      txHash,
+      network: this.network,
+      status: 'submitted',
+      submittedAt: now,
+      ttlSlot: txCbor ? transactionTtl(txCbor) : undefined
+    };
+    this.entries.set(txHash, tracked);
+    this.save();
+    this.notify([tracked]).catch(error => console.warn('Transaction tracker listener failed:', error));
+    this.start();
+    return tracked;
+  }
+
+  /**
+   * Check every unsettled transaction once, returning the ones whose state changed
+   */
+  poll(now: number = Date.now()): Promise<TrackedTransaction[]> {
+    // Overlapping timer ticks share one round of requests
+    if (!this.polling) {
+      this.polling = this.check(now).finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private async check(now: number): Promise<TrackedTransaction[]> {
+    const active = this.list().filter(entry => !isSettled(entry));
+    if (active.length === 0) {
+      this.stop();
+      return [];
+    }
+
+    const tip = await this.provider.getTip();
+    const changed: TrackedTransaction[] = [];
+    for (const entry of active) {
+      try {
+        const next = advanceTracking(entry, await observe(entry.txHash, tip, this.provider), now);
+        if (next.status !== entry.status || next.confirmations !== entry.confirmations) changed.push(next);
+        this.entries.set(entry.txHash, next);
+      } catch (error) {
+        console.warn(`Could not check transaction ${entry.txHash}:`, error);
+      }
+    }
+
+    this.save();
+    if (changed.length > 0) await this.notify(changed);
+    if (this.list().every(isSettled)) this.stop();
+    return changed;
+  }
+
+  /**
+   * Get told about state changes; returns the unsubscribe function
+   */
+  subscribe(listener: TrackerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(changed: TrackedTransaction[]): Promise<void> {
+    for (const listener of Array.from(this.listeners)) {
+      await listener(changed);
+    }
+  }
+
+  /**
+   * Poll on a timer while any transaction is unsettled
+   */
+  start(): void {
+    if (this.timer || this.list().every(isSettled)) return;
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.warn('Transaction tracking failed:', error));
+    }, this.pollIntervalMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+const trackers = new Map<CardanoNetwork, TransactionTracker>();
+
+/**
+ * The shared tracker for a network, already polling when it resumed unsettled transactions.
+ * Settled transactions update their entry in the local history.
+ */
+export function getTransactionTracker(network: CardanoNetwork): TransactionTracker {
+  let tracker = trackers.get(network);
+  if (!tracker) {
+    tracker = new TransactionTracker(network);
+    tracker.subscribe(async changed => {
+      await Promise.all(
+        changed.filter(isSettled).map(entry =>
+          getTransactionStore().update(
+            network,
+            entry.txHash,
+            entry.status === 'final'
+              ? { status: 'success' }
+              : {
+                  status: 'failed',
+                  errorMessage: trackingFailureMessage(entry),
+                  errorCode: entry.failure ? TRACKING_FAILURE_CODES[entry.failure] : undefined
+                }
+          )
+        )
+      );
+    });
+    trackers.set(network, tracker);
+    if (typeof window !== 'undefined') tracker.start();
+  }
+  return tracker;
+}
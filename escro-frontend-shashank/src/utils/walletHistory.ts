@@ -0,0 +1,103 @@
+// Wallet history: merges the transactions of every payment address behind a
+// wallet's stake key, so funds moving through change addresses show up too
+import type { IWallet } from '@meshsdk/core';
+import { ParsedTransaction, parseTransactionRefs } from './blockchain';
+import {
+  AddressTransactionRef,
+  CardanoNetwork,
+  ChainProvider,
+  getChainProvider,
+  mapWithConcurrency
+} from './providers';
+import { TransactionCache, getTransactionCache } from './txCache';
+
+// What we know about a wallet before asking the chain
+export interface WalletAccount {
+  stakeAddress?: string;
+  addresses: string[]; // addresses the wallet reports itself, including enterprise ones
+}
+
+// Addresses queried in parallel; each one is paged sequentially
+const ADDRESS_FETCH_CONCURRENCY = 4;
+
+/**
+ * Read the stake address and payment addresses a connected wallet exposes
+ */
+export async function getWalletAccount(wallet: IWallet): Promise<WalletAccount> {
+  const [rewardAddresses, usedAddresses, changeAddress] = await Promise.all([
+    wallet.getRewardAddresses(),
+    wallet.getUsedAddresses(),
+    wallet.getChangeAddress()
+  ]);
+
+  return {
+    stakeAddress: rewardAddresses[0],
+    addresses: Array.from(new Set([...usedAddresses, changeAddress]))
+  };
+}
+
+/**
+ * The key a wallet's local records are kept under: its stake address, or its first address without one
+ */
+export const accountKey = (account: WalletAccount): string => account.stakeAddress ?? account.addresses[0] ?? '';
+
+/**
+ * Every payment address of the account: the ones the chain associates with the
+ * stake key plus the ones the wallet reported
+ */
+export async function fetchWalletAddresses(account: WalletAccount, provider: ChainProvider): Promise<string[]> {
+  const onChain = account.stakeAddress ? await provider.getAccountAddresses(account.stakeAddress) : [];
+  return Array.from(new Set([...account.addresses, ...onChain]));
+}
+
+/**
+ * The newest `limit` transactions touching one address
+ */
+async function fetchLatestTransactions(
+  address: string,
+  limit: number,
+  count: number,
+  provider: ChainProvider
+): Promise<AddressTransactionRef[]> {
+  const refs: AddressTransactionRef[] = [];
+  for (let page = 1; refs.length < limit; page++) {
+    const pageRefs = await provider.getAddressTransactions(address, { page, count });
+    refs.push(...pageRefs);
+    if (pageRefs.length < count) break;
+  }
+  return refs.slice(0, limit);
+}
+
+/**
+ * Fetch one page of the merged history of all the wallet's addresses, newest
+ * first. Transfers between the wallet's own addresses come back as 'self'.
+ */
+export async function fetchWalletTransactions(
+  account: WalletAccount,
+  network: CardanoNetwork = 'preprod',
+  page: number = 1,
+  count: number = 50,
+  provider: ChainProvider = getChainProvider(network),
+  cache: TransactionCache = getTransactionCache()
+): Promise<ParsedTransaction[]> {
+  try {
+    const [addresses, tip] = await Promise.all([fetchWalletAddresses(account, provider), provider.getTip()]);
+
+    // Page N of the merged history lies within the newest N pages of each address
+    const perAddress = await mapWithConcurrency(addresses, ADDRESS_FETCH_CONCURRENCY, address =>
+      fetchLatestTransactions(address, page * count, count, provider)
+    );
+
+    // A transaction touching several of our addresses is listed once per address
+    const merged = new Map<string, AddressTransactionRef>();
+    perAddress.flat().forEach(ref => merged.set(ref.txHash, ref));
+    const transactions = Array.from(merged.values())
+      .sort((a, b) => b.blockTime - a.blockTime || (b.blockHeight ?? 0) - (a.blockHeight ?? 0))
+      .slice((page - 1) * count, page * count);
+
+    return await parseTransactionRefs(transactions, tip, account.addresses[0] ?? addresses[0], new Set(addresses), provider, cache);
+  } catch (error) {
+    console.error(`Error fetching wallet transactions from ${provider.name}:`, error);
+    throw error;
+  }
+}
@@ -1,122 +1,59 @@
 import React, { useState, useEffect } from 'react';
-import { BrowserWallet, Transaction } from '@meshsdk/core';
+import { BrowserWallet, Transaction, applyCborEncoding, resolveScriptHash } from '@meshsdk/core';
+import blueprint from '../../../escrow-dapp/plutus.json';
 import { testMeshJSImport, testGlobals } from '../utils/testImports';
+import { addressError, paymentKeyHash, scriptAddress } from '../../../escro-frontend-shashank/src/utils/address';
+import { type EscrowDatum, escrowDatumToData } from '../../../escro-frontend-shashank/src/utils/blueprint.generated';
+import { messageMetadata } from '../../../escro-frontend-shashank/src/utils/messageMetadata';
+import { TX_METADATA_LABEL, encodeTxMetadata } from '../../../escro-frontend-shashank/src/utils/txMetadata';
 import styles from './Home.module.css';
 
-// Aiken contract configuration - using actual compiled script hash
-const ESCROW_SCRIPT_HASH = "f2388d136606a27c4a531d0040c3e12e07eb95cd5011793c160707dc";
+// Aiken escrow validator; its hash is computed from the compiled code so it always matches the script
+const ESCROW_VALIDATOR_TITLE = 'escrow.escrow.spend';
 
-// Bech32 encoding utilities for Cardano address generation
-const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
-
-const bech32Polymod = (values: number[]): number => {
-  const GEN = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
-  let chk = 1;
-  for (const value of values) {
-    const top = chk >> 25;
-    chk = (chk & 0x1ffffff) << 5 ^ value;
-    for (let i = 0; i < 5; i++) {
-      chk ^= ((top >> i) & 1) ? GEN[i] : 0;
-    }
-  }
-  return chk;
-};
-
-const bech32HrpExpand = (hrp: string): number[] => {
-  const ret = [];
-  for (let p = 0; p < hrp.length; p++) {
-    ret.push(hrp.charCodeAt(p) >> 5);
-  }
-  ret.push(0);
-  for (let p = 0; p < hrp.length; p++) {
-    ret.push(hrp.charCodeAt(p) & 31);
-  }
-  return ret;
-};
-
-const bech32CreateChecksum = (hrp: string, data: number[]): number[] => {
-  const values = bech32HrpExpand(hrp).concat(data).concat([0, 0, 0, 0, 0, 0]);
-  const mod = bech32Polymod(values) ^ 1;
-  const ret = [];
-  for (let p = 0; p < 6; p++) {
-    ret.push((mod >> 5 * (5 - p)) & 31);
-  }
-  return ret;
-};
+const escrowValidator = blueprint.validators.find(validator => validator.title === ESCROW_VALIDATOR_TITLE);
+if (!escrowValidator) {
+  throw new Error(`Validator ${ESCROW_VALIDATOR_TITLE} not found in plutus.json`);
+}
 
-const bech32Encode = (hrp: string, data: number[]): string => {
-  const combined = data.concat(bech32CreateChecksum(hrp, data));
-  let ret = hrp + '1';
-  for (const d of combined) {
-    ret += BECH32_CHARSET.charAt(d);
-  }
-  return ret;
-};
+const ESCROW_SCRIPT_HASH = resolveScriptHash(applyCborEncoding(escrowValidator.compiledCode), 'V3');
 
-const convertBits = (data: number[], fromBits: number, toBits: number, pad: boolean): number[] | null => {
-  let acc = 0;
-  let bits = 0;
-  const ret = [];
-  const maxv = (1 << toBits) - 1;
-  const maxAcc = (1 << (fromBits + toBits - 1)) - 1;
-  for (const value of data) {
-    if (value < 0 || (value >> fromBits) !== 0) {
-      return null;
-    }
-    acc = ((acc << fromBits) | value) & maxAcc;
-    bits += fromBits;
-    while (bits >= toBits) {
-      bits -= toBits;
-      ret.push((acc >> bits) & maxv);
-    }
-  }
-  if (pad) {
-    if (bits > 0) {
-      ret.push((acc << (toBits - bits)) & maxv);
-    }
-  } else if (bits >= fromBits || ((acc << (toBits - bits)) & maxv)) {
-    return null;
-  }
-  return ret;
+// Escrow script address on the wallet's network; throws rather than guess
+const getEscrowAddress = async (wallet: BrowserWallet): Promise<string> => {
+  const networkId = await wallet.getNetworkId();
+  return scriptAddress(ESCROW_SCRIPT_HASH, networkId === 1 ? 'mainnet' : 'preprod');
 };
 
-// Function to derive script address from hash (testnet)
-const getScriptAddress = (scriptHash: string): string => {
-  try {
-    console.log(`🔧 Deriving script address from hash: ${scriptHash}`);
-    
-    // Convert hex script hash to bytes
-    const scriptHashBytes = [];
-    for (let i = 0; i < scriptHash.length; i += 2) {
-      scriptHashBytes.push(parseInt(scriptHash.substr(i, 2), 16));
-    }
-    
-    // Create Cardano script address payload:
-    // First byte: address type (0x30 for testnet script address)
-    // Next 28 bytes: script hash
-    const addressPayload = [0x30, ...scriptHashBytes];
-    
-    // Convert to 5-bit groups for bech32 encoding
-    const converted = convertBits(addressPayload, 8, 5, true);
-    if (!converted) {
-      throw new Error('Failed to convert address payload to 5-bit groups');
-    }
-    
-    // Encode with testnet HRP (Human Readable Part)
-    const address = bech32Encode('addr_test', converted);
-    
-    console.log(`✅ Generated script address: ${address}`);
-    console.log(`📋 This is your ACTUAL Aiken contract address!`);
-    
-    return address;
-    
-  } catch (error) {
-    console.error('❌ Error deriving script address:', error);
-    // Fallback to placeholder if derivation fails
-    const fallback = `addr_test1wpcrj6e8fc06tvj55vxmv25rrv8zmzyha2wsml7dsvqngu85rsf9z`;
-    console.log(`⚠️ Using fallback address: ${fallback}`);
-    return fallback;
-  }
+// The sender can reclaim an escrow the receiver has not confirmed after this long
+const REFUND_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// UTF-8 text as hex, the way the validator's ByteArray fields store it
+const stringToHex = (str: string): string =>
+  Array.from(new TextEncoder().encode(str), b => b.toString(16).padStart(2, '0')).join('');
+
+// Escrow datum for the Aiken contract, encoded with the same blueprint codec as the main app
+const createEscrowDatum = (senderAddress: string, receiverAddress: string, lovelace: string): EscrowDatum => {
+  const now = Date.now();
+  const transactionId = `escrow_${now}_${Math.random().toString(36).substr(2, 9)}`;
+
+  return {
+    sender: paymentKeyHash(senderAddress),
+    receiver: paymentKeyHash(receiverAddress),
+    amount: BigInt(lovelace),
+    message: stringToHex(`Escrow payment: ${Number(lovelace) / 1_000_000} ADA`),
+    category: stringToHex('Escrow'),
+    transaction_id: stringToHex(transactionId),
+    timestamp: BigInt(Math.floor(now / 1000)),
+    sender_confirmed: false,
+    receiver_confirmed: false,
+    // Whole seconds, so the deadline falls on a slot boundary
+    refund_deadline: BigInt(Math.floor((now + REFUND_WINDOW_MS) / 1000) * 1000),
+    auto_release_deadline: null,
+    arbiter: null,
+    dispute: null,
+    milestones: [],
+    tokens: new Map()
+  };
 };
 
 // Interface for form data
@@ -126,29 +63,6 @@ interface TransactionData {
 }
 
 const Home: React.FC = () => {
-  // Helper function to create escrow datum for Aiken contract
-  const createEscrowDatum = (senderAddress: string, receiverAddress: string, amount: string) => {
-    const transactionId = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    return {
-      sender: senderAddress,
-      receiver: receiverAddress,
-      amount: parseInt((parseFloat(amount) * 1_000_000).toString()), // Convert to lovelace
-      message: `Escrow payment: ${amount} ADA`,
-      category: "Escrow",
-      transaction_id: transactionId,
-      timestamp: Math.floor(Date.now() / 1000),
-      sender_confirmed: true,
-      receiver_confirmed: false,
-    };
-  };
-
-  // Helper function to truncate strings for metadata (max 64 bytes)
-  const truncateForMetadata = (str: string, maxLength: number = 50): string => {
-    if (str.length <= maxLength) return str;
-    return str.slice(0, maxLength - 3) + "...";
-  };
-
   // Dictionary to store form values
   const [formData, setFormData] = useState<TransactionData>({
     amount: '',
@@ -268,10 +182,10 @@ const Home: React.FC = () => {
     if (!formData.receiverAddress.trim()) {
       errors.push('Receiver address is required');
     } else {
-      // Enhanced Cardano address validation
-      const addressPattern = /^(addr1|addr_test1)[a-zA-Z0-9]+$/;
-      if (!addressPattern.test(formData.receiverAddress.trim())) {
-        errors.push('Receiver address must be a valid Cardano address (starting with addr1 or addr_test1)');
+      // Full decode with checksum, so typos are caught before the wallet sees them
+      const receiverError = addressError(formData.receiverAddress.trim());
+      if (receiverError) {
+        errors.push(`Receiver address is invalid: ${receiverError.message}`);
       }
     }
 
@@ -289,7 +203,7 @@ const Home: React.FC = () => {
       setIsLoading(true);
       setTxHash('');
 
-      const amountInLovelace = (parseFloat(formData.amount) * 1_000_000).toString();
+      const amountInLovelace = Math.round(parseFloat(formData.amount) * 1_000_000).toString();
 
       // Create transaction using MeshJS
       const tx = new Transaction({ initiator: wallet });
@@ -299,19 +213,20 @@ const Home: React.FC = () => {
         console.log('🔒 Using Aiken Smart Contract Escrow');
         
         // Create escrow datum for the Aiken contract
-        const escrowDatum = createEscrowDatum(walletAddress, formData.receiverAddress.trim(), formData.amount);
+        const escrowDatum = createEscrowDatum(walletAddress, formData.receiverAddress.trim(), amountInLovelace);
         console.log('📄 Escrow Datum:', escrowDatum);
         
         // Get the actual script address from our contract hash
-        const scriptAddress = getScriptAddress(ESCROW_SCRIPT_HASH);
-        console.log('📍 Script Address:', scriptAddress);
+        const escrowAddress = await getEscrowAddress(wallet);
+        console.log('📍 Script Address:', escrowAddress);
         console.log('📋 Contract Hash:', ESCROW_SCRIPT_HASH);
         
         try {
-          // Create script output with the datum
-          // For now, we'll send to the script address as a regular payment
-          // TODO: Implement proper datum attachment when MeshJS supports it better
-          tx.sendLovelace(scriptAddress, amountInLovelace);
+          // Lock the funds at the script address with the datum inlined, so the validator can spend them
+          tx.sendLovelace(
+            { address: escrowAddress, datum: { value: escrowDatumToData(escrowDatum), inline: true } },
+            amountInLovelace
+          );
           
           console.log('💰 Sending', formData.amount, 'ADA to escrow contract');
           console.log('⚠️ Funds will be locked in smart contract until receiver approval');
@@ -327,25 +242,14 @@ const Home: React.FC = () => {
         tx.sendLovelace(formData.receiverAddress.trim(), amountInLovelace);
       }
       
-      // Add minimal metadata only if addresses are short enough
-      try {
-        const senderShort = truncateForMetadata(walletAddress, 25);
-        const receiverShort = truncateForMetadata(formData.receiverAddress.trim(), 25);
-        
-        const metadata = {
-          "674": {
-            "msg": [`${formData.amount} ADA`],
-            "from": senderShort,
-            "to": receiverShort,
-            "ts": Math.floor(Date.now() / 1000)
-          }
-        };
-        tx.setMetadata(674, metadata[674]);
-        console.log('Metadata added:', metadata[674]);
-      } catch (metadataError) {
-        console.warn('Skipping metadata due to length constraints:', metadataError);
-        // Continue without metadata if there are issues
-      }
+      // The transaction's own inputs and outputs already record both addresses
+      const metadata = encodeTxMetadata({
+        type: 'direct_transfer',
+        message: messageMetadata(`${formData.amount} ADA`),
+        timestamp: Math.floor(Date.now() / 1000)
+      });
+      tx.setMetadata(TX_METADATA_LABEL, metadata);
+      console.log('Metadata added:', metadata);
 
       // Build the transaction
       const unsignedTx = await tx.build();
@@ -361,7 +265,7 @@ const Home: React.FC = () => {
       const modeInfo = useSmartContract 
         ? `🔒 SMART CONTRACT ESCROW
 ✅ Funds locked in Aiken smart contract
-� Contract Address: ${getScriptAddress(ESCROW_SCRIPT_HASH).slice(0, 30)}...
+� Contract Address: ${(await getEscrowAddress(wallet)).slice(0, 30)}...
 📋 Script Hash: ${ESCROW_SCRIPT_HASH.slice(0, 20)}...
 ⏳ Waiting for receiver approval to release funds`
         : `💸 DIRECT PAYMENT
@@ -408,12 +312,12 @@ You can view this transaction on Cardano Explorer once it's confirmed.`;
   const handleSend = async () => {
     const validation = validateForm();
     console.log('Validation result:', validation);
-    if (validation.isValid) {
+    if (validation.isValid && wallet) {
       // Confirm transaction with user
       const modeInfo = useSmartContract 
         ? `🔒 MODE: Smart Contract Escrow
 Funds will be locked in Aiken smart contract until receiver approval.
-📍 Contract: ${getScriptAddress(ESCROW_SCRIPT_HASH).slice(0, 30)}...
+📍 Contract: ${(await getEscrowAddress(wallet)).slice(0, 30)}...
 ⚠️ Receiver must approve to release funds from escrow.`
         : `💸 MODE: Direct Payment
 Funds will be sent directly to recipient immediately.`;
@@ -21,5 +21,11 @@ export default defineConfig({
   },
   optimizeDeps: {
     include: ['@meshsdk/core', '@meshsdk/react', 'buffer']
+  },
+  server: {
+    fs: {
+      // Shared utilities are imported from the escro-frontend-shashank sources
+      allow: ['..']
+    }
   }
 })
@@ -28,8 +28,9 @@ import {
 } from '@mui/icons-material';
 import { useWallet } from '@meshsdk/react';
 import { v4 as uuidv4 } from 'uuid';
+import { addressError } from '../../../escro-frontend-shashank/src/utils/address';
 
-// Predefined contacts for demo purposes
+// Predefined contacts for demo purposes. These are the public CIP-19 test vector addresses: valid, but never send real funds to them
 const DEMO_CONTACTS = [
   { 
     name: "Alice Johnson", 
@@ -37,15 +38,15 @@ const DEMO_CONTACTS = [
   },
   { 
     name: "Bob Smith", 
-    address: "addr1qy8ac7qqy0vtulyl7wlws6uqpxl6cedpgaqu9wgdtdpa3v7mek8wfr8sehmlvwxxm7p4pz2y6qrcw2j4qrp8fdhxklqg6j2qru" 
+    address: "addr1yx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzerkr0vd4msrxnuwnccdxlhdjar77j6lg0wypcc9uar5d2shs2z78ve" 
   },
   { 
     name: "Carol Williams", 
-    address: "addr1qz9fg5zrttz9dt3p2zqjh2q7jxf2zl5c8vkk8f7q4t3p2zqjh2q7jxf2zl5c8vkk8f7q4t3p2zqjh2q7jxf2zl5c8vkk" 
+    address: "addr1gx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer5pnz75xxcrzqf96k" 
   },
   { 
     name: "David Brown", 
-    address: "addr1q8h5fg2zrttz9dt3p2zqjh2q7jxf2zl5c8vkk8f7q4t3p2zqjh2q7jxf2zl5c8vkk8f7q4t3p2zqjh2q7jxf2zl5c8vk" 
+    address: "addr1vx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzers66hrl8" 
   }
 ];
 
@@ -171,6 +172,11 @@ function TransactionForm({ onSuccess, walletBalance }) {
       setError('Please select a receiver');
       return false;
     }
+    const receiverError = addressError(formData.receiverAddress.trim());
+    if (receiverError) {
+      setError(`Receiver address is invalid: ${receiverError.message}`);
+      return false;
+    }
     if (!formData.amount || parseFloat(formData.amount) <= 0) {
       setError('Please enter a valid amount');
       return false;